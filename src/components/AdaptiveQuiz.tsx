@@ -0,0 +1,296 @@
+import React, { useState } from "react";
+import toast from "react-hot-toast";
+import {
+  FiArrowRight,
+  FiCheckCircle,
+  FiSave,
+  FiTrendingUp,
+  FiXCircle,
+} from "react-icons/fi";
+import { useEnhancedEduQuest } from "../hooks/useEnhancedEduQuest";
+import useSessionStore from "../store/useSessionStore";
+import type { Question, QuizSession } from "../store/useSessionStore";
+import {
+  ADAPTIVE_TOP_UP,
+  isAdaptiveFinished,
+  pickNearestQuestion,
+  pickNextQuestion,
+  recordAdaptiveAnswer,
+  targetDifficulty,
+} from "../utils/adaptive";
+import type { AdaptiveState } from "../utils/adaptive";
+import { gradeObjectiveAnswer } from "../utils/grading";
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+interface AdaptiveQuizProps {
+  session: QuizSession;
+  adaptive: AdaptiveState;
+  isAnalyzing: boolean;
+  onFinish: () => void;
+}
+
+/**
+ * One question at a time, each picked at the difficulty nearest the learner's current ability
+ * estimate. Answers are graded as soon as they are checked. When the session has no unserved
+ * question at the needed level, a few more are generated at that level, which uses a credit.
+ */
+const AdaptiveQuiz: React.FC<AdaptiveQuizProps> = ({
+  session,
+  adaptive,
+  isAnalyzing,
+  onFinish,
+}) => {
+  const { generateWithContext, loading } = useEnhancedEduQuest();
+  const { saveAnswer, setAnswerGrades, setAdaptiveState, appendQuestions } =
+    useSessionStore();
+
+  const [answer, setAnswer] = useState<string | boolean>("");
+
+  const fallback = session.config?.difficulty;
+  const current = session.questions.find(
+    (question) => question.id === adaptive.currentQuestionId,
+  );
+  const lastStep = adaptive.path[adaptive.path.length - 1];
+  const lastQuestion = lastStep
+    ? session.questions.find((question) => question.id === lastStep.questionId)
+    : undefined;
+  const finished = isAdaptiveFinished(adaptive);
+  const target = targetDifficulty(adaptive.ability);
+
+  // Generate a few questions at the target level and return the session's questions afterwards
+  const topUp = async (): Promise<Question[] | null> => {
+    const result = await generateWithContext([], session.topic, {
+      ...session.config,
+      ...ADAPTIVE_TOP_UP,
+      difficulty: target,
+    });
+    if (!result) return null;
+
+    // The model may leave difficulty out; these were all asked for at the target level
+    const questions = Object.fromEntries(
+      Object.entries(result.questions).map(([key, items]) => [
+        key,
+        (items as any[]).map((item) => ({ difficulty: target, ...item })),
+      ]),
+    );
+    appendQuestions(session.id, questions);
+    return useSessionStore.getState().getSessionById(session.id)?.questions || null;
+  };
+
+  const serveNext = async () => {
+    let next = pickNextQuestion(session.questions, adaptive, fallback);
+
+    if (!next) {
+      const questions = (await topUp()) || session.questions;
+      next =
+        pickNextQuestion(questions, adaptive, fallback) ||
+        pickNearestQuestion(questions, adaptive, fallback);
+    }
+
+    if (!next) {
+      // Nothing left to serve: end the session with the questions answered so far
+      toast.error("No more questions available. You can finish the session now.");
+      setAdaptiveState(session.id, { ...adaptive, length: adaptive.path.length });
+      return;
+    }
+
+    setAnswer("");
+    setAdaptiveState(session.id, { ...adaptive, currentQuestionId: next.id });
+  };
+
+  const checkAnswer = () => {
+    if (!current) return;
+
+    const correct = gradeObjectiveAnswer(current, answer) === true;
+    saveAnswer(current.id, answer);
+    setAnswerGrades(session.id, { [current.id]: correct });
+    setAdaptiveState(
+      session.id,
+      recordAdaptiveAnswer(adaptive, current, correct, fallback),
+    );
+  };
+
+  const renderAnswerInput = (question: Question) => {
+    switch (question.type) {
+      case "mcq":
+        return (
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+            {question.options?.map((option, index) => (
+              <label
+                key={index}
+                className="flex cursor-pointer items-center gap-3 rounded-lg bg-gray-700 p-3 transition-colors hover:bg-gray-600"
+              >
+                <input
+                  type="radio"
+                  name={`adaptive-${question.id}`}
+                  checked={answer === option}
+                  onChange={() => setAnswer(option)}
+                  className="h-4 w-4 text-blue-600"
+                />
+                <span className="text-gray-200">{option}</span>
+              </label>
+            ))}
+          </div>
+        );
+
+      case "true_false":
+        return (
+          <div className="flex gap-4">
+            {[true, false].map((value) => (
+              <label
+                key={String(value)}
+                className="flex cursor-pointer items-center gap-2 rounded-lg bg-gray-700 p-3 transition-colors hover:bg-gray-600"
+              >
+                <input
+                  type="radio"
+                  name={`adaptive-${question.id}`}
+                  checked={answer === value}
+                  onChange={() => setAnswer(value)}
+                  className="h-4 w-4 text-blue-600"
+                />
+                <span className={value ? "text-green-400" : "text-red-400"}>
+                  {value ? "True" : "False"}
+                </span>
+              </label>
+            ))}
+          </div>
+        );
+
+      default:
+        return (
+          <input
+            type="text"
+            value={String(answer)}
+            onChange={(e) => setAnswer(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && String(answer).trim()) checkAnswer();
+            }}
+            placeholder="Enter your answer..."
+            className="w-full rounded-lg border border-gray-600 bg-gray-700 p-3 text-white placeholder-gray-400 transition-colors focus:border-blue-500 focus:outline-none"
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 rounded-lg bg-[#1F2329] p-4">
+        <div className="flex items-center gap-3">
+          <FiTrendingUp size={20} className="text-blue-400" />
+          <div>
+            <p className="font-semibold">Adaptive mode</p>
+            <p className="text-sm text-gray-400">
+              Ability {adaptive.ability.toFixed(2)} · next questions at{" "}
+              {target} level
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1" title="Questions served so far">
+          {adaptive.path.map((step) => (
+            <span
+              key={step.questionId}
+              title={`${capitalize(step.difficulty)}: ${step.correct ? "correct" : "incorrect"}`}
+              className={`h-3 w-3 rounded-full ${step.correct ? "bg-green-500" : "bg-red-500"} ${
+                step.difficulty === "advanced"
+                  ? "ring-2 ring-purple-400"
+                  : step.difficulty === "beginner"
+                    ? "opacity-60"
+                    : ""
+              }`}
+            />
+          ))}
+          {Array.from({
+            length: Math.max(0, adaptive.length - adaptive.path.length),
+          }).map((_, index) => (
+            <span key={index} className="h-3 w-3 rounded-full bg-gray-700" />
+          ))}
+        </div>
+      </div>
+
+      {current ? (
+        <div className="rounded-lg bg-[#1F2329] p-6">
+          <p className="mb-2 text-sm text-gray-400">
+            Question {adaptive.path.length + 1} of {adaptive.length} ·{" "}
+            {capitalize(current.difficulty || fallback || "intermediate")}
+          </p>
+          <p className="mb-4 font-bold text-[#9ca0d2]">{current.question}</p>
+          {renderAnswerInput(current)}
+          <div className="mt-6 text-right">
+            <button
+              onClick={checkAnswer}
+              disabled={answer === "" || String(answer).trim() === ""}
+              className="rounded-lg bg-blue-600 px-6 py-3 font-semibold hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Check answer
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="rounded-lg bg-[#1F2329] p-6">
+          {lastStep && lastQuestion && (
+            <div className="mb-6">
+              <p className="mb-2 font-bold text-[#9ca0d2]">
+                {lastQuestion.question}
+              </p>
+              {lastStep.correct ? (
+                <p className="flex items-center gap-2 text-green-400">
+                  <FiCheckCircle size={16} /> Correct
+                </p>
+              ) : (
+                <p className="flex items-center gap-2 text-red-400">
+                  <FiXCircle size={16} /> Incorrect. Expected answer:{" "}
+                  {lastQuestion.answer}
+                </p>
+              )}
+              {lastQuestion.explanation && (
+                <p className="mt-2 text-sm text-gray-300">
+                  {lastQuestion.explanation}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-center gap-4">
+            {!finished && (
+              <button
+                onClick={serveNext}
+                disabled={loading}
+                className="flex items-center gap-2 rounded-lg bg-blue-600 px-6 py-3 font-semibold hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {loading ? (
+                  <>
+                    <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent"></div>
+                    Generating {target} questions...
+                  </>
+                ) : (
+                  <>
+                    {lastStep ? "Next question" : "Start"}
+                    <FiArrowRight size={16} />
+                  </>
+                )}
+              </button>
+            )}
+            {adaptive.path.length > 0 && (
+              <button
+                onClick={onFinish}
+                disabled={isAnalyzing || loading}
+                className={`flex items-center gap-2 rounded-lg px-6 py-3 font-semibold disabled:cursor-not-allowed disabled:opacity-50 ${
+                  finished
+                    ? "bg-green-600 hover:bg-green-700"
+                    : "bg-gray-600 hover:bg-gray-700"
+                }`}
+              >
+                <FiSave size={16} />
+                {isAnalyzing ? "Finishing..." : "Finish"}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdaptiveQuiz;
@@ -33,29 +33,10 @@ import {
 import { Textarea } from "~/components/ui/textarea";
 import { Dialog, DialogContent, DialogTrigger } from "~/components/ui/dialog";
 import { cn } from "~/utils/cn";
+import { AI_MODELS, DEFAULT_AI_MODEL, getTotalQuestions } from "~/config/api";
 import { MultimodalFileUpload } from "./MultimodalFileUpload";
 import { QuestionConfigComponent } from "./QuestionConfig";
 
-// AI Models
-const AI_MODELS = [
-  { value: "openai/gpt-4", label: "GPT-4" },
-  { value: "openai/gpt-4-turbo", label: "GPT-4 Turbo" },
-  { value: "openai/gpt-3.5-turbo", label: "GPT-3.5 Turbo" },
-  { value: "anthropic/claude-3-sonnet", label: "Claude 3 Sonnet" },
-  { value: "anthropic/claude-3-haiku", label: "Claude 3 Haiku" },
-  { value: "google/gemini-pro", label: "Gemini Pro" },
-];
-
-// Model icons mapping
-const MODEL_ICONS: Record<string, React.ReactNode> = {
-  "openai/gpt-4": <Bot className="h-4 w-4 text-gray-400" />,
-  "openai/gpt-4-turbo": <Bot className="h-4 w-4 text-gray-400" />,
-  "openai/gpt-3.5-turbo": <Bot className="h-4 w-4 text-gray-400" />,
-  "anthropic/claude-3-sonnet": <Bot className="h-4 w-4 text-gray-400" />,
-  "anthropic/claude-3-haiku": <Bot className="h-4 w-4 text-gray-400" />,
-  "google/gemini-pro": <Bot className="h-4 w-4 text-gray-400" />,
-};
-
 interface UseAutoResizeTextareaProps {
   minHeight: number;
   maxHeight?: number;
@@ -126,7 +107,7 @@ export function EduQuestPrompt({
   value,
   setValue,
   onSend,
-  defaultModel = "openai/gpt-4",
+  defaultModel = DEFAULT_AI_MODEL,
   files,
   setFiles,
   questionConfig,
@@ -162,10 +143,7 @@ export function EduQuestPrompt({
   };
 
   const canGenerate = files.length > 0 || value.trim().length > 0;
-  const totalQuestions = Object.values(questionConfig).reduce(
-    (sum: number, count: any) => sum + count,
-    0,
-  );
+  const totalQuestions = getTotalQuestions(questionConfig);
 
   return (
     <div className="w-full pt-4">
@@ -230,9 +208,7 @@ Examples:
                             }}
                             className="flex items-center gap-1"
                           >
-                            {MODEL_ICONS[selectedModel] || (
-                              <Bot className="h-4 w-4 text-gray-400" />
-                            )}
+                            <Bot className="h-4 w-4 text-gray-400" />
                             {getModelLabel(selectedModel)}
                             <ChevronDown className="h-3 w-3 text-gray-400" />
                           </motion.div>
@@ -252,9 +228,7 @@ Examples:
                           className="flex items-center justify-between gap-2 hover:bg-gray-700 focus:bg-gray-700"
                         >
                           <div className="flex items-center gap-2">
-                            {MODEL_ICONS[model.value] || (
-                              <Bot className="h-4 w-4 text-gray-400" />
-                            )}
+                            <Bot className="h-4 w-4 text-gray-400" />
                             <span>{model.label}</span>
                           </div>
                           {selectedModel === model.value && (
@@ -0,0 +1,116 @@
+import React, { useState } from "react";
+import { FiClock } from "react-icons/fi";
+import type { QuestionType } from "../config/api";
+import type { Question } from "../store/useSessionStore";
+import { examSections, suggestedMinutes } from "../utils/examTimer";
+import type { ExamSettings } from "../utils/examTimer";
+
+const SECTION_LABELS: Record<QuestionType, string> = {
+  mcq: "Multiple choice",
+  fill: "Fill in the blanks",
+  true_false: "True/False",
+  short: "Short answer",
+  long: "Long answer",
+};
+
+interface ExamSetupProps {
+  questions: Question[];
+  onStart: (settings: ExamSettings) => void;
+  onCancel: () => void;
+}
+
+const toMinutes = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+/**
+ * Time limits for a timed exam. The total is required; a section left blank has no limit of its
+ * own. Setting any section limit makes the sections run one after another.
+ */
+const ExamSetup: React.FC<ExamSetupProps> = ({
+  questions,
+  onStart,
+  onCancel,
+}) => {
+  const sections = examSections(questions);
+  const [total, setTotal] = useState(String(suggestedMinutes(questions)));
+  const [sectionMinutes, setSectionMinutes] = useState<
+    Partial<Record<QuestionType, string>>
+  >({});
+
+  const start = () => {
+    const sectionLimits: ExamSettings["sectionLimits"] = {};
+    sections.forEach((section) => {
+      const minutes = toMinutes(sectionMinutes[section] || "");
+      if (minutes > 0) sectionLimits[section] = Math.round(minutes * 60);
+    });
+    onStart({ timeLimit: Math.round(toMinutes(total) * 60), sectionLimits });
+  };
+
+  return (
+    <div className="mb-6 rounded-lg bg-[#1F2329] p-6">
+      <div className="mb-4 flex items-center gap-3">
+        <FiClock size={20} className="text-blue-400" />
+        <div>
+          <h3 className="font-semibold">Timed exam</h3>
+          <p className="text-sm text-gray-400">
+            The exam is submitted automatically when time runs out, and answers
+            cannot be changed after submission.
+          </p>
+        </div>
+      </div>
+
+      <label className="mb-4 flex items-center gap-3 text-sm">
+        <span className="w-40">Total time (minutes)</span>
+        <input
+          type="number"
+          min={1}
+          value={total}
+          onChange={(e) => setTotal(e.target.value)}
+          className="w-24 rounded bg-[#383942] px-2 py-1"
+        />
+      </label>
+
+      <p className="mb-2 text-sm text-gray-400">
+        Section limits (optional). With any set, sections are taken one at a
+        time in this order and cannot be revisited.
+      </p>
+      <div className="mb-6 space-y-2">
+        {sections.map((section) => (
+          <label key={section} className="flex items-center gap-3 text-sm">
+            <span className="w-40">{SECTION_LABELS[section]}</span>
+            <input
+              type="number"
+              min={0}
+              value={sectionMinutes[section] || ""}
+              onChange={(e) =>
+                setSectionMinutes({
+                  ...sectionMinutes,
+                  [section]: e.target.value,
+                })
+              }
+              placeholder="No limit"
+              className="w-24 rounded bg-[#383942] px-2 py-1"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={start}
+          disabled={toMinutes(total) <= 0}
+          className="rounded-lg bg-blue-600 px-6 py-2 font-semibold hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Start exam
+        </button>
+        <button
+          onClick={onCancel}
+          className="rounded-lg bg-gray-700 px-6 py-2 hover:bg-gray-600"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExamSetup;
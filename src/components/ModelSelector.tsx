@@ -1,22 +1,6 @@
 import React, { useState } from 'react';
 import { FiChevronDown, FiCheck, FiCpu } from 'react-icons/fi';
-
-interface AIModel {
-  value: string;
-  label: string;
-  provider: 'openai' | 'claude' | 'gemini' | 'deepseek';
-}
-
-const AI_MODELS: AIModel[] = [
-  { value: 'openai/gpt-4', label: 'GPT-4', provider: 'openai' },
-  { value: 'openai/gpt-3.5-turbo', label: 'GPT-3.5 Turbo', provider: 'openai' },
-  { value: 'anthropic/claude-3-opus', label: 'Claude 3 Opus', provider: 'claude' },
-  { value: 'anthropic/claude-3-sonnet', label: 'Claude 3 Sonnet', provider: 'claude' },
-  { value: 'google/gemini-pro', label: 'Gemini Pro', provider: 'gemini' },
-  { value: 'google/gemini-ultra', label: 'Gemini Ultra', provider: 'gemini' },
-  { value: 'deepseek/deepseek-chat', label: 'DeepSeek Chat', provider: 'deepseek' },
-  { value: 'deepseek/deepseek-coder', label: 'DeepSeek Coder', provider: 'deepseek' },
-];
+import { AI_MODELS } from '../config/api';
 
 const getProviderIcon = (provider: string) => {
   const iconProps = { size: 16 };
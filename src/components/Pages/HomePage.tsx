@@ -16,8 +16,18 @@ import { useEnhancedEduQuest } from "../../hooks/useEnhancedEduQuest";
 import ReactJson from "react-json-view";
 import toast from "react-hot-toast";
 import SessionSidebar from "../SessionSidebar";
+import QuizBuilder from "../QuizBuilder";
 import useSessionStore from "../../store/useSessionStore";
-import { FiSidebar, FiPlay, FiCheckCircle } from "react-icons/fi";
+import {
+  DIFFICULTY_LEVELS,
+  QUESTION_CONFIG,
+  SESSION_QUESTION_TYPES,
+  getTotalQuestions,
+} from "~/config/api";
+import type { Difficulty, QuestionConfig, QuestionType } from "~/config/api";
+import type { BankQuestion } from "~/utils/questionBank";
+import type { DuplicateMatch } from "~/utils/similarity";
+import { FiSidebar, FiPlay, FiCheckCircle, FiLayers } from "react-icons/fi";
 import { useRouter } from "next/router";
 
 // Import the new components
@@ -66,6 +76,13 @@ const HomePage: React.FC = () => {
             <BiGhost />
             <span>Arcade</span>
           </button>
+          <button
+            onClick={() => setActiveTab("Quiz Builder")}
+            className={`${activeTab === "Quiz Builder" ? "bg-[#383942] text-white" : "text-[#9A9A9C]"} mx-auto flex w-full items-center justify-start space-x-2 rounded-md px-4 py-2 hover:bg-[#383942] hover:text-white`}
+          >
+            <FiLayers />
+            <span>Quiz Builder</span>
+          </button>
           <button
             onClick={() => setActiveTab("Achievements")}
             className={`${activeTab === "Achievements" ? "bg-[#383942] text-white" : "text-[#9A9A9C]"} mx-auto flex w-full items-center justify-start space-x-2 rounded-md px-4 py-2 hover:bg-[#383942] hover:text-white`}
@@ -130,6 +147,7 @@ const HomePage: React.FC = () => {
         />
       )}
       {activeTab === "Arcade" && <Arcade />}
+      {activeTab === "Quiz Builder" && <QuizBuilder />}
       {activeTab === "Achievements" && <Achievements />}
 
       {/* Dialogs */}
@@ -164,18 +182,42 @@ function HomeContent({
   const { jsonData, setJsonData } = useJsonDataStore();
   const [prompt, setPrompt] = useState("");
   const [files, setFiles] = useState<any[]>([]);
-  const [questionConfig, setQuestionConfig] = useState({
-    mcqs: 5,
-    fillInBlanks: 5,
-    trueFalse: 5,
-    shortType: 3,
-    longType: 2,
+  const [questionConfig, setQuestionConfig] = useState<QuestionConfig>({
+    ...QUESTION_CONFIG.DEFAULT,
   });
   const [sessionId, setSessionId] = useState<string | null>(null);
 
-  const { generateWithContext, loading, error, clearError } =
+  const [progressMessage, setProgressMessage] = useState<string | null>(null);
+
+  const { generateWithContextStream, loading, error, clearError } =
     useEnhancedEduQuest();
 
+  // Report near-duplicates dropped by the server or the session store, and repeats of earlier sessions
+  const reportDuplicates = (
+    sessionId: string,
+    serverDuplicates: DuplicateMatch[] = [],
+  ) => {
+    const session = useSessionStore.getState().getSessionById(sessionId);
+    const removed =
+      serverDuplicates.length + (session?.duplicatesRemoved?.length || 0);
+    const flagged =
+      session?.questions.filter((question) => question.duplicateOf).length ||
+      0;
+
+    if (removed > 0) {
+      toast(
+        `Removed ${removed} near-duplicate question${removed === 1 ? "" : "s"}`,
+        { duration: 5000 },
+      );
+    }
+    if (flagged > 0) {
+      toast(
+        `${flagged} question${flagged === 1 ? " is" : "s are"} similar to ones in earlier sessions`,
+        { duration: 5000 },
+      );
+    }
+  };
+
   const handleGenerate = async (
     value: string,
     model: string,
@@ -194,7 +236,70 @@ function HomeContent({
       model: model,
     });
 
-    const result = await generateWithContext(files, value, questionConfig);
+    const sessionName = `Quiz on ${value.slice(0, 30)}...` || "Generated Quiz";
+    const sessionTopic = value || "Generated Questions";
+    // Set once the first question arrives; later questions are appended to it
+    let streamingSessionId: string | null = null;
+
+    const result = await generateWithContextStream(
+      files,
+      value,
+      questionConfig,
+      model,
+      {
+        onProgress: (progress) => {
+          setProgressMessage(
+            progress.total
+              ? `${progress.message} (${progress.current}/${progress.total})`
+              : progress.message,
+          );
+        },
+        onQuestion: ({ type, question }) => {
+          const { createSession, appendQuestions, setSessionGenerating } =
+            useSessionStore.getState();
+
+          if (streamingSessionId) {
+            appendQuestions(streamingSessionId, { [type]: [question] });
+            return;
+          }
+
+          // Start the session on the first question so the user can begin answering
+          streamingSessionId = createSession(
+            sessionName,
+            sessionTopic,
+            { [type]: [question] },
+            questionConfig,
+            model,
+          );
+          setSessionGenerating(streamingSessionId, true);
+          setSessionId(streamingSessionId);
+          console.log("Streaming session created with ID:", streamingSessionId);
+
+          toast.success("First questions ready! More are on the way...");
+          router.push(`/interactive/${streamingSessionId}`);
+        },
+      },
+    );
+
+    setProgressMessage(null);
+
+    result?.skippedFiles?.forEach((file) => {
+      toast.error(`Skipped ${file.filename}: ${file.reason}`, { duration: 6000 });
+    });
+
+    if (streamingSessionId) {
+      useSessionStore.getState().setSessionGenerating(streamingSessionId, false);
+      reportDuplicates(streamingSessionId, result?.duplicates);
+
+      if (result) {
+        setJsonData(result.questions);
+      } else {
+        toast.error(
+          "Question generation stopped early. You can still answer the questions that arrived.",
+        );
+      }
+      return;
+    }
 
     if (result) {
       setJsonData(result.questions);
@@ -202,10 +307,11 @@ function HomeContent({
       // Create session with the generated questions
       const { createSession } = useSessionStore.getState();
       const sessionId = createSession(
-        `Quiz on ${value.slice(0, 30)}...` || "Generated Quiz",
-        value || "Generated Questions",
+        sessionName,
+        sessionTopic,
         result.questions,
         questionConfig,
+        model,
       );
 
       setSessionId(sessionId);
@@ -226,6 +332,7 @@ function HomeContent({
 
       if (createdSession) {
         toast.success("Questions generated successfully! Redirecting...");
+        reportDuplicates(sessionId, result.duplicates);
 
         // Use Next.js router for navigation with immediate redirect
         setTimeout(() => {
@@ -245,10 +352,7 @@ function HomeContent({
   };
 
   const canGenerate = files.length > 0 || prompt.trim().length > 0;
-  const totalQuestions = Object.values(questionConfig).reduce(
-    (sum, count) => sum + count,
-    0,
-  );
+  const totalQuestions = getTotalQuestions(questionConfig);
 
   return (
     <div className="relative m-3 mb-0 h-[100vh] w-[78%] overflow-scroll rounded-[10px] bg-[#202329]">
@@ -345,7 +449,7 @@ function HomeContent({
           />
         </div>
       </div>
-      <HomeSpinner isLoading={loading} />
+      <HomeSpinner isLoading={loading} message={progressMessage} />
     </div>
   );
 }
@@ -416,15 +520,32 @@ function Achievements() {
   );
 }
 
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  mcq: "Multiple choice",
+  fill: "Fill in the blank",
+  true_false: "True/False",
+  short: "Short answer",
+  long: "Long answer",
+};
+
 function Arcade() {
-  const [randomQuestion, setRandomQuestion] = useState<string | null>(null);
-  const { getRandomQuestion } = useEnhancedEduQuest();
+  const [randomQuestion, setRandomQuestion] = useState<BankQuestion | null>(
+    null,
+  );
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [type, setType] = useState<QuestionType | "">("");
+  const [difficulty, setDifficulty] = useState<Difficulty | "">("");
+  const [tag, setTag] = useState("");
+  const { getRandomQuestion, error } = useEnhancedEduQuest();
 
   const fetchRandomQuestion = async () => {
-    const question = await getRandomQuestion();
-    if (question) {
-      setRandomQuestion(question);
-    }
+    const question = await getRandomQuestion({
+      type: type ? [type] : [],
+      difficulty: difficulty ? [difficulty] : [],
+      tag: tag.trim() ? [tag.trim()] : [],
+    });
+    setRandomQuestion(question);
+    setShowAnswer(false);
   };
 
   return (
@@ -439,22 +560,93 @@ function Arcade() {
           src={"/RandomGame.svg"}
         />
         <div>
-          <h1 className="ml-5 text-xl font-bold">
-            Random Question (Coming Soon)
-          </h1>
+          <h1 className="ml-5 text-xl font-bold">Random Question</h1>
           <p className="ml-5 text-sm text-gray-400">
-            Random questions on basis of your study and recent sessions
+            Random questions from your question bank, drawn from every session
+            you have generated
           </p>
+          <div className="ml-5 mt-4 flex flex-wrap gap-2 text-sm">
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as QuestionType | "")}
+              className="rounded bg-[#383942] px-2 py-1"
+            >
+              <option value="">Any type</option>
+              {SESSION_QUESTION_TYPES.map((value) => (
+                <option key={value} value={value}>
+                  {QUESTION_TYPE_LABELS[value]}
+                </option>
+              ))}
+            </select>
+            <select
+              value={difficulty}
+              onChange={(e) => setDifficulty(e.target.value as Difficulty | "")}
+              className="rounded bg-[#383942] px-2 py-1"
+            >
+              <option value="">Any difficulty</option>
+              {DIFFICULTY_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {level.charAt(0).toUpperCase() + level.slice(1)}
+                </option>
+              ))}
+            </select>
+            <input
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              placeholder="Tag"
+              className="w-32 rounded bg-[#383942] px-2 py-1"
+            />
+          </div>
         </div>
       </div>
 
+      {error && (
+        <p className="mt-4 text-sm text-red-400">{error.message}</p>
+      )}
+
       {randomQuestion && (
         <div className="mt-6 rounded-lg bg-[#202329] p-6">
           <div className="mb-4 flex items-center justify-start gap-3 text-2xl">
             <LuDice6 />
             <h3 className="font-bold">Question</h3>
           </div>
-          <p className="text-lg">{randomQuestion}</p>
+          <p className="mb-2 text-xs text-gray-400">
+            {[
+              QUESTION_TYPE_LABELS[randomQuestion.type],
+              randomQuestion.difficulty,
+              randomQuestion.topic,
+              ...randomQuestion.tags,
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+          <p className="text-lg">{randomQuestion.question}</p>
+          {randomQuestion.options && (
+            <ul className="mt-3 list-inside list-disc text-gray-300">
+              {randomQuestion.options.map((option) => (
+                <li key={option}>{option}</li>
+              ))}
+            </ul>
+          )}
+          <button
+            onClick={() => setShowAnswer(!showAnswer)}
+            className="mt-4 rounded-md bg-[#383942] px-3 py-1 text-sm hover:bg-[#4a4b55]"
+          >
+            {showAnswer ? "Hide answer" : "Show answer"}
+          </button>
+          {showAnswer && (
+            <div className="mt-3 text-sm text-gray-300">
+              <p>
+                <span className="font-bold">Answer:</span>{" "}
+                {randomQuestion.answer}
+              </p>
+              {randomQuestion.explanation && (
+                <p className="mt-1 text-gray-400">
+                  {randomQuestion.explanation}
+                </p>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -1,12 +1,13 @@
 import React, { useState } from 'react';
-
-interface QuestionConfig {
-  mcqs: number;
-  fillInBlanks: number;
-  trueFalse: number;
-  shortType: number;
-  longType: number;
-}
+import {
+  BLOOM_LEVELS,
+  DIFFICULTY_LEVELS,
+  GRADE_LEVELS,
+  LANGUAGES,
+  QUESTION_CONFIG,
+  getTotalQuestions,
+} from '../config/api';
+import type { BloomLevel, QuestionConfig, QuestionCountKey } from '../config/api';
 
 interface QuestionConfigProps {
   onConfigChange: (config: QuestionConfig) => void;
@@ -14,13 +15,9 @@ interface QuestionConfigProps {
   disabled?: boolean;
 }
 
-const defaultConfig: QuestionConfig = {
-  mcqs: 5,
-  fillInBlanks: 5,
-  trueFalse: 5,
-  shortType: 3,
-  longType: 2,
-};
+const defaultConfig: QuestionConfig = { ...QUESTION_CONFIG.DEFAULT };
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
 
 export const QuestionConfigComponent: React.FC<QuestionConfigProps> = ({
   onConfigChange,
@@ -32,19 +29,32 @@ export const QuestionConfigComponent: React.FC<QuestionConfigProps> = ({
     ...initialConfig,
   });
 
-  const handleChange = (field: keyof QuestionConfig, value: number) => {
-    const newConfig = { ...config, [field]: Math.max(0, value) };
+  const updateConfig = (changes: Partial<QuestionConfig>) => {
+    const newConfig = { ...config, ...changes };
     setConfig(newConfig);
     onConfigChange(newConfig);
   };
 
+  const handleChange = (field: QuestionCountKey, value: number) => {
+    updateConfig({ [field]: Math.max(0, value) });
+  };
+
+  const toggleBloomLevel = (level: BloomLevel) => {
+    const selected = config.bloomLevels || [];
+    updateConfig({
+      bloomLevels: selected.includes(level)
+        ? selected.filter((l) => l !== level)
+        : BLOOM_LEVELS.filter((l) => l === level || selected.includes(l)),
+    });
+  };
+
   const InputField = ({ 
     label, 
     field, 
     max 
   }: { 
     label: string; 
-    field: keyof QuestionConfig; 
+    field: QuestionCountKey; 
     max: number;
   }) => (
     <div className="flex flex-col space-y-2">
@@ -81,7 +91,7 @@ export const QuestionConfigComponent: React.FC<QuestionConfigProps> = ({
     </div>
   );
 
-  const totalQuestions = Object.values(config).reduce((sum, count) => sum + count, 0);
+  const totalQuestions = getTotalQuestions(config);
 
   return (
     <div className="p-6 rounded-lg border border-gray-600 bg-gray-800/30">
@@ -117,6 +127,96 @@ export const QuestionConfigComponent: React.FC<QuestionConfigProps> = ({
         />
       </div>
 
+      <div className="space-y-4 mb-4 pt-4 border-t border-gray-600">
+        <div className="flex flex-col space-y-2">
+          <label className="text-sm font-medium text-gray-300">
+            📈 Difficulty
+          </label>
+          <div className="flex gap-2">
+            {DIFFICULTY_LEVELS.map((level) => (
+              <button
+                key={level}
+                type="button"
+                onClick={() => updateConfig({ difficulty: level })}
+                disabled={disabled}
+                className={`flex-1 px-3 py-1 text-sm rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  config.difficulty === level
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {capitalize(level)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col space-y-2">
+          <label className="text-sm font-medium text-gray-300">
+            🧠 Bloom&apos;s Levels
+            <span className="ml-2 text-xs text-gray-500">
+              {config.bloomLevels?.length ? '' : 'Any level'}
+            </span>
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {BLOOM_LEVELS.map((level) => (
+              <button
+                key={level}
+                type="button"
+                onClick={() => toggleBloomLevel(level)}
+                disabled={disabled}
+                className={`px-3 py-1 text-xs rounded-full border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  config.bloomLevels?.includes(level)
+                    ? 'bg-blue-600/30 border-blue-500 text-blue-200'
+                    : 'bg-gray-800 border-gray-600 text-gray-400 hover:border-gray-500'
+                }`}
+              >
+                {capitalize(level)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="flex flex-col space-y-2">
+            <label className="text-sm font-medium text-gray-300">
+              🌐 Language
+            </label>
+            <select
+              value={config.language || QUESTION_CONFIG.DEFAULT.language}
+              onChange={(e) => updateConfig({ language: e.target.value })}
+              disabled={disabled}
+              className="px-2 py-1 bg-gray-800 border border-gray-600 text-gray-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-700"
+            >
+              {LANGUAGES.map((language) => (
+                <option key={language} value={language}>
+                  {language}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex flex-col space-y-2">
+            <label className="text-sm font-medium text-gray-300">
+              🎓 Grade Level
+            </label>
+            <select
+              value={config.gradeLevel || ''}
+              onChange={(e) => updateConfig({ gradeLevel: e.target.value || undefined })}
+              disabled={disabled}
+              className="px-2 py-1 bg-gray-800 border border-gray-600 text-gray-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-700"
+            >
+              <option value="">Any audience</option>
+              {GRADE_LEVELS.map((grade) => (
+                <option key={grade} value={grade}>
+                  {grade}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
       <div className="flex items-center justify-between pt-4 border-t border-gray-600">
         <div className="text-sm text-gray-400">
           Total Questions: <span className="font-medium text-gray-200">{totalQuestions}</span>
@@ -0,0 +1,396 @@
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import toast from "react-hot-toast";
+import { FiCheck, FiLayers, FiPlus, FiSearch, FiTrash2 } from "react-icons/fi";
+import { DIFFICULTY_LEVELS, SESSION_QUESTION_TYPES } from "../config/api";
+import type { Difficulty, QuestionType } from "../config/api";
+import { useEnhancedEduQuest } from "../hooks/useEnhancedEduQuest";
+import type { QuizRule } from "../hooks/useEnhancedEduQuest";
+import useSessionStore from "../store/useSessionStore";
+import QuizImport from "./QuizImport";
+import type { BankQuestion } from "../utils/questionBank";
+import {
+  configForQuestions,
+  toQuestionSet,
+  topicForQuestions,
+} from "../utils/quizAssembly";
+
+const TYPE_LABELS: Record<QuestionType, string> = {
+  mcq: "Multiple choice",
+  fill: "Fill in the blank",
+  true_false: "True/False",
+  short: "Short answer",
+  long: "Long answer",
+};
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+interface RuleRow {
+  count: number;
+  type: QuestionType | "";
+  difficulty: Difficulty | "";
+  tag: string;
+}
+
+const emptyRule = (): RuleRow => ({
+  count: 5,
+  type: "",
+  difficulty: "",
+  tag: "",
+});
+
+const toQuizRule = (row: RuleRow): QuizRule => ({
+  count: row.count,
+  type: row.type ? [row.type] : [],
+  difficulty: row.difficulty ? [row.difficulty] : [],
+  tag: row.tag
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean),
+});
+
+const selectClass = "rounded bg-[#383942] px-2 py-1 text-sm";
+
+/**
+ * Build a quiz from saved questions instead of generating one: pick questions by hand from a
+ * search of the question bank, describe the quiz as rules, or import a file. No model is called,
+ * so no credit is spent.
+ */
+const QuizBuilder: React.FC = () => {
+  const router = useRouter();
+  const { searchQuestionBank, assembleQuiz, loading, error } =
+    useEnhancedEduQuest();
+
+  const [mode, setMode] = useState<"pick" | "rules" | "import">("pick");
+  const [name, setName] = useState("");
+
+  const [search, setSearch] = useState("");
+  const [type, setType] = useState<QuestionType | "">("");
+  const [difficulty, setDifficulty] = useState<Difficulty | "">("");
+  const [tag, setTag] = useState("");
+  const [results, setResults] = useState<BankQuestion[]>([]);
+  const [total, setTotal] = useState(0);
+  const [selected, setSelected] = useState<BankQuestion[]>([]);
+
+  const [rules, setRules] = useState<RuleRow[]>([emptyRule()]);
+
+  const runSearch = async () => {
+    const found = await searchQuestionBank({
+      q: search.trim() || undefined,
+      type: type ? [type] : [],
+      difficulty: difficulty ? [difficulty] : [],
+      tag: tag.trim() ? [tag.trim()] : [],
+      limit: 100,
+    });
+    if (found) {
+      setResults(found.questions);
+      setTotal(found.total);
+    }
+  };
+
+  // Show the newest questions on open; later searches run from the search form
+  useEffect(() => {
+    runSearch();
+  }, []);
+
+  const isSelected = (question: BankQuestion) =>
+    selected.some(({ id }) => id === question.id);
+
+  const toggleSelected = (question: BankQuestion) => {
+    setSelected(
+      isSelected(question)
+        ? selected.filter(({ id }) => id !== question.id)
+        : [...selected, question],
+    );
+  };
+
+  const updateRule = (index: number, changes: Partial<RuleRow>) => {
+    setRules(
+      rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    );
+  };
+
+  const createQuiz = (questions: BankQuestion[]) => {
+    const topic = topicForQuestions(questions);
+    const sessionId = useSessionStore
+      .getState()
+      .createSession(
+        name.trim() || `Quiz on ${topic}`,
+        topic,
+        toQuestionSet(questions),
+        configForQuestions(questions),
+      );
+
+    toast.success(`Quiz created with ${questions.length} questions`);
+    router.push(`/interactive/${sessionId}`);
+  };
+
+  const createFromRules = async () => {
+    const assembled = await assembleQuiz(rules.map(toQuizRule));
+    if (!assembled) return;
+
+    if (assembled.questions.length === 0) {
+      toast.error("No questions in your bank match these rules");
+      return;
+    }
+
+    assembled.shortfall.forEach(({ rule, requested, found }) => {
+      toast(`Rule ${rule + 1}: only ${found} of ${requested} questions found`, {
+        icon: "⚠️",
+        duration: 6000,
+      });
+    });
+    createQuiz(assembled.questions);
+  };
+
+  return (
+    <div className="h-[100vh] w-[78%] overflow-y-auto pr-5">
+      <div className="mt-5 rounded-[10px] bg-[#202329] p-5">
+        <div className="mb-4 flex items-center gap-3">
+          <FiLayers size={24} />
+          <div>
+            <h1 className="text-xl font-bold">Quiz Builder</h1>
+            <p className="text-sm text-gray-400">
+              Build a quiz from questions you have already generated, or
+              import one from a file. No credits are used.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Quiz name (optional)"
+            className="flex-1 rounded bg-[#383942] px-3 py-2 text-sm"
+          />
+          {[
+            { key: "pick", label: "Pick questions" },
+            { key: "rules", label: "By rule" },
+            { key: "import", label: "Import file" },
+          ].map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => setMode(key as "pick" | "rules" | "import")}
+              className={`rounded-full px-3 py-1 text-sm ${
+                mode === key
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-700 text-gray-300 hover:bg-gray-600"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {error && <p className="mt-3 text-sm text-red-400">{error.message}</p>}
+      </div>
+
+      {mode === "pick" && (
+        <div className="mt-4 rounded-[10px] bg-[#202329] p-5">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              runSearch();
+            }}
+            className="flex flex-wrap gap-2"
+          >
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search questions, answers, topics and tags"
+              className="flex-1 rounded bg-[#383942] px-3 py-1 text-sm"
+            />
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as QuestionType | "")}
+              className={selectClass}
+            >
+              <option value="">Any type</option>
+              {SESSION_QUESTION_TYPES.map((value) => (
+                <option key={value} value={value}>
+                  {TYPE_LABELS[value]}
+                </option>
+              ))}
+            </select>
+            <select
+              value={difficulty}
+              onChange={(e) => setDifficulty(e.target.value as Difficulty | "")}
+              className={selectClass}
+            >
+              <option value="">Any difficulty</option>
+              {DIFFICULTY_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {capitalize(level)}
+                </option>
+              ))}
+            </select>
+            <input
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              placeholder="Tag"
+              className="w-32 rounded bg-[#383942] px-2 py-1 text-sm"
+            />
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex items-center gap-1 rounded bg-[#383942] px-3 py-1 text-sm hover:bg-[#4a4b55] disabled:opacity-50"
+            >
+              <FiSearch size={14} />
+              Search
+            </button>
+          </form>
+
+          <p className="mt-3 text-xs text-gray-400">
+            {total > results.length
+              ? `Showing ${results.length} of ${total} questions`
+              : `${total} questions`}
+          </p>
+
+          <div className="mt-2 max-h-[55vh] space-y-2 overflow-y-auto">
+            {results.map((question) => (
+              <button
+                key={question.id}
+                onClick={() => toggleSelected(question)}
+                className={`flex w-full items-start gap-3 rounded-lg border p-3 text-left text-sm ${
+                  isSelected(question)
+                    ? "border-blue-600 bg-blue-900/40"
+                    : "border-gray-700 bg-gray-800 hover:bg-gray-700"
+                }`}
+              >
+                <span className="mt-0.5 flex h-4 w-4 shrink-0 items-center justify-center rounded border border-gray-500">
+                  {isSelected(question) && <FiCheck size={12} />}
+                </span>
+                <span className="min-w-0 flex-1">
+                  <span className="block">{question.question}</span>
+                  <span className="mt-1 block text-xs text-gray-400">
+                    {[
+                      TYPE_LABELS[question.type],
+                      question.difficulty,
+                      question.topic,
+                      ...question.tags,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </span>
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-4 flex items-center justify-between">
+            <span className="text-sm text-gray-400">
+              {selected.length} selected
+            </span>
+            <button
+              onClick={() => createQuiz(selected)}
+              disabled={selected.length === 0}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Create quiz
+            </button>
+          </div>
+        </div>
+      )}
+
+      {mode === "rules" && (
+        <div className="mt-4 rounded-[10px] bg-[#202329] p-5">
+          <p className="mb-3 text-sm text-gray-400">
+            Each rule picks random questions from your bank. Rules apply in
+            order and never pick the same question twice.
+          </p>
+
+          <div className="space-y-2">
+            {rules.map((rule, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={rule.count}
+                  onChange={(e) =>
+                    updateRule(index, {
+                      count: Math.min(
+                        50,
+                        Math.max(1, parseInt(e.target.value) || 1),
+                      ),
+                    })
+                  }
+                  className="w-16 rounded bg-[#383942] px-2 py-1 text-sm"
+                />
+                <select
+                  value={rule.type}
+                  onChange={(e) =>
+                    updateRule(index, {
+                      type: e.target.value as QuestionType | "",
+                    })
+                  }
+                  className={selectClass}
+                >
+                  <option value="">Any type</option>
+                  {SESSION_QUESTION_TYPES.map((value) => (
+                    <option key={value} value={value}>
+                      {TYPE_LABELS[value]}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={rule.difficulty}
+                  onChange={(e) =>
+                    updateRule(index, {
+                      difficulty: e.target.value as Difficulty | "",
+                    })
+                  }
+                  className={selectClass}
+                >
+                  <option value="">Any difficulty</option>
+                  {DIFFICULTY_LEVELS.map((level) => (
+                    <option key={level} value={level}>
+                      {capitalize(level)}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  value={rule.tag}
+                  onChange={(e) => updateRule(index, { tag: e.target.value })}
+                  placeholder="Tags, comma-separated"
+                  className="flex-1 rounded bg-[#383942] px-2 py-1 text-sm"
+                />
+                <button
+                  onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                  disabled={rules.length === 1}
+                  className="text-gray-400 hover:text-red-400 disabled:opacity-30"
+                >
+                  <FiTrash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-4 flex items-center justify-between">
+            <button
+              onClick={() => setRules([...rules, emptyRule()])}
+              disabled={rules.length >= 20}
+              className="flex items-center gap-1 text-sm text-gray-300 hover:text-white disabled:opacity-50"
+            >
+              <FiPlus size={14} />
+              Add rule
+            </button>
+            <button
+              onClick={createFromRules}
+              disabled={loading}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {loading ? "Building..." : "Build quiz"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {mode === "import" && <QuizImport name={name} />}
+    </div>
+  );
+};
+
+export default QuizBuilder;
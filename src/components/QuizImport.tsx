@@ -0,0 +1,260 @@
+import React, { useMemo, useState } from "react";
+import { useRouter } from "next/router";
+import toast from "react-hot-toast";
+import { FiUpload } from "react-icons/fi";
+import { SESSION_QUESTION_TYPES } from "../config/api";
+import type { QuestionType } from "../config/api";
+import useSessionStore from "../store/useSessionStore";
+import {
+  CSV_FIELDS,
+  IMPORT_FORMATS,
+  detectImportFormat,
+  guessCsvMapping,
+  importQuestions,
+  readCsv,
+} from "../utils/quizImport";
+import type { CsvField, CsvMapping, ImportFormat } from "../utils/quizImport";
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  gift: "GIFT",
+  moodle: "Moodle XML",
+  csv: "CSV",
+  json: "JSON question set",
+};
+
+const FIELD_LABELS: Record<CsvField, string> = {
+  type: "Type",
+  question: "Question",
+  options: "Options",
+  answer: "Answer",
+  acceptedAnswers: "Accepted answers",
+  explanation: "Explanation",
+  points: "Points",
+  difficulty: "Difficulty",
+};
+
+const TYPE_LABELS: Record<QuestionType, string> = {
+  mcq: "Multiple choice",
+  fill: "Fill in the blank",
+  true_false: "True/False",
+  short: "Short answer",
+  long: "Long answer",
+};
+
+const selectClass = "rounded bg-[#383942] px-2 py-1 text-sm";
+
+interface QuizImportProps {
+  name: string;
+}
+
+/**
+ * Create a session from a GIFT, Moodle XML, CSV or JSON file. The file is parsed in the browser
+ * and previewed with the questions that could not be read, so no model is called and no credit
+ * is spent.
+ */
+const QuizImport: React.FC<QuizImportProps> = ({ name }) => {
+  const router = useRouter();
+
+  const [filename, setFilename] = useState("");
+  const [text, setText] = useState("");
+  const [format, setFormat] = useState<ImportFormat>("gift");
+  const [topic, setTopic] = useState("");
+  const [mapping, setMapping] = useState<CsvMapping>({});
+  const [defaultType, setDefaultType] = useState<QuestionType>("short");
+
+  const headers = useMemo(
+    () => (format === "csv" && text ? readCsv(text)[0] ?? [] : []),
+    [format, text],
+  );
+
+  const result = useMemo(() => {
+    if (!text) return null;
+    try {
+      return importQuestions(format, text, { mapping, defaultType });
+    } catch (err) {
+      return {
+        count: 0,
+        errors: [
+          {
+            location: "File",
+            message: err instanceof Error ? err.message : "Could not read file",
+          },
+        ],
+      };
+    }
+  }, [format, text, mapping, defaultType]);
+
+  const handleFile = async (file: File) => {
+    const content = await file.text();
+    const detected = detectImportFormat(file.name, content);
+    setFilename(file.name);
+    setText(content);
+    setFormat(detected);
+    setTopic(file.name.replace(/\.[^.]+$/, ""));
+    setMapping(
+      detected === "csv" ? guessCsvMapping(readCsv(content)[0] ?? []) : {},
+    );
+  };
+
+  const changeFormat = (value: ImportFormat) => {
+    setFormat(value);
+    if (value === "csv") setMapping(guessCsvMapping(readCsv(text)[0] ?? []));
+  };
+
+  const createQuiz = () => {
+    if (!result || !("questions" in result) || result.count === 0) return;
+
+    const sessionTopic = topic.trim() || "Imported quiz";
+    const sessionId = useSessionStore
+      .getState()
+      .createSession(
+        name.trim() || `Quiz on ${sessionTopic}`,
+        sessionTopic,
+        result.questions,
+        result.config,
+      );
+
+    // The store drops near-duplicates, so report what the session actually holds
+    const session = useSessionStore.getState().getSessionById(sessionId);
+    const kept = session?.questions.length ?? result.count;
+    const removed = session?.duplicatesRemoved?.length || 0;
+    toast.success(`Quiz imported with ${kept} question${kept === 1 ? "" : "s"}`);
+    if (removed > 0) {
+      toast(
+        `Removed ${removed} near-duplicate question${removed === 1 ? "" : "s"} from the file`,
+        { duration: 5000 },
+      );
+    }
+    router.push(`/interactive/${sessionId}`);
+  };
+
+  return (
+    <div className="mt-4 rounded-[10px] bg-[#202329] p-5">
+      <p className="mb-3 text-sm text-gray-400">
+        Import questions from a GIFT, Moodle XML, CSV or JSON file. Questions
+        that cannot be read are listed and left out.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex cursor-pointer items-center gap-1 rounded bg-[#383942] px-3 py-1 text-sm hover:bg-[#4a4b55]">
+          <FiUpload size={14} />
+          {filename || "Choose file"}
+          <input
+            type="file"
+            accept=".gift,.txt,.xml,.csv,.tsv,.json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = "";
+            }}
+            className="hidden"
+          />
+        </label>
+        <select
+          value={format}
+          onChange={(e) => changeFormat(e.target.value as ImportFormat)}
+          disabled={!text}
+          className={selectClass}
+        >
+          {IMPORT_FORMATS.map((value) => (
+            <option key={value} value={value}>
+              {FORMAT_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <input
+          value={topic}
+          onChange={(e) => setTopic(e.target.value)}
+          placeholder="Topic"
+          className="flex-1 rounded bg-[#383942] px-3 py-1 text-sm"
+        />
+      </div>
+
+      {format === "csv" && headers.length > 0 && (
+        <div className="mt-4">
+          <p className="mb-2 text-xs text-gray-400">
+            Match the columns of the file to question fields. Options can
+            span several columns, one option each.
+          </p>
+          <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+            {CSV_FIELDS.map((field) => (
+              <label key={field} className="text-xs text-gray-400">
+                {FIELD_LABELS[field]}
+                <select
+                  multiple={field === "options"}
+                  value={
+                    field === "options"
+                      ? (mapping.options ?? []).map(String)
+                      : String(mapping[field]?.[0] ?? "")
+                  }
+                  onChange={(e) => {
+                    const columns = Array.from(e.target.selectedOptions)
+                      .map((option) => option.value)
+                      .filter(Boolean)
+                      .map(Number);
+                    setMapping({ ...mapping, [field]: columns });
+                  }}
+                  className={`mt-1 block w-full ${selectClass}`}
+                >
+                  {field !== "options" && <option value="">Not mapped</option>}
+                  {headers.map((header, column) => (
+                    <option key={column} value={column}>
+                      {header || `Column ${column + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            <label className="text-xs text-gray-400">
+              Type when not given
+              <select
+                value={defaultType}
+                onChange={(e) => setDefaultType(e.target.value as QuestionType)}
+                className={`mt-1 block w-full ${selectClass}`}
+              >
+                {SESSION_QUESTION_TYPES.map((value) => (
+                  <option key={value} value={value}>
+                    {TYPE_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-4">
+          <p className="text-sm">
+            {result.count} question{result.count === 1 ? "" : "s"} ready to
+            import
+            {result.errors.length > 0 &&
+              `, ${result.errors.length} could not be read`}
+          </p>
+          {result.errors.length > 0 && (
+            <ul className="mt-2 max-h-[30vh] space-y-1 overflow-y-auto rounded bg-gray-800 p-3 text-xs text-red-300">
+              {result.errors.map((error, index) => (
+                <li key={index}>
+                  <span className="text-gray-400">{error.location}:</span>{" "}
+                  {error.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="mt-4 flex justify-end">
+        <button
+          onClick={createQuiz}
+          disabled={!result || result.count === 0}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Create quiz
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QuizImport;
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import useSessionStore, { QuizSession } from "../store/useSessionStore";
 import {
   FiClock,
@@ -12,9 +12,36 @@ import {
   FiPlus,
   FiFilter,
   FiSidebar,
+  FiLayers,
+  FiRepeat,
+  FiDownload,
+  FiPrinter,
+  FiShare2,
 } from "react-icons/fi";
 import { format } from "date-fns";
-import { Sheet, SheetContent, SheetTrigger } from "./ui/sheet";
+import toast from "react-hot-toast";
+import { Sheet, SheetClose, SheetContent, SheetTrigger } from "./ui/sheet";
+import { useActiveTabStore } from "~/store/useActivetabStore";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { useEnhancedEduQuest } from "../hooks/useEnhancedEduQuest";
+import type { ExportFormat } from "../utils/quizExport";
+import ShareDialog from "./ShareDialog";
+import WorksheetDialog from "./WorksheetDialog";
+import {
+  buildReviewSchedule,
+  getDueReviews,
+} from "../utils/spacedRepetition";
+
+const EXPORT_OPTIONS: Array<{ format: ExportFormat; label: string }> = [
+  { format: "moodle", label: "Moodle XML" },
+  { format: "gift", label: "GIFT" },
+  { format: "qti", label: "IMS QTI 2.1 (zip)" },
+];
 
 interface SessionSidebarProps {
   onClose: () => void;
@@ -35,7 +62,42 @@ const SessionSidebar: React.FC<SessionSidebarProps> = ({
     getRecentSessions,
     getCompletedSessions,
     getIncompleteSessions,
+    createReviewSession,
   } = useSessionStore();
+  const { setActiveTab } = useActiveTabStore();
+  const { exportQuiz } = useEnhancedEduQuest();
+  const [worksheetSession, setWorksheetSession] =
+    useState<QuizSession | null>(null);
+  const [shareSession, setShareSession] = useState<QuizSession | null>(null);
+
+  const handleExport = async (session: QuizSession, exportFormat: ExportFormat) => {
+    const exported = await exportQuiz(session.name, session.questions, exportFormat);
+    if (!exported) {
+      toast.error("Export failed. Please try again.");
+    }
+  };
+
+  // Spaced-repetition state from every graded answer; recomputed when sessions change
+  const dueQuestionIds = useMemo(
+    () =>
+      new Set(
+        getDueReviews(buildReviewSchedule(sessions)).map(
+          (review) => review.questionId,
+        ),
+      ),
+    [sessions],
+  );
+
+  const getDueCount = (session: QuizSession) =>
+    session.questions.filter((question) => dueQuestionIds.has(question.id))
+      .length;
+
+  const handleStartReview = () => {
+    const sessionId = createReviewSession();
+    if (sessionId) {
+      onSessionSelect(sessionId);
+    }
+  };
 
   const [filter, setFilter] = useState<
     "all" | "recent" | "completed" | "incomplete"
@@ -124,6 +186,27 @@ const SessionSidebar: React.FC<SessionSidebarProps> = ({
               </button>
             </div>
 
+            <SheetClose asChild>
+              <button
+                onClick={() => setActiveTab("Quiz Builder")}
+                className="mb-3 flex w-full items-center justify-center gap-2 rounded-lg bg-gray-700 px-3 py-2 text-sm text-gray-200 hover:bg-gray-600"
+              >
+                <FiLayers size={14} />
+                Build a quiz from your question bank
+              </button>
+            </SheetClose>
+
+            <button
+              onClick={handleStartReview}
+              disabled={dueQuestionIds.size === 0}
+              className="mb-3 flex w-full items-center justify-center gap-2 rounded-lg bg-purple-700 px-3 py-2 text-sm text-white hover:bg-purple-600 disabled:cursor-not-allowed disabled:bg-gray-700 disabled:text-gray-400"
+            >
+              <FiRepeat size={14} />
+              {dueQuestionIds.size > 0
+                ? `Review due (${dueQuestionIds.size})`
+                : "Nothing due for review"}
+            </button>
+
             {/* Filter Buttons */}
             <div className="flex flex-wrap gap-2">
               {[
@@ -202,6 +285,9 @@ const SessionSidebar: React.FC<SessionSidebarProps> = ({
                         ) : (
                           <div className="flex items-center gap-2">
                             {getStatusIcon(session)}
+                            {session.kind === "review" && (
+                              <FiRepeat className="text-purple-400" size={12} />
+                            )}
                             <h3 className="truncate text-sm font-medium">
                               {session.name}
                             </h3>
@@ -220,6 +306,45 @@ const SessionSidebar: React.FC<SessionSidebarProps> = ({
                           >
                             <FiEdit3 size={12} />
                           </button>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger
+                              onClick={(e) => e.stopPropagation()}
+                              disabled={session.questions.length === 0}
+                              className="text-gray-400 hover:text-green-400 disabled:opacity-30"
+                              title="Export"
+                            >
+                              <FiDownload size={12} />
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent className="border-gray-600 bg-[#383942] text-white">
+                              {EXPORT_OPTIONS.map((option) => (
+                                <DropdownMenuItem
+                                  key={option.format}
+                                  onSelect={() => handleExport(session, option.format)}
+                                  className="text-xs hover:bg-gray-700 focus:bg-gray-700"
+                                >
+                                  {option.label}
+                                </DropdownMenuItem>
+                              ))}
+                              <DropdownMenuItem
+                                onSelect={() => setWorksheetSession(session)}
+                                className="flex items-center gap-2 text-xs hover:bg-gray-700 focus:bg-gray-700"
+                              >
+                                <FiPrinter size={12} />
+                                Printable PDF
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setShareSession(session);
+                            }}
+                            disabled={session.questions.length === 0}
+                            className="text-gray-400 hover:text-blue-400 disabled:opacity-30"
+                            title="Share link"
+                          >
+                            <FiShare2 size={12} />
+                          </button>
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
@@ -268,6 +393,14 @@ const SessionSidebar: React.FC<SessionSidebarProps> = ({
                             </span>
                           </>
                         )}
+                        {getDueCount(session) > 0 && (
+                          <>
+                            <span>•</span>
+                            <span className="text-purple-400">
+                              {getDueCount(session)} due
+                            </span>
+                          </>
+                        )}
                       </div>
 
                       {/* Progress Bar */}
@@ -290,7 +423,7 @@ const SessionSidebar: React.FC<SessionSidebarProps> = ({
 
           {/* Footer Stats */}
           <div className="border-t border-gray-700 bg-gray-800 p-4">
-            <div className="grid grid-cols-3 gap-2 text-center text-xs">
+            <div className="grid grid-cols-4 gap-2 text-center text-xs">
               <div>
                 <div className="font-medium text-white">{sessions.length}</div>
                 <div className="text-gray-400">Total</div>
@@ -307,9 +440,24 @@ const SessionSidebar: React.FC<SessionSidebarProps> = ({
                 </div>
                 <div className="text-gray-400">In Progress</div>
               </div>
+              <div>
+                <div className="font-medium text-purple-400">
+                  {dueQuestionIds.size}
+                </div>
+                <div className="text-gray-400">Due</div>
+              </div>
             </div>
           </div>
         </div>
+
+        <WorksheetDialog
+          session={worksheetSession}
+          onClose={() => setWorksheetSession(null)}
+        />
+        <ShareDialog
+          session={shareSession}
+          onClose={() => setShareSession(null)}
+        />
       </SheetContent>
     </Sheet>
   );
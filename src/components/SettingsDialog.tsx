@@ -1,8 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { FiX, FiKey, FiTrash2, FiExternalLink, FiShield, FiRefreshCw } from 'react-icons/fi';
+import { FiX, FiKey, FiTrash2, FiExternalLink, FiShield, FiRefreshCw, FiCopy, FiLink, FiDownload, FiUpload } from 'react-icons/fi';
 import useCreditsStore from '../store/useCreditsStore';
+import useSessionStore from '../store/useSessionStore';
+import { downloadBlob } from '../utils/download';
+import { archiveFilename, createSessionArchive, parseSessionArchive } from '../utils/sessionArchive';
+import type { ArchiveError, ConflictStrategy } from '../utils/sessionArchive';
 import toast from 'react-hot-toast';
 
+const CONFLICT_LABELS: Record<ConflictStrategy, string> = {
+  skip: 'Keep existing sessions',
+  overwrite: 'Replace with backup',
+  duplicate: 'Keep both',
+};
+
 interface SettingsDialogProps {
   isOpen: boolean;
   onClose: () => void;
@@ -20,12 +30,91 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose }) => {
     resetCredits
   } = useCreditsStore();
 
+  const [linkKey, setLinkKey] = useState('');
+  const [isSyncing, setIsSyncing] = useState(false);
+  const { syncKey, lastSyncedAt, getSyncKey, setSyncKey, syncWithServer, sessions, importSessions } = useSessionStore();
+
+  const [conflict, setConflict] = useState<ConflictStrategy>('skip');
+  const [restoreErrors, setRestoreErrors] = useState<ArchiveError[]>([]);
+
   useEffect(() => {
     if (localApiKey) {
       setApiKey(localApiKey);
     }
   }, [localApiKey]);
 
+  useEffect(() => {
+    if (isOpen && !syncKey) {
+      getSyncKey();
+    }
+  }, [isOpen, syncKey, getSyncKey]);
+
+  const handleCopySyncKey = async () => {
+    try {
+      await navigator.clipboard.writeText(getSyncKey());
+      toast.success('Sync key copied');
+    } catch (error) {
+      toast.error('Failed to copy sync key');
+    }
+  };
+
+  const handleLinkDevice = async () => {
+    const key = linkKey.trim();
+    if (!/^[A-Za-z0-9_-]{16,128}$/.test(key)) {
+      toast.error('Please enter a valid sync key');
+      return;
+    }
+
+    setIsSyncing(true);
+    try {
+      await setSyncKey(key);
+      setLinkKey('');
+      toast.success('Device linked. Sessions synced.');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    try {
+      await syncWithServer();
+      toast.success('Sessions synced');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleBackup = () => {
+    const exportedAt = new Date();
+    const archive = createSessionArchive(sessions, exportedAt);
+    downloadBlob(new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' }), archiveFilename(exportedAt));
+    toast.success(`Backed up ${sessions.length} sessions`);
+  };
+
+  const handleRestore = async (file: File) => {
+    try {
+      const archive = parseSessionArchive(await file.text());
+      const summary = importSessions(archive.sessions, conflict);
+      const errors = [...archive.errors, ...summary.errors];
+      setRestoreErrors(errors);
+
+      const restored = [
+        summary.added && `${summary.added} added`,
+        summary.overwritten && `${summary.overwritten} replaced`,
+        summary.duplicated && `${summary.duplicated} copied`,
+        summary.skipped && `${summary.skipped} skipped`,
+      ].filter(Boolean).join(', ');
+      toast.success(`Backup restored: ${restored || 'no sessions'}`);
+      if (errors.length > 0) {
+        toast.error(`${errors.length} sessions could not be restored`);
+      }
+    } catch (error) {
+      setRestoreErrors([]);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore backup');
+    }
+  };
+
   const handleSaveApiKey = async () => {
     if (!apiKey.trim()) {
       toast.error('Please enter a valid API key');
@@ -95,7 +184,7 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose }) => {
         <div className="mb-6">
           <h2 className="text-xl font-bold text-white">Settings</h2>
           <p className="mt-2 text-sm text-gray-400">
-            Manage your API keys and credits
+            Manage your API keys, credits and saved sessions
           </p>
         </div>
 
@@ -197,12 +286,119 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose }) => {
             </div>
           </div>
 
+          {/* Session Sync Section */}
+          <div className="space-y-3 rounded-lg bg-[#383942] p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-white">Sync Across Devices</h3>
+              <button
+                onClick={handleSyncNow}
+                disabled={isSyncing}
+                className="flex items-center space-x-1 text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50 transition-colors"
+              >
+                <FiRefreshCw size={12} className={isSyncing ? 'animate-spin' : ''} />
+                <span>Sync now</span>
+              </button>
+            </div>
+            <p className="text-xs text-gray-400">
+              Your sessions are saved on the server under this sync key. Enter it on another device,
+              or after clearing your browser, to get them back.
+            </p>
+            <div className="flex items-center justify-between rounded-lg border border-gray-600 bg-[#202329] px-3 py-2">
+              <span className="truncate text-xs font-mono text-gray-300">{syncKey}</span>
+              <button
+                onClick={handleCopySyncKey}
+                className="ml-2 text-gray-400 hover:text-white transition-colors"
+                title="Copy sync key"
+              >
+                <FiCopy size={14} />
+              </button>
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={linkKey}
+                onChange={(e) => setLinkKey(e.target.value)}
+                placeholder="Paste a sync key from another device"
+                className="flex-1 rounded-lg border border-gray-600 bg-[#202329] px-3 py-2 text-xs text-white placeholder-gray-500 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <button
+                onClick={handleLinkDevice}
+                disabled={isSyncing || !linkKey.trim()}
+                className="flex items-center space-x-1 rounded-lg bg-blue-600 px-3 py-2 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <FiLink size={12} />
+                <span>Link</span>
+              </button>
+            </div>
+            {lastSyncedAt && (
+              <p className="text-xs text-gray-500">
+                Last synced {new Date(lastSyncedAt).toLocaleString()}
+              </p>
+            )}
+          </div>
+
+          {/* Backup Section */}
+          <div className="space-y-3 rounded-lg bg-[#383942] p-4">
+            <h3 className="text-sm font-medium text-white">Backup &amp; Restore</h3>
+            <p className="text-xs text-gray-400">
+              Download every session, with answers and results, as a JSON file. Restore it here
+              after clearing your browser or on another device.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={handleBackup}
+                disabled={sessions.length === 0}
+                className="flex items-center space-x-1 rounded-lg bg-blue-600 px-3 py-2 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <FiDownload size={12} />
+                <span>Download backup</span>
+              </button>
+              <label className="flex cursor-pointer items-center space-x-1 rounded-lg border border-gray-600 bg-[#202329] px-3 py-2 text-xs font-medium text-white hover:bg-gray-700 transition-colors">
+                <FiUpload size={12} />
+                <span>Restore from file</span>
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleRestore(file);
+                    e.target.value = '';
+                  }}
+                  className="hidden"
+                />
+              </label>
+            </div>
+            <label className="flex items-center justify-between text-xs text-gray-400">
+              <span>When a session already exists</span>
+              <select
+                value={conflict}
+                onChange={(e) => setConflict(e.target.value as ConflictStrategy)}
+                className="rounded border border-gray-600 bg-[#202329] px-2 py-1 text-xs text-white"
+              >
+                {(Object.keys(CONFLICT_LABELS) as ConflictStrategy[]).map((strategy) => (
+                  <option key={strategy} value={strategy}>
+                    {CONFLICT_LABELS[strategy]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {restoreErrors.length > 0 && (
+              <ul className="max-h-32 space-y-1 overflow-y-auto rounded bg-[#202329] p-2 text-xs text-red-300">
+                {restoreErrors.map((error, index) => (
+                  <li key={index}>
+                    <span className="text-gray-400">{error.location}:</span> {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
           {/* Privacy Notice */}
           <div className="rounded-lg border border-gray-600 bg-gray-800/20 p-3">
             <p className="text-xs text-gray-400">
               <FiShield className="mr-1 inline" size={12} />
               Your API key is stored securely in your browser's local storage and never sent to our servers.
-              Credits are now managed server-side for security.
+              Credits are now managed server-side for security. Quiz sessions are stored on the server so they can sync.
             </p>
           </div>
 
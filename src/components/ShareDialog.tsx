@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { format } from "date-fns";
+import { FiCopy, FiLink, FiTrash2, FiX } from "react-icons/fi";
+import { useEnhancedEduQuest } from "../hooks/useEnhancedEduQuest";
+import type { QuizSession } from "../store/useSessionStore";
+import type { ShareSummary } from "../utils/quizShare";
+
+interface ShareDialogProps {
+  session: QuizSession | null;
+  onClose: () => void;
+}
+
+const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+/**
+ * Share links for a session and the submissions each has received. A link is a snapshot of the
+ * questions when it was created; the answer key stays on the server.
+ */
+const ShareDialog: React.FC<ShareDialogProps> = ({ session, onClose }) => {
+  const { publishShare, listShares, unpublishShare, loading } =
+    useEnhancedEduQuest();
+  const [shares, setShares] = useState<ShareSummary[]>([]);
+  const [gradeWithServerKey, setGradeWithServerKey] = useState(false);
+
+  useEffect(() => {
+    if (!session) return;
+    setShares([]);
+    listShares(session.id).then((found) => {
+      if (found) setShares(found);
+    });
+  }, [session?.id]);
+
+  if (!session) return null;
+
+  const hasWrittenQuestions = session.questions.some(
+    (question) => question.type === "short" || question.type === "long",
+  );
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      toast.success("Link copied");
+    } catch (error) {
+      toast.error("Failed to copy link");
+    }
+  };
+
+  const handlePublish = async () => {
+    const share = await publishShare(session, gradeWithServerKey);
+    if (!share) {
+      toast.error("Could not create a link. Please try again.");
+      return;
+    }
+    setShares([share, ...shares]);
+    copyLink(share.token);
+  };
+
+  const handleUnpublish = async (token: string) => {
+    if (await unpublishShare(token)) {
+      setShares(shares.filter((share) => share.token !== token));
+      toast.success("Link removed");
+    } else {
+      toast.error("Could not remove the link");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm">
+      <div className="relative mx-4 w-full max-w-lg rounded-xl border border-gray-600 bg-[#202329] p-6 text-white shadow-2xl">
+        <button
+          onClick={onClose}
+          className="absolute right-4 top-4 text-gray-400 transition-colors hover:text-white"
+        >
+          <FiX size={20} />
+        </button>
+
+        <h2 className="flex items-center gap-2 text-lg font-bold">
+          <FiLink />
+          Share quiz
+        </h2>
+        <p className="mt-1 truncate text-sm text-gray-400">{session.name}</p>
+        <p className="mt-3 text-xs text-gray-400">
+          Anyone with the link can take the quiz without signing in. Answers
+          and explanations are not sent to them, and their answers are graded
+          on the server. Later edits to the session are not included; create a
+          new link to share them.
+        </p>
+
+        <div className="mt-4 max-h-[50vh] space-y-3 overflow-y-auto">
+          {shares.map((share) => (
+            <div key={share.token} className="rounded-lg bg-[#383942] p-3">
+              <div className="flex items-center gap-2">
+                <span className="flex-1 truncate font-mono text-xs text-gray-300">
+                  {shareUrl(share.token)}
+                </span>
+                <button
+                  onClick={() => copyLink(share.token)}
+                  className="text-gray-400 hover:text-white"
+                  title="Copy link"
+                >
+                  <FiCopy size={14} />
+                </button>
+                <button
+                  onClick={() => handleUnpublish(share.token)}
+                  className="text-gray-400 hover:text-red-400"
+                  title="Remove link"
+                >
+                  <FiTrash2 size={14} />
+                </button>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                Created {format(new Date(share.createdAt), "MMM d, yyyy")} ·{" "}
+                {share.questionCount} questions · {share.submissions.length}{" "}
+                submissions
+                {share.gradeWithServerKey && " · graded with the server key"}
+              </p>
+              {share.submissions.length > 0 && (
+                <ul className="mt-2 space-y-1 text-xs">
+                  {share.submissions.map((submission) => (
+                    <li
+                      key={submission.id}
+                      className="flex justify-between text-gray-300"
+                    >
+                      <span className="truncate">
+                        {submission.takerName || "Anonymous"}
+                        <span className="ml-2 text-gray-500">
+                          {format(
+                            new Date(submission.submittedAt),
+                            "MMM d, HH:mm",
+                          )}
+                        </span>
+                      </span>
+                      <span>
+                        {submission.score}/{submission.maxScore} (
+                        {submission.percentage}%)
+                        {submission.results.some((result) => result.pending) &&
+                          " · written answers to grade"}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {hasWrittenQuestions && (
+          <label className="mt-4 flex items-start gap-2 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={gradeWithServerKey}
+              onChange={(e) => setGradeWithServerKey(e.target.checked)}
+              className="mt-0.5"
+            />
+            Grade written answers with the server's model key. Each submission
+            then costs a model call; otherwise they wait for you to grade them.
+          </label>
+        )}
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={handlePublish}
+            disabled={loading || session.questions.length === 0}
+            className="flex items-center gap-1 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <FiLink size={14} />
+            {shares.length > 0 ? "Create new link" : "Create link"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
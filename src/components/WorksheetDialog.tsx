@@ -0,0 +1,143 @@
+import React, { useState } from "react";
+import toast from "react-hot-toast";
+import { FiAlertTriangle, FiPrinter, FiX } from "react-icons/fi";
+import { useEnhancedEduQuest } from "../hooks/useEnhancedEduQuest";
+import type { QuizSession } from "../store/useSessionStore";
+import type { PageSize } from "../utils/pdf";
+import { worksheetUnsupportedCharacters } from "../utils/worksheet";
+import type { WorksheetPart } from "../utils/worksheet";
+
+const PARTS: Array<{ part: WorksheetPart; label: string }> = [
+  { part: "worksheet", label: "Worksheet" },
+  { part: "key", label: "Answer key" },
+  { part: "both", label: "Both" },
+];
+
+const selectClass = "rounded bg-[#383942] px-2 py-1 text-sm";
+
+interface WorksheetDialogProps {
+  session: QuizSession | null;
+  onClose: () => void;
+}
+
+/**
+ * Options for a printable PDF of a session: versions with shuffled question order, shuffled
+ * options and page size. The worksheet and the answer key download separately or together.
+ */
+const WorksheetDialog: React.FC<WorksheetDialogProps> = ({
+  session,
+  onClose,
+}) => {
+  const { downloadWorksheet, loading } = useEnhancedEduQuest();
+  const [versions, setVersions] = useState(1);
+  const [shuffleOptions, setShuffleOptions] = useState(false);
+  const [pageSize, setPageSize] = useState<PageSize>("a4");
+
+  if (!session) return null;
+
+  // The PDF fonts only cover Western European scripts, so e.g. a Hindi quiz cannot be printed
+  const unsupported = worksheetUnsupportedCharacters(
+    session.name,
+    session.questions,
+  );
+
+  const handleDownload = async (part: WorksheetPart) => {
+    const downloaded = await downloadWorksheet(session, {
+      versions,
+      shuffleOptions,
+      part,
+      pageSize,
+    });
+    if (!downloaded) {
+      toast.error("Could not create the PDF. Please try again.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm">
+      <div className="relative mx-4 w-full max-w-md rounded-xl border border-gray-600 bg-[#202329] p-6 text-white shadow-2xl">
+        <button
+          onClick={onClose}
+          className="absolute right-4 top-4 text-gray-400 transition-colors hover:text-white"
+        >
+          <FiX size={20} />
+        </button>
+
+        <h2 className="flex items-center gap-2 text-lg font-bold">
+          <FiPrinter />
+          Printable worksheet
+        </h2>
+        <p className="mt-1 truncate text-sm text-gray-400">{session.name}</p>
+
+        <div className="mt-5 space-y-4 text-sm">
+          <label className="flex items-center justify-between">
+            Versions
+            <select
+              value={versions}
+              onChange={(e) => setVersions(Number(e.target.value))}
+              className={selectClass}
+            >
+              {[1, 2, 3, 4, 5].map((count) => (
+                <option key={count} value={count}>
+                  {count === 1
+                    ? "Single version"
+                    : `${count} (A-${String.fromCharCode(64 + count)})`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between">
+            Shuffle answer options
+            <input
+              type="checkbox"
+              checked={shuffleOptions}
+              onChange={(e) => setShuffleOptions(e.target.checked)}
+            />
+          </label>
+          <label className="flex items-center justify-between">
+            Page size
+            <select
+              value={pageSize}
+              onChange={(e) => setPageSize(e.target.value as PageSize)}
+              className={selectClass}
+            >
+              <option value="a4">A4</option>
+              <option value="letter">US Letter</option>
+            </select>
+          </label>
+          <p className="text-xs text-gray-400">
+            Versions B onwards shuffle the questions within each section. Each
+            version has its own answer key.
+          </p>
+          {unsupported.length > 0 && (
+            <p className="flex gap-2 rounded-lg bg-yellow-900/40 p-3 text-xs text-yellow-300">
+              <FiAlertTriangle size={14} className="mt-0.5 shrink-0" />
+              <span>
+                This quiz uses characters the PDF fonts cannot print (
+                {unsupported.slice(0, 10).join(" ")}
+                {unsupported.length > 10 && " ..."}). Printable worksheets
+                support Western European languages only; export the quiz in
+                another format instead.
+              </span>
+            </p>
+          )}
+        </div>
+
+        <div className="mt-6 flex justify-end gap-2">
+          {PARTS.map(({ part, label }) => (
+            <button
+              key={part}
+              onClick={() => handleDownload(part)}
+              disabled={loading || unsupported.length > 0}
+              className="rounded-lg bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorksheetDialog;
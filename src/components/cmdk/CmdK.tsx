@@ -286,6 +286,13 @@ export default function CommandK({ }: {}) {
                 className="font-bold tracking-wider">Arcade</span>
               </Link>
           </CommandItem>
+          <CommandItem>
+              <Link href="/">
+                <span 
+                onClick={() => {setActiveTab("Quiz Builder"); setOpen(false);}}
+                className="font-bold tracking-wider">Quiz Builder</span>
+              </Link>
+          </CommandItem>
           <CommandItem>
             {/* <Calculator className="mr-2 h-4 w-4" /> */}
               <Link href="/">
@@ -2,9 +2,13 @@
 
 import { CenteredSpinner } from './spinner';
 
-export function HomeSpinner({ isLoading }: { isLoading?: boolean }) {
+export function HomeSpinner({ isLoading, message }: { isLoading?: boolean; message?: string | null }) {
   if (!isLoading) {
     return <></>;
   }
-  return <CenteredSpinner />;
+  return (
+    <CenteredSpinner>
+      {message && <span className="mt-3 text-sm text-gray-300">{message}</span>}
+    </CenteredSpinner>
+  );
 }
@@ -38,11 +38,76 @@ export const API_ENDPOINTS = {
   ANALYZE_ANSWERS: '/api/analyze-answers',
   
   // Utilities
+  QUESTION_BANK: '/api/question-bank',
+  ASSEMBLE_QUIZ: '/api/question-bank/assemble',
+  EXPORT_QUIZ: '/api/export',
+  WORKSHEET: '/api/worksheet',
+  SHARE: '/api/share',
   RANDOM_QUESTION: '/api/random-question',
   HEALTH_CHECK: '/api/health'
 } as const;
 
+// AI model configuration - values are "provider/model" and are resolved server-side by utils/llm
+export interface AIModel {
+  value: string;
+  label: string;
+  provider: 'openai' | 'claude' | 'gemini' | 'deepseek';
+}
+
+export const AI_MODELS: AIModel[] = [
+  { value: 'google/gemini-1.5-flash', label: 'Gemini 1.5 Flash', provider: 'gemini' },
+  { value: 'google/gemini-1.5-pro', label: 'Gemini 1.5 Pro', provider: 'gemini' },
+  { value: 'openai/gpt-4', label: 'GPT-4', provider: 'openai' },
+  { value: 'openai/gpt-4-turbo', label: 'GPT-4 Turbo', provider: 'openai' },
+  { value: 'openai/gpt-3.5-turbo', label: 'GPT-3.5 Turbo', provider: 'openai' },
+  { value: 'anthropic/claude-3-opus-20240229', label: 'Claude 3 Opus', provider: 'claude' },
+  { value: 'anthropic/claude-3-sonnet-20240229', label: 'Claude 3 Sonnet', provider: 'claude' },
+  { value: 'anthropic/claude-3-haiku-20240307', label: 'Claude 3 Haiku', provider: 'claude' },
+  { value: 'deepseek/deepseek-chat', label: 'DeepSeek Chat', provider: 'deepseek' },
+  { value: 'deepseek/deepseek-coder', label: 'DeepSeek Coder', provider: 'deepseek' },
+];
+
+export const DEFAULT_AI_MODEL = 'google/gemini-1.5-flash';
+
 // Question generation configuration
+export const DIFFICULTY_LEVELS = ['beginner', 'intermediate', 'advanced'] as const;
+
+// Bloom's taxonomy, lowest to highest order
+export const BLOOM_LEVELS = ['remember', 'understand', 'apply', 'analyze', 'evaluate', 'create'] as const;
+
+export const LANGUAGES = ['English', 'Spanish', 'French', 'German', 'Hindi', 'Portuguese', 'Chinese', 'Japanese', 'Arabic'] as const;
+
+export const GRADE_LEVELS = [
+  'Elementary school',
+  'Middle school',
+  'High school',
+  'Undergraduate',
+  'Graduate',
+  'Professional',
+] as const;
+
+// Question types as stored on sessions and in the question bank
+export const SESSION_QUESTION_TYPES = ['mcq', 'fill', 'true_false', 'short', 'long'] as const;
+
+export type Difficulty = typeof DIFFICULTY_LEVELS[number];
+export type BloomLevel = typeof BLOOM_LEVELS[number];
+export type QuestionType = typeof SESSION_QUESTION_TYPES[number];
+
+export interface QuestionConfig {
+  mcqs: number;
+  fillInBlanks: number;
+  trueFalse: number;
+  shortType: number;
+  longType: number;
+  difficulty?: Difficulty;
+  bloomLevels?: BloomLevel[]; // Empty means any level
+  language?: string;
+  gradeLevel?: string;        // Audience, e.g. "High school"; unset means general audience
+}
+
+export const QUESTION_COUNT_KEYS = ['mcqs', 'fillInBlanks', 'trueFalse', 'shortType', 'longType'] as const;
+export type QuestionCountKey = typeof QUESTION_COUNT_KEYS[number];
+
 export const QUESTION_CONFIG = {
   DEFAULT: {
     mcqs: 5,
@@ -50,7 +115,10 @@ export const QUESTION_CONFIG = {
     trueFalse: 5,
     shortType: 3,
     longType: 2,
-  },
+    difficulty: 'intermediate',
+    bloomLevels: [],
+    language: 'English',
+  } as QuestionConfig,
   LIMITS: {
     mcqs: { min: 0, max: 20 },
     fillInBlanks: { min: 0, max: 20 },
@@ -60,6 +128,19 @@ export const QUESTION_CONFIG = {
   }
 } as const;
 
+export const getTotalQuestions = (config: Pick<QuestionConfig, QuestionCountKey>): number => {
+  return QUESTION_COUNT_KEYS.reduce((sum, key) => sum + (config[key] || 0), 0);
+};
+
+// Points per question type, for questions generated without a `points` value
+export const DEFAULT_POINTS = {
+  mcq: 1,
+  fill: 1,
+  true_false: 1,
+  short: 2,
+  long: 5,
+} as const;
+
 // File type utilities
 export const isImageFile = (mimeType: string): boolean => {
   return API_CONFIG.SUPPORTED_IMAGE_TYPES.includes(mimeType as any);
@@ -1,13 +1,8 @@
 import { useState, useCallback } from 'react';
 import axios from 'axios';
-
-interface QuestionConfig {
-  mcqs: number;
-  fillInBlanks: number;
-  trueFalse: number;
-  shortType: number;
-  longType: number;
-}
+import { QUESTION_CONFIG } from '../config/api';
+import type { QuestionConfig } from '../config/api';
+import useSessionStore from '../store/useSessionStore';
 
 interface Question {
   question: string;
@@ -71,17 +66,9 @@ export const useEduQuest = () => {
     setError(null);
 
     try {
-      const defaultConfig: QuestionConfig = {
-        mcqs: 5,
-        fillInBlanks: 5,
-        trueFalse: 5,
-        shortType: 3,
-        longType: 2,
-      };
-
       const response = await axios.post('/api/generate-questions', {
         topic,
-        config: { ...defaultConfig, ...config },
+        config: { ...QUESTION_CONFIG.DEFAULT, ...config },
       });
 
       if (response.data.success) {
@@ -127,7 +114,9 @@ export const useEduQuest = () => {
     setError(null);
 
     try {
-      const response = await axios.get('/api/random-question');
+      const response = await axios.get('/api/random-question', {
+        headers: { 'x-sync-key': useSessionStore.getState().getSyncKey() },
+      });
 
       if (response.data.success) {
         return response.data.question;
@@ -1,15 +1,18 @@
 import { useState, useCallback } from 'react';
 import axios, { AxiosError } from 'axios';
 import { API_ENDPOINTS, QUESTION_CONFIG } from '../config/api';
+import type { Difficulty, QuestionConfig, QuestionType } from '../config/api';
 import useCreditsStore from '../store/useCreditsStore';
-
-interface QuestionConfig {
-  mcqs: number;
-  fillInBlanks: number;
-  trueFalse: number;
-  shortType: number;
-  longType: number;
-}
+import useSessionStore from '../store/useSessionStore';
+import type { Question } from '../store/useSessionStore';
+import { downloadBlob, filenameFromDisposition } from '../utils/download';
+import type { ExportFormat } from '../utils/quizExport';
+import type { WorksheetOptions } from '../utils/worksheet';
+import type { ShareSummary } from '../utils/quizShare';
+import type { AssemblyShortfall, BankQuestion } from '../utils/questionBank';
+import { readServerSentEvents } from '../utils/sse';
+import type { GenerationProgress } from '../utils/questionGeneration';
+import type { DuplicateMatch } from '../utils/similarity';
 
 interface UploadedFile {
   id: string;
@@ -51,8 +54,56 @@ interface GenerationResult {
   questions: QuestionSet;
   sessionId: string;
   extractedContent?: any[];
+  skippedFiles?: Array<{ filename: string; mimeType: string; reason: string }>; // Files that could not be read
+  model?: string; // Model that actually answered, after any fallback
+  duplicates?: DuplicateMatch[]; // Near-duplicates the server left out
+}
+
+// Filters for drawing a random question from the question bank; empty means any
+export interface RandomQuestionFilters {
+  type?: QuestionType[];
+  difficulty?: Difficulty[];
+  tag?: string[];
+}
+
+// Search text and filters for the question bank; see /api/question-bank
+export interface QuestionBankQuery extends RandomQuestionFilters {
+  q?: string;
+  topic?: string;
+  limit?: number;
+}
+
+// Picks `count` random bank questions matching the filters
+export interface QuizRule extends RandomQuestionFilters {
+  count: number;
 }
 
+export interface StreamedQuestion {
+  type: keyof QuestionSet;
+  index: number; // Position within its type
+  question: any;
+}
+
+export interface GenerationStreamHandlers {
+  onStart?: (info: { sessionId: string; total: number }) => void;
+  onQuestion?: (event: StreamedQuestion) => void;
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+// Error reported by a generation stream, keeping the route's error code
+class StreamError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+  }
+}
+
+const toStreamError = (errorData: any, fallbackMessage: string) => {
+  if (typeof errorData === 'string') {
+    return new StreamError('API_ERROR', errorData);
+  }
+  return new StreamError(errorData?.code || 'API_ERROR', errorData?.message || fallbackMessage);
+};
+
 interface AnalysisData {
   shortQuestions: Array<{ question: string; answer: string }>;
   longQuestions: Array<{ question: string; answer: string }>;
@@ -106,6 +157,13 @@ export const useEnhancedEduQuest = () => {
       };
     }
     
+    if (err instanceof StreamError) {
+      return {
+        code: err.code,
+        message: err.message,
+      };
+    }
+    
     if (err instanceof Error) {
       return {
         code: 'UNKNOWN_ERROR',
@@ -119,9 +177,11 @@ export const useEnhancedEduQuest = () => {
     };
   }, []);
 
-  // Get request headers with API key if available
+  // Get request headers with API key if available, and the sync key that scopes the question bank
   const getRequestHeaders = useCallback(() => {
-    const headers: Record<string, string> = {};
+    const headers: Record<string, string> = {
+      'x-sync-key': useSessionStore.getState().getSyncKey(),
+    };
     const localApiKey = getApiKey();
     
     if (localApiKey) {
@@ -165,7 +225,8 @@ export const useEnhancedEduQuest = () => {
   const generateWithContext = useCallback(async (
     files: UploadedFile[],
     prompt?: string,
-    config?: Partial<QuestionConfig>
+    config?: Partial<QuestionConfig>,
+    model?: string
   ): Promise<GenerationResult | null> => {
     // Check credits before making API call
     const canProceed = await checkCreditsAndDeduct();
@@ -197,6 +258,10 @@ export const useEnhancedEduQuest = () => {
         
         // Add configuration
         formData.append('config', JSON.stringify(finalConfig));
+
+        if (model) {
+          formData.append('model', model);
+        }
         
         const response = await axios.post(API_ENDPOINTS.GENERATE_WITH_CONTEXT, formData, {
           headers: {
@@ -231,6 +296,7 @@ export const useEnhancedEduQuest = () => {
           topic: prompt,
           config: finalConfig,
           sessionId,
+          model,
         }, {
           headers,
         });
@@ -239,6 +305,8 @@ export const useEnhancedEduQuest = () => {
           return {
             questions: response.data.data,
             sessionId: response.data.sessionId || sessionId,
+            model: response.data.model,
+            duplicates: response.data.duplicates,
           };
         }
         
@@ -259,6 +327,90 @@ export const useEnhancedEduQuest = () => {
     });
   }, [apiCall, checkCreditsAndDeduct, getRequestHeaders]);
 
+  // Generate questions over Server-Sent Events, reporting each question as it arrives
+  const generateWithContextStream = useCallback(async (
+    files: UploadedFile[],
+    prompt?: string,
+    config?: Partial<QuestionConfig>,
+    model?: string,
+    handlers: GenerationStreamHandlers = {}
+  ): Promise<GenerationResult | null> => {
+    // Check credits before making API call
+    const canProceed = await checkCreditsAndDeduct();
+    if (!canProceed) {
+      setError({
+        code: 'NO_CREDITS',
+        message: 'You have 0 generations remaining. Please add your own API key to continue.',
+      });
+      return null;
+    }
+
+    return apiCall(async () => {
+      const finalConfig = { ...QUESTION_CONFIG.DEFAULT, ...config };
+      const headers = { ...getRequestHeaders(), Accept: 'text/event-stream' };
+      let response: Response;
+
+      if (files.length > 0) {
+        const formData = new FormData();
+        files.forEach((uploadedFile) => {
+          formData.append('files', uploadedFile.file);
+        });
+        if (prompt) {
+          formData.append('prompt', prompt);
+        }
+        formData.append('config', JSON.stringify(finalConfig));
+        if (model) {
+          formData.append('model', model);
+        }
+
+        response = await fetch(`${API_ENDPOINTS.GENERATE_WITH_CONTEXT}?stream=true`, {
+          method: 'POST',
+          headers,
+          body: formData,
+        });
+      } else if (prompt) {
+        response = await fetch(`${API_ENDPOINTS.GENERATE_QUESTIONS}?stream=true`, {
+          method: 'POST',
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ topic: prompt, config: finalConfig, model }),
+        });
+      } else {
+        throw new Error('No content provided');
+      }
+
+      // Requests rejected before streaming starts get a plain JSON error response
+      if (!response.body || !response.headers.get('content-type')?.includes('text/event-stream')) {
+        const data = await response.json().catch(() => ({}));
+        throw toStreamError(data.error, 'Failed to generate questions');
+      }
+
+      for await (const { event, data } of readServerSentEvents(response.body)) {
+        const payload = JSON.parse(data);
+
+        switch (event) {
+          case 'start':
+            handlers.onStart?.(payload);
+            break;
+          case 'progress':
+            handlers.onProgress?.(payload);
+            break;
+          case 'question':
+            handlers.onQuestion?.(payload);
+            break;
+          case 'error':
+            throw toStreamError(payload.error, 'Failed to generate questions');
+          case 'done':
+            // The two routes nest their results differently
+            return files.length > 0
+              ? payload.data
+              : { questions: payload.data, sessionId: payload.sessionId, model: payload.model, duplicates: payload.duplicates };
+        }
+      }
+
+      throw new Error('Generation stream ended before all questions arrived');
+    });
+  }, [apiCall, checkCreditsAndDeduct, getRequestHeaders]);
+
   // Upload single file
   const uploadFile = useCallback(async (
     file: File
@@ -306,22 +458,147 @@ export const useEnhancedEduQuest = () => {
   }, [apiCall, getRequestHeaders]);
 
   // Get random question
-  const getRandomQuestion = useCallback(async (): Promise<string | null> => {
+  const getRandomQuestion = useCallback(async (filters: RandomQuestionFilters = {}): Promise<BankQuestion | null> => {
     return apiCall(async () => {
       const headers = getRequestHeaders();
+      const params = Object.fromEntries(
+        Object.entries(filters).filter(([, values]) => values && values.length > 0).map(([key, values]) => [key, values.join(',')])
+      );
       
       const response = await axios.get(API_ENDPOINTS.RANDOM_QUESTION, {
         headers,
+        params,
       });
       
       if (response.data.success) {
-        return response.data.data || response.data.question;
+        return response.data.question;
       }
       
       throw new Error(response.data.error || 'Failed to fetch random question');
     });
   }, [apiCall, getRequestHeaders]);
 
+  // Search the question bank
+  const searchQuestionBank = useCallback(async (query: QuestionBankQuery = {}): Promise<{ questions: BankQuestion[]; total: number } | null> => {
+    return apiCall(async () => {
+      const params = Object.fromEntries(
+        Object.entries(query)
+          .filter(([, value]) => (Array.isArray(value) ? value.length > 0 : value !== undefined && value !== ''))
+          .map(([key, value]) => [key, Array.isArray(value) ? value.join(',') : value])
+      );
+
+      const response = await axios.get(API_ENDPOINTS.QUESTION_BANK, {
+        headers: getRequestHeaders(),
+        params,
+      });
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new Error(response.data.error || 'Failed to search the question bank');
+    });
+  }, [apiCall, getRequestHeaders]);
+
+  // Pick questions from the question bank by rule; no model call, so no credit is spent
+  const assembleQuiz = useCallback(async (rules: QuizRule[]): Promise<{ questions: BankQuestion[]; shortfall: AssemblyShortfall[] } | null> => {
+    return apiCall(async () => {
+      const response = await axios.post(API_ENDPOINTS.ASSEMBLE_QUIZ, { rules }, {
+        headers: getRequestHeaders(),
+      });
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new Error(response.data.error || 'Failed to assemble quiz');
+    });
+  }, [apiCall, getRequestHeaders]);
+
+  // Download questions as Moodle XML, GIFT or a QTI 2.1 package
+  const exportQuiz = useCallback(async (name: string, questions: Question[], format: ExportFormat): Promise<boolean> => {
+    const exported = await apiCall(async () => {
+      const response = await axios.post(API_ENDPOINTS.EXPORT_QUIZ, { format, name, questions }, {
+        responseType: 'blob',
+      });
+
+      downloadBlob(response.data, filenameFromDisposition(response.headers['content-disposition'], `quiz-${format}`));
+      return true;
+    });
+    return exported === true;
+  }, [apiCall]);
+
+  // Printable PDF; seeding with the session ID keeps each version's worksheet and key matching
+  const downloadWorksheet = useCallback(async (
+    session: { id: string; name: string; questions: Question[] },
+    options: WorksheetOptions
+  ): Promise<boolean> => {
+    const downloaded = await apiCall(async () => {
+      const response = await axios.post(API_ENDPOINTS.WORKSHEET, {
+        name: session.name,
+        questions: session.questions,
+        seed: session.id,
+        options,
+      }, {
+        responseType: 'blob',
+      });
+
+      downloadBlob(response.data, filenameFromDisposition(response.headers['content-disposition'], 'worksheet.pdf'));
+      return true;
+    });
+    return downloaded === true;
+  }, [apiCall]);
+
+  // Publish a snapshot of a session to a share link; answers stay on the server. Written answers
+  // are graded with the server's model key only with `gradeWithServerKey`
+  const publishShare = useCallback(async (
+    session: { id: string; name: string; topic: string; questions: Question[] },
+    gradeWithServerKey = false
+  ): Promise<ShareSummary | null> => {
+    return apiCall(async () => {
+      const response = await axios.post(API_ENDPOINTS.SHARE, {
+        sessionId: session.id,
+        name: session.name,
+        topic: session.topic,
+        questions: session.questions,
+        gradeWithServerKey,
+      }, {
+        headers: getRequestHeaders(),
+      });
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new Error(response.data.error || 'Failed to share the quiz');
+    });
+  }, [apiCall, getRequestHeaders]);
+
+  const listShares = useCallback(async (sessionId: string): Promise<ShareSummary[] | null> => {
+    return apiCall(async () => {
+      const response = await axios.get(API_ENDPOINTS.SHARE, {
+        headers: getRequestHeaders(),
+        params: { session: sessionId },
+      });
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new Error(response.data.error || 'Failed to load shared links');
+    });
+  }, [apiCall, getRequestHeaders]);
+
+  const unpublishShare = useCallback(async (token: string): Promise<boolean> => {
+    const deleted = await apiCall(async () => {
+      await axios.delete(`${API_ENDPOINTS.SHARE}/${encodeURIComponent(token)}`, {
+        headers: getRequestHeaders(),
+      });
+      return true;
+    });
+    return deleted === true;
+  }, [apiCall, getRequestHeaders]);
+
   // Clear error
   const clearError = useCallback(() => {
     setError(null);
@@ -336,9 +613,17 @@ export const useEnhancedEduQuest = () => {
     
     // Functions
     generateWithContext,
+    generateWithContextStream,
     uploadFile,
     analyzeAnswers,
     getRandomQuestion,
+    searchQuestionBank,
+    assembleQuiz,
+    exportQuiz,
+    downloadWorksheet,
+    publishShare,
+    listShares,
+    unpublishShare,
     
     // Utility functions
     clearError,
@@ -1,21 +1,28 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { analyzeAnswers } from '../../utils/ai';
+import { hasApiKeyFor } from '../../utils/llm';
 import { z } from 'zod';
+import type { QuestionGrade } from '../../store/useSessionStore';
+
+const answerSchema = z.object({
+  id: z.string().optional(),
+  question: z.string(),
+  answer: z.string(),
+  referenceAnswer: z.string().optional(),
+  points: z.number().positive().max(100).optional(),
+});
 
 const requestSchema = z.object({
-  shortQuestions: z.array(z.object({
-    question: z.string(),
-    answer: z.string(),
-  })).default([]),
-  longQuestions: z.array(z.object({
-    question: z.string(),
-    answer: z.string(),
-  })).default([]),
+  shortQuestions: z.array(answerSchema).default([]),
+  longQuestions: z.array(answerSchema).default([]),
+  model: z.string().optional(),
 });
 
 interface AnalyzeResponse {
   success: boolean;
   feedback?: string;
+  grades?: QuestionGrade[];
+  model?: string;
   error?: string;
 }
 
@@ -33,16 +40,16 @@ export default async function handler(
   try {
     // Get API key from headers (user's local API key)
     const userApiKey = req.headers['x-api-key'] as string;
-    
-    // Check if we have an API key (either user's or process.env)
-    if (!userApiKey && !process.env.GEMINI_API_KEY) {
+
+    const validatedData = requestSchema.parse(req.body);
+
+    // Check if we have an API key for the selected model (either user's or process.env)
+    if (!hasApiKeyFor(validatedData.model, userApiKey)) {
       return res.status(400).json({
         success: false,
-        error: 'No API key available. Please provide your own Gemini API key.',
+        error: 'No API key available for the selected model. Please provide your own Gemini API key.',
       });
     }
-
-    const validatedData = requestSchema.parse(req.body);
     
     if (validatedData.shortQuestions.length === 0 && validatedData.longQuestions.length === 0) {
       return res.status(400).json({
@@ -57,11 +64,14 @@ export default async function handler(
     });
     console.log('Using user API key:', !!userApiKey);
 
-    const feedback = await analyzeAnswers(validatedData, userApiKey);
+    const { model, ...answers } = validatedData;
+    const { feedback, grades, model: answeredBy } = await analyzeAnswers(answers, userApiKey, model);
 
     return res.status(200).json({
       success: true,
       feedback,
+      grades,
+      model: answeredBy,
     });
 
   } catch (error) {
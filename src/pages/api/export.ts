@@ -0,0 +1,86 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+import { EXPORT_FORMATS, ExportRequestSchema, exportQuiz } from '../../utils/quizExport';
+import { getSessionRepository, getSyncKey } from '../../utils/sessionRepository';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '4mb',
+    },
+  },
+};
+
+interface ExportErrorResponse {
+  success: false;
+  error: string;
+}
+
+const ExportQuerySchema = z.object({
+  session: z.string().min(1),
+  format: z.enum(EXPORT_FORMATS),
+});
+
+/**
+ * POST /api/export          - export the questions in the body: { format, name, questions }
+ * GET  /api/export?session= - export a stored session of the caller; format=moodle|gift|qti
+ *
+ * Responds with the file as an attachment.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ExportErrorResponse | string | Buffer>
+) {
+  try {
+    let request: z.infer<typeof ExportRequestSchema>;
+
+    switch (req.method) {
+      case 'POST':
+        request = ExportRequestSchema.parse(req.body);
+        break;
+
+      case 'GET': {
+        const ownerId = getSyncKey(req.headers['x-sync-key']);
+        if (!ownerId) {
+          return res.status(401).json({
+            success: false,
+            error: 'Missing or invalid x-sync-key header',
+          });
+        }
+
+        const query = ExportQuerySchema.parse(req.query);
+        const session = await getSessionRepository().get(ownerId, query.session);
+        if (!session) {
+          return res.status(404).json({ success: false, error: 'Session not found' });
+        }
+        request = ExportRequestSchema.parse({ format: query.format, name: session.name, questions: session.questions });
+        break;
+      }
+
+      default:
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed',
+        });
+    }
+
+    const file = exportQuiz(request.format, request.name, request.questions);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    return res.status(200).send(file.data);
+  } catch (error) {
+    console.error('Export API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: `Validation error: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+}
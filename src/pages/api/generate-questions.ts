@@ -1,23 +1,20 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { generateQuestions } from '../../utils/ai';
+import { hasApiKeyFor } from '../../utils/llm';
+import { QuestionConfigSchema } from '../../utils/questionSchema';
+import { generationTags, saveToQuestionBank } from '../../utils/questionBank';
+import { getSyncKey } from '../../utils/sessionRepository';
+import { openEventStream, wantsEventStream } from '../../utils/sse';
+import type { EventStream } from '../../utils/sse';
+import { getTotalQuestions } from '../../config/api';
+import type { DuplicateMatch } from '../../utils/similarity';
 import { z } from 'zod';
 
 const requestSchema = z.object({
   topic: z.string().min(1, 'Topic is required'),
-  config: z.object({
-    mcqs: z.number().min(0).max(20).default(5),
-    fillInBlanks: z.number().min(0).max(20).default(5),
-    trueFalse: z.number().min(0).max(20).default(5),
-    shortType: z.number().min(0).max(10).default(3),
-    longType: z.number().min(0).max(5).default(2),
-  }).default({
-    mcqs: 5,
-    fillInBlanks: 5,
-    trueFalse: 5,
-    shortType: 3,
-    longType: 2,
-  }),
+  config: QuestionConfigSchema,
   sessionId: z.string().optional(),
+  model: z.string().optional(),
 });
 
 interface GenerateQuestionsResponse {
@@ -25,6 +22,9 @@ interface GenerateQuestionsResponse {
   data?: any;
   error?: string;
   sessionId?: string;
+  model?: string;
+  shortfall?: Record<string, number>;
+  duplicates?: DuplicateMatch[];
 }
 
 export default async function handler(
@@ -38,56 +38,96 @@ export default async function handler(
     });
   }
 
+  // Opened once the request is valid; errors after that go out as an `error` event
+  let stream: EventStream | null = null;
+
+  const sendError = (status: number, body: GenerateQuestionsResponse) => {
+    if (stream) {
+      stream.send('error', body);
+      stream.close();
+      return;
+    }
+    return res.status(status).json(body);
+  };
+
   try {
     const validatedData = requestSchema.parse(req.body);
-    const { topic, config, sessionId } = validatedData;
+    const { topic, config, sessionId, model } = validatedData;
 
     // Get API key from headers (user's local API key)
     const userApiKey = req.headers['x-api-key'] as string;
     
-    // Check if we have an API key (either user's or process.env)
-    if (!userApiKey && !process.env.GEMINI_API_KEY) {
+    // Check if we have an API key for the selected model (either user's or process.env)
+    if (!hasApiKeyFor(model, userApiKey)) {
       return res.status(400).json({
         success: false,
-        error: 'No API key available. Please provide your own Gemini API key.',
+        error: 'No API key available for the selected model. Please provide your own Gemini API key.',
       });
     }
 
+    // Generated questions go into the caller's question bank, when the request identifies one
+    const bankOwner = getSyncKey(req.headers['x-sync-key']);
+
     // Generate a session ID if not provided
     const currentSessionId = sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-    console.log(`Generating questions for topic: "${topic}" with config:`, config);
+    console.log(`Generating questions for topic: "${topic}" with model ${model || 'default'} and config:`, config);
+
+    if (wantsEventStream(req)) {
+      const events = openEventStream(req, res);
+      stream = events;
+      events.send('start', { sessionId: currentSessionId, total: getTotalQuestions(config) });
 
-    const questionsData = await generateQuestions(topic, config, userApiKey);
+      const { questions: questionsData, model: answeredBy, shortfall, duplicates } = await generateQuestions(topic, config, userApiKey, model, {
+        onQuestion: (type, question, index) => events.send('question', { type, index, question }),
+        onProgress: (progress) => events.send('progress', progress),
+      });
+      await saveToQuestionBank(bankOwner, questionsData, topic, generationTags(config));
 
-    // Store the data with session ID for later retrieval
-    // In a production app, you'd want to use a proper database
-    // For now, we'll return the data directly
+      events.send('done', {
+        success: true,
+        data: questionsData,
+        sessionId: currentSessionId,
+        model: answeredBy,
+        shortfall,
+        duplicates,
+      });
+      events.close();
+      return;
+    }
+
+    const { questions: questionsData, model: answeredBy, shortfall, duplicates } = await generateQuestions(topic, config, userApiKey, model);
+    await saveToQuestionBank(bankOwner, questionsData, topic, generationTags(config));
+
+    // The client builds the quiz session from this data and saves it through /api/sessions
     
     return res.status(200).json({
       success: true,
       data: questionsData,
       sessionId: currentSessionId,
+      model: answeredBy,
+      shortfall,
+      duplicates,
     });
 
   } catch (error) {
     console.error('Question generation error:', error);
     
     if (error instanceof z.ZodError) {
-      return res.status(400).json({
+      return sendError(400, {
         success: false,
         error: `Validation error: ${error.errors.map(e => e.message).join(', ')}`,
       });
     }
 
     if (error instanceof Error && error.message.includes('API key')) {
-      return res.status(500).json({
+      return sendError(500, {
         success: false,
         error: 'AI service configuration error. Please check your API key.',
       });
     }
 
-    return res.status(500).json({
+    return sendError(500, {
       success: false,
       error: 'Failed to generate questions',
     });
@@ -6,8 +6,17 @@ import {
   preprocessMultimodalInput,
   QuestionSet 
 } from '../../utils/multimodal';
-import { ApiResponse } from '../../config/api';
+import type { ChunkSummary } from '../../utils/multimodal';
+import { ApiResponse, getTotalQuestions } from '../../config/api';
+import { hasApiKeyFor } from '../../utils/llm';
+import { QuestionConfigSchema } from '../../utils/questionSchema';
+import { generationTags, saveToQuestionBank } from '../../utils/questionBank';
+import { getSyncKey } from '../../utils/sessionRepository';
 import { parseMultipartForm, processMultipleFiles } from '../../utils/fileProcessing';
+import type { SkippedFile } from '../../utils/fileProcessing';
+import type { DuplicateMatch } from '../../utils/similarity';
+import { openEventStream, wantsEventStream } from '../../utils/sse';
+import type { EventStream } from '../../utils/sse';
 
 // Disable Next.js body parser for file uploads
 export const config = {
@@ -18,25 +27,19 @@ export const config = {
 
 const requestSchema = z.object({
   prompt: z.string().optional(),
-  config: z.object({
-    mcqs: z.number().min(0).max(20).default(5),
-    fillInBlanks: z.number().min(0).max(20).default(5),
-    trueFalse: z.number().min(0).max(20).default(5),
-    shortType: z.number().min(0).max(10).default(3),
-    longType: z.number().min(0).max(5).default(2),
-  }).default({
-    mcqs: 5,
-    fillInBlanks: 5,
-    trueFalse: 5,
-    shortType: 3,
-    longType: 2,
-  }),
+  model: z.string().optional(),
+  config: QuestionConfigSchema,
 });
 
 interface GenerateWithContextResponse extends ApiResponse<{
   questions: QuestionSet;
   sessionId: string;
   extractedContent?: any[];
+  skippedFiles?: SkippedFile[]; // Uploaded files that could not be read, with the reason
+  model: string;
+  chunks: ChunkSummary[]; // How the material was split, with the questions kept from each chunk
+  shortfall: Record<string, number>; // Requested questions the model could not supply, per type
+  duplicates: DuplicateMatch[]; // Near-duplicate questions left out
 }> {}
 
 export default async function handler(
@@ -53,20 +56,21 @@ export default async function handler(
     });
   }
 
+  // Opened once the request is valid; errors after that go out as an `error` event
+  let stream: EventStream | null = null;
+
+  const sendError = (status: number, body: GenerateWithContextResponse) => {
+    if (stream) {
+      stream.send('error', body);
+      stream.close();
+      return;
+    }
+    return res.status(status).json(body);
+  };
+
   try {
     // Get API key from headers (user's local API key)
     const userApiKey = req.headers['x-api-key'] as string;
-    
-    // Check if we have an API key (either user's or process.env)
-    if (!userApiKey && !process.env.GEMINI_API_KEY) {
-      return res.status(400).json({
-        success: false,
-        error: {
-          code: 'NO_API_KEY',
-          message: 'No API key available. Please provide your own Gemini API key.'
-        }
-      });
-    }
 
     console.log('Processing multimodal generation request...');
     console.log('Using user API key:', !!userApiKey);
@@ -77,6 +81,18 @@ export default async function handler(
     // Extract and validate form data
     const promptField = Array.isArray(fields.prompt) ? fields.prompt[0] : fields.prompt;
     const configField = Array.isArray(fields.config) ? fields.config[0] : fields.config;
+    const modelField = Array.isArray(fields.model) ? fields.model[0] : fields.model;
+
+    // Check if we have an API key for the selected model (either user's or process.env)
+    if (!hasApiKeyFor(modelField, userApiKey)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'NO_API_KEY',
+          message: 'No API key available for the selected model. Please provide your own Gemini API key.'
+        }
+      });
+    }
     
     let parsedConfig;
     try {
@@ -87,11 +103,13 @@ export default async function handler(
 
     const validatedData = requestSchema.parse({
       prompt: promptField || '',
+      model: modelField || undefined,
       config: parsedConfig,
     });
 
     console.log('Validated request data:', {
       prompt: validatedData.prompt?.slice(0, 50) + '...',
+      model: validatedData.model,
       config: validatedData.config,
       filesCount: Object.keys(files).length,
     });
@@ -119,48 +137,96 @@ export default async function handler(
       });
     }
 
+    // Generate session ID
+    const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    const events = wantsEventStream(req) ? openEventStream(req, res) : null;
+    stream = events;
+    events?.send('start', { sessionId, total: getTotalQuestions(validatedData.config) });
+
     let extractedContent: any[] = [];
+    let skippedFiles: SkippedFile[] = [];
     let processedContext: any = {
       textContent: validatedData.prompt || '',
     };
 
     // Preprocess files if any
     if (processedFiles.length > 0) {
-      const preprocessing = await preprocessMultimodalInput(processedFiles, userApiKey);
+      const preprocessing = await preprocessMultimodalInput(
+        processedFiles,
+        userApiKey,
+        validatedData.model,
+        events ? (progress) => events.send('progress', progress) : undefined
+      );
       extractedContent = preprocessing.extractedContent;
+      skippedFiles = preprocessing.skippedFiles;
       processedContext = {
         ...processedContext,
         ...preprocessing.processedContext,
         textContent: (processedContext.textContent || '') + (preprocessing.processedContext.textContent || ''),
       };
+
+      if (extractedContent.length === 0 && !validatedData.prompt) {
+        return sendError(400, {
+          success: false,
+          error: {
+            code: 'NO_CONTENT',
+            message: `None of the uploaded files could be read: ${skippedFiles.map((file) => `${file.filename} (${file.reason})`).join('; ')}`,
+            details: skippedFiles,
+          }
+        });
+      }
     }
 
     // Generate questions with context
-    const questions = await generateQuestionsWithContext(
+    const { questions, model, shortfall, duplicates, chunks } = await generateQuestionsWithContext(
       processedContext,
       validatedData.config,
       validatedData.prompt,
-      userApiKey
+      userApiKey,
+      validatedData.model,
+      events ? {
+        onQuestion: (type, question, index) => events.send('question', { type, index, question }),
+        onProgress: (progress) => events.send('progress', progress),
+      } : {}
     );
 
-    // Generate session ID
-    const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    // The prompt names the topic; without one, the uploaded files do
+    await saveToQuestionBank(
+      getSyncKey(req.headers['x-sync-key']),
+      questions,
+      validatedData.prompt || processedFiles.map((file) => file.originalFilename || 'upload').join(', '),
+      generationTags(validatedData.config)
+    );
 
-    return res.status(200).json({
+    const body: GenerateWithContextResponse = {
       success: true,
       data: {
         questions,
         sessionId,
         extractedContent,
+        skippedFiles,
+        model,
+        chunks,
+        shortfall,
+        duplicates,
       },
       timestamp: new Date().toISOString(),
-    });
+    };
+
+    if (events) {
+      events.send('done', body);
+      events.close();
+      return;
+    }
+
+    return res.status(200).json(body);
 
   } catch (error) {
     console.error('Multimodal generation error:', error);
     
     if (error instanceof z.ZodError) {
-      return res.status(400).json({
+      return sendError(400, {
         success: false,
         error: {
           code: 'VALIDATION_ERROR',
@@ -171,7 +237,7 @@ export default async function handler(
     }
 
     if (error instanceof Error && error.message.includes('API key')) {
-      return res.status(500).json({
+      return sendError(500, {
         success: false,
         error: {
           code: 'API_KEY_ERROR',
@@ -180,7 +246,7 @@ export default async function handler(
       });
     }
 
-    return res.status(500).json({
+    return sendError(500, {
       success: false,
       error: {
         code: 'GENERATION_ERROR',
@@ -0,0 +1,62 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getQuestionBankRepository } from '../../../utils/questionBank';
+import type { BankQuestion } from '../../../utils/questionBank';
+import { getSyncKey } from '../../../utils/sessionRepository';
+
+interface BankQuestionResponse {
+  success: boolean;
+  data?: BankQuestion;
+  error?: string;
+}
+
+/**
+ * GET    /api/question-bank/:id - fetch one question
+ * DELETE /api/question-bank/:id - remove it from the bank (sessions that use it keep their copy)
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<BankQuestionResponse>
+) {
+  const ownerId = getSyncKey(req.headers['x-sync-key']);
+  if (!ownerId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Missing or invalid x-sync-key header',
+    });
+  }
+
+  const id = req.query.id as string;
+  const repository = getQuestionBankRepository();
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const question = await repository.get(ownerId, id);
+        if (!question) {
+          return res.status(404).json({ success: false, error: 'Question not found' });
+        }
+        return res.status(200).json({ success: true, data: question });
+      }
+
+      case 'DELETE': {
+        const deleted = await repository.delete(ownerId, id);
+        if (!deleted) {
+          return res.status(404).json({ success: false, error: 'Question not found' });
+        }
+        return res.status(200).json({ success: true });
+      }
+
+      default:
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed',
+        });
+    }
+  } catch (error) {
+    console.error('Question bank API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+}
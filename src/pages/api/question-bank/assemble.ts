@@ -0,0 +1,60 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+import { AssemblyRuleSchema, assembleQuiz, getQuestionBankRepository } from '../../../utils/questionBank';
+import type { AssemblyShortfall, BankQuestion } from '../../../utils/questionBank';
+import { getSyncKey } from '../../../utils/sessionRepository';
+
+const requestSchema = z.object({
+  rules: z.array(AssemblyRuleSchema).min(1).max(20),
+});
+
+interface AssembleResponse {
+  success: boolean;
+  data?: { questions: BankQuestion[]; shortfall: AssemblyShortfall[] };
+  error?: string;
+}
+
+/**
+ * POST /api/question-bank/assemble - pick questions from the caller's bank by rule, for a new quiz
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AssembleResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  const ownerId = getSyncKey(req.headers['x-sync-key']);
+  if (!ownerId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Missing or invalid x-sync-key header',
+    });
+  }
+
+  try {
+    const { rules } = requestSchema.parse(req.body);
+    return res.status(200).json({
+      success: true,
+      data: await assembleQuiz(getQuestionBankRepository(), ownerId, rules),
+    });
+  } catch (error) {
+    console.error('Quiz assembly error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: `Validation error: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to assemble quiz',
+    });
+  }
+}
@@ -0,0 +1,88 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+import { BankQuerySchema, BankQuestionSchema, getQuestionBankRepository } from '../../../utils/questionBank';
+import type { BankQuestion } from '../../../utils/questionBank';
+import { getSyncKey } from '../../../utils/sessionRepository';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '4mb',
+    },
+  },
+};
+
+const searchSchema = BankQuerySchema.extend({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const addSchema = z.object({
+  questions: z.array(BankQuestionSchema).min(1).max(500),
+});
+
+interface QuestionBankResponse {
+  success: boolean;
+  data?: { questions: BankQuestion[]; total: number } | BankQuestion[];
+  error?: string;
+}
+
+/**
+ * GET  /api/question-bank - search the caller's bank (q, type, difficulty, tag, topic, limit, offset)
+ * POST /api/question-bank - add questions, or replace ones with the same id
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<QuestionBankResponse>
+) {
+  const ownerId = getSyncKey(req.headers['x-sync-key']);
+  if (!ownerId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Missing or invalid x-sync-key header',
+    });
+  }
+
+  const repository = getQuestionBankRepository();
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const { limit, offset, ...query } = searchSchema.parse(req.query);
+        const questions = await repository.search(ownerId, query);
+        return res.status(200).json({
+          success: true,
+          data: { questions: questions.slice(offset, offset + limit), total: questions.length },
+        });
+      }
+
+      case 'POST': {
+        const { questions } = addSchema.parse(req.body);
+        return res.status(201).json({
+          success: true,
+          data: await repository.add(ownerId, questions),
+        });
+      }
+
+      default:
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed',
+        });
+    }
+  } catch (error) {
+    console.error('Question bank API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: `Validation error: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+}
@@ -1,75 +1,70 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import fs from 'fs/promises';
-import path from 'path';
+import { z } from 'zod';
+import { BankQuerySchema, getQuestionBankRepository } from '../../utils/questionBank';
+import type { BankQuestion } from '../../utils/questionBank';
+import { getSyncKey } from '../../utils/sessionRepository';
 
 interface RandomQuestionResponse {
   success: boolean;
-  question?: any;
+  question?: BankQuestion;
   error?: string;
 }
 
+/**
+ * GET /api/random-question - a random question from the caller's bank, optionally filtered by
+ * type, difficulty, tag, topic or search text
+ */
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<RandomQuestionResponse>
 ) {
   if (req.method !== 'GET') {
-    return res.status(405).json({ 
-      success: false, 
-      error: 'Method not allowed' 
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
     });
   }
 
-  try {
-    // In a production app, you'd want to use a proper database
-    // For now, we'll look for JSON files in a temp directory
-    const tempDir = path.join(process.cwd(), 'temp');
-    
-    try {
-      await fs.access(tempDir);
-    } catch {
-      // If temp directory doesn't exist, create it
-      await fs.mkdir(tempDir, { recursive: true });
-    }
-
-    const files = await fs.readdir(tempDir);
-    const jsonFiles = files.filter(file => file.endsWith('.json'));
-
-    if (jsonFiles.length === 0) {
-      return res.status(404).json({
-        success: false,
-        error: 'No question sets available. Please generate some questions first.',
-      });
-    }
-
-    const randomFile = jsonFiles[Math.floor(Math.random() * jsonFiles.length)];
-    const filePath = path.join(tempDir, randomFile);
-    const data = await fs.readFile(filePath, 'utf8');
-    const questions = JSON.parse(data);
+  const ownerId = getSyncKey(req.headers['x-sync-key']);
+  if (!ownerId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Missing or invalid x-sync-key header',
+    });
+  }
 
-    // Try different possible keys for MCQs
-    const mcqsKey = questions.mcqs ? 'mcqs' : 
-                   questions['5 MCQs'] ? '5 MCQs' : 
-                   questions.MCQs ? 'MCQs' : null;
+  try {
+    const query = BankQuerySchema.parse(req.query);
+    const questions = await getQuestionBankRepository().search(ownerId, query);
 
-    if (!mcqsKey || !questions[mcqsKey] || questions[mcqsKey].length === 0) {
+    if (questions.length === 0) {
+      const filtered = query.q || query.type.length || query.difficulty.length || query.tag.length || query.topic;
       return res.status(404).json({
         success: false,
-        error: 'No MCQ questions found in available question sets.',
+        error: filtered
+          ? 'No questions in your question bank match these filters.'
+          : 'Your question bank is empty. Please generate some questions first.',
       });
     }
 
-    const randomQuestion = questions[mcqsKey][Math.floor(Math.random() * questions[mcqsKey].length)];
-
     return res.status(200).json({
       success: true,
-      question: randomQuestion,
+      question: questions[Math.floor(Math.random() * questions.length)],
     });
 
   } catch (error) {
     console.error('Random question error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: `Validation error: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+      });
+    }
+
     return res.status(500).json({
       success: false,
       error: 'Failed to fetch random question',
     });
   }
-} 
\ No newline at end of file
+}
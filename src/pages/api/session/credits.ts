@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
+import { getClientIP } from '../../../utils/clientIp';
 
 const SECRET_KEY = process.env.SESSION_SECRET || 'your-secret-key-change-in-production';
 const INITIAL_CREDITS = 4;
@@ -54,26 +55,6 @@ if (!isInitialized) {
   isInitialized = true;
 }
 
-// Get client IP address
-function getClientIP(req: NextApiRequest): string {
-  const forwarded = req.headers['x-forwarded-for'];
-  let ip: string = '127.0.0.1'; // Default fallback
-  
-  if (forwarded) {
-    if (typeof forwarded === 'string') {
-      const firstIp = forwarded.split(',')[0]?.trim();
-      if (firstIp) ip = firstIp;
-    } else if (Array.isArray(forwarded) && forwarded.length > 0 && forwarded[0]) {
-      ip = forwarded[0];
-    }
-  } else {
-    const remoteAddr = req.connection?.remoteAddress || req.socket?.remoteAddress;
-    if (remoteAddr) ip = remoteAddr;
-  }
-  
-  return ip.replace('::ffff:', ''); // Remove IPv6 prefix if present
-}
-
 // Create a unique fingerprint based on IP, User-Agent, and other headers
 function createFingerprint(req: NextApiRequest): string {
   const ip = getClientIP(req);
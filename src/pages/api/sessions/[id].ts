@@ -0,0 +1,109 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+import { StoredSessionSchema, getSessionRepository, getSyncKey } from '../../../utils/sessionRepository';
+import type { StoredSession } from '../../../utils/sessionRepository';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '4mb',
+    },
+  },
+};
+
+interface SessionResponse {
+  success: boolean;
+  data?: StoredSession;
+  error?: string;
+}
+
+/**
+ * GET    /api/sessions/:id - fetch one session
+ * PUT    /api/sessions/:id - create or replace it
+ * PATCH  /api/sessions/:id - update some of its fields
+ * DELETE /api/sessions/:id - remove it
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SessionResponse>
+) {
+  const ownerId = getSyncKey(req.headers['x-sync-key']);
+  if (!ownerId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Missing or invalid x-sync-key header',
+    });
+  }
+
+  const id = req.query.id as string;
+  const repository = getSessionRepository();
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const session = await repository.get(ownerId, id);
+        if (!session) {
+          return res.status(404).json({ success: false, error: 'Session not found' });
+        }
+        return res.status(200).json({ success: true, data: session });
+      }
+
+      case 'PUT': {
+        const session = StoredSessionSchema.parse({ ...req.body, id });
+        return res.status(200).json({
+          success: true,
+          data: await repository.save(ownerId, session),
+        });
+      }
+
+      case 'PATCH': {
+        const existing = await repository.get(ownerId, id);
+        if (!existing) {
+          return res.status(404).json({ success: false, error: 'Session not found' });
+        }
+
+        const { ownerId: _owner, updatedAt: _updatedAt, ...current } = existing;
+        const session = StoredSessionSchema.parse({ ...current, ...req.body, id });
+        return res.status(200).json({
+          success: true,
+          data: await repository.save(ownerId, session),
+        });
+      }
+
+      case 'DELETE': {
+        const deleted = await repository.delete(ownerId, id);
+        if (!deleted) {
+          return res.status(404).json({ success: false, error: 'Session not found' });
+        }
+        return res.status(200).json({ success: true });
+      }
+
+      default:
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed',
+        });
+    }
+  } catch (error) {
+    console.error('Session API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: `Validation error: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+      });
+    }
+
+    if (error instanceof Error && error.message.includes('another owner')) {
+      return res.status(409).json({
+        success: false,
+        error: 'A session with this id already exists',
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+}
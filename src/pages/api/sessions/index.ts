@@ -0,0 +1,82 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+import { StoredSessionSchema, getSessionRepository, getSyncKey } from '../../../utils/sessionRepository';
+import type { StoredSession } from '../../../utils/sessionRepository';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '4mb',
+    },
+  },
+};
+
+interface SessionsResponse {
+  success: boolean;
+  data?: StoredSession[] | StoredSession;
+  error?: string;
+}
+
+/**
+ * GET  /api/sessions - list the caller's sessions, most recently updated first
+ * POST /api/sessions - create (or replace) a session
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SessionsResponse>
+) {
+  const ownerId = getSyncKey(req.headers['x-sync-key']);
+  if (!ownerId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Missing or invalid x-sync-key header',
+    });
+  }
+
+  const repository = getSessionRepository();
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json({
+          success: true,
+          data: await repository.list(ownerId),
+        });
+
+      case 'POST': {
+        const session = StoredSessionSchema.parse(req.body);
+        return res.status(201).json({
+          success: true,
+          data: await repository.save(ownerId, session),
+        });
+      }
+
+      default:
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed',
+        });
+    }
+  } catch (error) {
+    console.error('Sessions API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: `Validation error: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+      });
+    }
+
+    if (error instanceof Error && error.message.includes('another owner')) {
+      return res.status(409).json({
+        success: false,
+        error: 'A session with this id already exists',
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+}
@@ -0,0 +1,63 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getShareRepository, toPublicQuiz } from '../../../../utils/quizShare';
+import type { PublicQuiz } from '../../../../utils/quizShare';
+import { getSyncKey } from '../../../../utils/sessionRepository';
+
+interface SharedQuizResponse {
+  success: boolean;
+  data?: PublicQuiz;
+  error?: string;
+}
+
+/**
+ * GET    /api/share/:token - the shared quiz without its answer key; no sync key needed
+ * DELETE /api/share/:token - unpublish it; owner only
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SharedQuizResponse>
+) {
+  const token = req.query.token as string;
+  const repository = getShareRepository();
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const share = await repository.get(token);
+        if (!share) {
+          return res.status(404).json({ success: false, error: 'Shared quiz not found' });
+        }
+        return res.status(200).json({ success: true, data: toPublicQuiz(share) });
+      }
+
+      case 'DELETE': {
+        const ownerId = getSyncKey(req.headers['x-sync-key']);
+        if (!ownerId) {
+          return res.status(401).json({
+            success: false,
+            error: 'Missing or invalid x-sync-key header',
+          });
+        }
+
+        // Someone else's token looks the same as an unknown one
+        const deleted = await repository.delete(ownerId, token);
+        if (!deleted) {
+          return res.status(404).json({ success: false, error: 'Shared quiz not found' });
+        }
+        return res.status(200).json({ success: true });
+      }
+
+      default:
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed',
+        });
+    }
+  } catch (error) {
+    console.error('Shared quiz API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+}
@@ -0,0 +1,109 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+import { getClientIP } from '../../../../utils/clientIp';
+import {
+  ShareSubmissionSchema,
+  getShareRepository,
+  gradeSubmission,
+  isAcceptingSubmissions,
+  takeSubmissionSlot,
+} from '../../../../utils/quizShare';
+import type { QuestionResult } from '../../../../utils/quizShare';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '1mb',
+    },
+  },
+};
+
+interface SubmissionResponse {
+  success: boolean;
+  data?: {
+    id: string;
+    score: number;
+    maxScore: number;
+    percentage: number;
+    results: QuestionResult[];
+  };
+  error?: string;
+}
+
+/**
+ * POST /api/share/:token/submissions - submit answers to a shared quiz: { takerName?, answers }
+ *
+ * `answers` maps question ids to answers. Grading happens here against the stored answer key;
+ * the response has points per question but never the key. Written answers use the taker's own
+ * key in `x-api-key`, or the server's model key if the owner allowed it when publishing.
+ *
+ * Full shares and rate-limited clients are refused before anything is graded.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SubmissionResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  const token = req.query.token as string;
+  const repository = getShareRepository();
+
+  try {
+    const share = await repository.get(token);
+    if (!share) {
+      return res.status(404).json({ success: false, error: 'Shared quiz not found' });
+    }
+
+    if (!isAcceptingSubmissions(share)) {
+      return res.status(409).json({
+        success: false,
+        error: 'This quiz is not accepting more submissions',
+      });
+    }
+
+    const request = ShareSubmissionSchema.parse(req.body);
+    if (!takeSubmissionSlot(token, getClientIP(req))) {
+      res.setHeader('Retry-After', '600');
+      return res.status(429).json({
+        success: false,
+        error: 'Too many submissions to this quiz. Please try again later.',
+      });
+    }
+
+    const submission = await gradeSubmission(
+      share,
+      request,
+      req.headers['x-api-key'] as string | undefined
+    );
+    await repository.addSubmission(token, submission);
+
+    const { id, score, maxScore, percentage, results } = submission;
+    return res.status(201).json({ success: true, data: { id, score, maxScore, percentage, results } });
+  } catch (error) {
+    console.error('Shared quiz submission error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: `Validation error: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+      });
+    }
+
+    if (error instanceof Error && error.message.includes('not accepting')) {
+      return res.status(409).json({
+        success: false,
+        error: 'This quiz is not accepting more submissions',
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+}
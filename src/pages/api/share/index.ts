@@ -0,0 +1,77 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+import { PublishShareSchema, getShareRepository, toShareSummary } from '../../../utils/quizShare';
+import type { ShareSummary } from '../../../utils/quizShare';
+import { getSyncKey } from '../../../utils/sessionRepository';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '4mb',
+    },
+  },
+};
+
+const listSchema = z.object({
+  session: z.string().min(1).optional(),
+});
+
+interface ShareResponse {
+  success: boolean;
+  data?: ShareSummary | ShareSummary[];
+  error?: string;
+}
+
+/**
+ * GET  /api/share - the caller's shares with their submissions; session=<id> for one session's
+ * POST /api/share - publish a snapshot of a session: { sessionId, name, topic, questions }
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ShareResponse>
+) {
+  const ownerId = getSyncKey(req.headers['x-sync-key']);
+  if (!ownerId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Missing or invalid x-sync-key header',
+    });
+  }
+
+  const repository = getShareRepository();
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const { session } = listSchema.parse(req.query);
+        const shares = await repository.list(ownerId, session);
+        return res.status(200).json({ success: true, data: shares.map(toShareSummary) });
+      }
+
+      case 'POST': {
+        const share = await repository.create(ownerId, PublishShareSchema.parse(req.body));
+        return res.status(201).json({ success: true, data: toShareSummary(share) });
+      }
+
+      default:
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed',
+        });
+    }
+  } catch (error) {
+    console.error('Share API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: `Validation error: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+}
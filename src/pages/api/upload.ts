@@ -1,11 +1,13 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { parseMultipartForm, extractTextFromFile } from '../../utils/fileProcessing';
+import { hasApiKeyFor } from '../../utils/llm';
 
 interface UploadResponse {
   success: boolean;
   text?: string;
   fileType?: string;
   filename?: string;
+  model?: string;
   error?: string;
 }
 
@@ -30,20 +32,21 @@ export default async function handler(
   try {
     // Get API key from headers (user's local API key)
     const userApiKey = req.headers['x-api-key'] as string;
-    
-    // Check if we have an API key (either user's or process.env)
-    if (!userApiKey && !process.env.GEMINI_API_KEY) {
-      return res.status(400).json({
-        success: false,
-        error: 'No API key available. Please provide your own Gemini API key.',
-      });
-    }
 
     console.log('Processing file upload...');
     console.log('Using user API key:', !!userApiKey);
 
     // Parse multipart form data
-    const { files } = await parseMultipartForm(req);
+    const { fields, files } = await parseMultipartForm(req);
+    const model = (Array.isArray(fields.model) ? fields.model[0] : fields.model) || undefined;
+
+    // Check if we have an API key for the selected model (either user's or process.env)
+    if (!hasApiKeyFor(model, userApiKey)) {
+      return res.status(400).json({
+        success: false,
+        error: 'No API key available for the selected model. Please provide your own Gemini API key.',
+      });
+    }
     
     // Get the uploaded file
     let uploadedFile;
@@ -59,7 +62,7 @@ export default async function handler(
     }
 
     // Process the file
-    const result = await extractTextFromFile(uploadedFile, userApiKey);
+    const result = await extractTextFromFile(uploadedFile, userApiKey, model);
 
     if (result.error) {
       return res.status(400).json({
@@ -73,6 +76,7 @@ export default async function handler(
       text: result.text,
       fileType: result.fileType,
       filename: result.filename,
+      model: result.model,
     });
 
   } catch (error) {
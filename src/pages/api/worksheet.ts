@@ -0,0 +1,102 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+import { getSessionRepository, getSyncKey } from '../../utils/sessionRepository';
+import { WORKSHEET_PARTS, WorksheetOptionsSchema, WorksheetRequestSchema, renderWorksheet } from '../../utils/worksheet';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '4mb',
+    },
+  },
+};
+
+interface WorksheetErrorResponse {
+  success: false;
+  error: string;
+}
+
+const WorksheetQuerySchema = z.object({
+  session: z.string().min(1),
+  versions: z.coerce.number().optional(),
+  shuffleOptions: z.enum(['true', 'false']).optional(),
+  part: z.enum(WORKSHEET_PARTS).optional(),
+  pageSize: z.string().optional(),
+});
+
+/**
+ * POST /api/worksheet          - render the questions in the body: { name, questions, seed?, options? }
+ * GET  /api/worksheet?session= - render a stored session of the caller, seeded with its ID;
+ *                                versions=1-5, shuffleOptions=true, part=worksheet|key|both, pageSize=a4|letter
+ *
+ * Responds with the PDF as an attachment.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<WorksheetErrorResponse | Buffer>
+) {
+  try {
+    let request: z.infer<typeof WorksheetRequestSchema>;
+
+    switch (req.method) {
+      case 'POST':
+        request = WorksheetRequestSchema.parse(req.body);
+        break;
+
+      case 'GET': {
+        const ownerId = getSyncKey(req.headers['x-sync-key']);
+        if (!ownerId) {
+          return res.status(401).json({
+            success: false,
+            error: 'Missing or invalid x-sync-key header',
+          });
+        }
+
+        const { session: sessionId, shuffleOptions, ...query } = WorksheetQuerySchema.parse(req.query);
+        const session = await getSessionRepository().get(ownerId, sessionId);
+        if (!session) {
+          return res.status(404).json({ success: false, error: 'Session not found' });
+        }
+        request = WorksheetRequestSchema.parse({
+          name: session.name,
+          questions: session.questions,
+          seed: session.id,
+          options: WorksheetOptionsSchema.parse({ ...query, shuffleOptions: shuffleOptions === 'true' }),
+        });
+        break;
+      }
+
+      default:
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed',
+        });
+    }
+
+    const file = renderWorksheet(request.name, request.questions, request.options, request.seed);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    return res.status(200).send(file.data as Buffer);
+  } catch (error) {
+    console.error('Worksheet API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: `Validation error: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+      });
+    }
+
+    if (error instanceof Error && error.message.includes('cannot print')) {
+      return res.status(422).json({
+        success: false,
+        error: `${error.message}. Printable worksheets support Western European languages only.`,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+}
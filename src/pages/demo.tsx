@@ -2,23 +2,13 @@ import React, { useState } from 'react';
 import { useEduQuest } from '../hooks/useEduQuest';
 import { QuestionConfigComponent } from '../components/QuestionConfig';
 import { FileUpload } from '../components/FileUpload';
-
-interface QuestionConfig {
-  mcqs: number;
-  fillInBlanks: number;
-  trueFalse: number;
-  shortType: number;
-  longType: number;
-}
+import { QUESTION_CONFIG } from '../config/api';
+import type { QuestionConfig } from '../config/api';
 
 const DemoPage: React.FC = () => {
   const [topic, setTopic] = useState('');
   const [questionConfig, setQuestionConfig] = useState<QuestionConfig>({
-    mcqs: 5,
-    fillInBlanks: 5,
-    trueFalse: 5,
-    shortType: 3,
-    longType: 2,
+    ...QUESTION_CONFIG.DEFAULT,
   });
   const [generatedQuestions, setGeneratedQuestions] = useState<any>(null);
   const [extractedText, setExtractedText] = useState('');
@@ -225,7 +215,7 @@ const DemoPage: React.FC = () => {
           <div className="bg-white rounded-lg shadow-md p-6">
             <h2 className="text-xl font-semibold mb-4">Random Question</h2>
             <p className="text-gray-600 mb-4">
-              Get a random question from previously generated sets
+              Get a random question from your question bank
             </p>
             <button
               onClick={handleRandomQuestion}
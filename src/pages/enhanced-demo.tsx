@@ -2,6 +2,8 @@ import React, { useState } from 'react';
 import { useEnhancedEduQuest } from '../hooks/useEnhancedEduQuest';
 import { MultimodalFileUpload } from '../components/MultimodalFileUpload';
 import { QuestionConfigComponent } from '../components/QuestionConfig';
+import { QUESTION_CONFIG, getTotalQuestions } from '../config/api';
+import type { QuestionConfig } from '../config/api';
 
 interface UploadedFile {
   id: string;
@@ -10,23 +12,11 @@ interface UploadedFile {
   category: 'image' | 'document' | 'unsupported';
 }
 
-interface QuestionConfig {
-  mcqs: number;
-  fillInBlanks: number;
-  trueFalse: number;
-  shortType: number;
-  longType: number;
-}
-
 const EnhancedDemoPage: React.FC = () => {
   const [prompt, setPrompt] = useState('');
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [questionConfig, setQuestionConfig] = useState<QuestionConfig>({
-    mcqs: 5,
-    fillInBlanks: 5,
-    trueFalse: 5,
-    shortType: 3,
-    longType: 2,
+    ...QUESTION_CONFIG.DEFAULT,
   });
   const [generatedQuestions, setGeneratedQuestions] = useState<any>(null);
   const [extractedContent, setExtractedContent] = useState<any[]>([]);
@@ -60,7 +50,7 @@ const EnhancedDemoPage: React.FC = () => {
   };
 
   const canGenerate = files.length > 0 || prompt.trim().length > 0;
-  const totalQuestions = Object.values(questionConfig).reduce((sum, count) => sum + count, 0);
+  const totalQuestions = getTotalQuestions(questionConfig);
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
@@ -1,16 +1,52 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/router';
-import useSessionStore, { Question, UserAnswer } from '../../store/useSessionStore';
+import useSessionStore, { Question, QuestionGrade, SectionTiming, SessionAnalysis, UserAnswer } from '../../store/useSessionStore';
 import { IoIosOptions } from 'react-icons/io';
 import { IoColorFillOutline } from 'react-icons/io5';
 import { SiTruenas } from 'react-icons/si';
 import { TiDocumentText } from 'react-icons/ti';
 import { MdOutlineFeedback } from 'react-icons/md';
-import { FiHome, FiSave, FiRefreshCw, FiCheckCircle, FiAlertCircle } from 'react-icons/fi';
+import { FiHome, FiSave, FiRefreshCw, FiCheckCircle, FiAlertCircle, FiXCircle, FiAlertTriangle, FiCopy, FiTrendingUp, FiClock, FiArrowRight } from 'react-icons/fi';
 import Markdown from 'react-markdown';
 import Link from 'next/link';
 import axios from 'axios';
 import toast from 'react-hot-toast';
+import { API_ENDPOINTS, getTotalQuestions } from '../../config/api';
+import useCreditsStore from '../../store/useCreditsStore';
+import { gradeObjectiveAnswers } from '../../utils/grading';
+import type { ObjectiveGradingResult } from '../../utils/grading';
+import { scoreSession, toPercentage } from '../../utils/scoring';
+import type { DuplicateMatch } from '../../utils/similarity';
+import { DEFAULT_ADAPTIVE_LENGTH, startAdaptive, targetDifficulty } from '../../utils/adaptive';
+import type { AdaptiveStep } from '../../utils/adaptive';
+import AdaptiveQuiz from '../../components/AdaptiveQuiz';
+import {
+    currentSection,
+    formatDuration,
+    isLastSection,
+    nextSection,
+    remainingSeconds,
+    sectionRemainingSeconds,
+    startExam,
+    submitExam,
+    summarizeTiming
+} from '../../utils/examTimer';
+import type { ExamSettings, ExamState } from '../../utils/examTimer';
+import ExamSetup from '../../components/ExamSetup';
+
+const TYPE_LABELS: Record<Question['type'], string> = {
+    mcq: 'Multiple choice',
+    fill: 'Fill in the blanks',
+    true_false: 'True/False',
+    short: 'Short answer',
+    long: 'Long answer'
+};
+
+const formatObjectiveSummary = (subtotals: ObjectiveGradingResult['subtotals']) => {
+    return Object.entries(subtotals)
+        .map(([type, subtotal]) => `- **${TYPE_LABELS[type as Question['type']]}:** ${subtotal!.correct}/${subtotal!.total} correct`)
+        .join('\n');
+};
 
 export default function InteractiveSession() {
     const router = useRouter();
@@ -21,18 +57,41 @@ export default function InteractiveSession() {
         saveAnswer,
         markSessionCompleted,
         saveAnalysis,
+        setAnswerGrades,
+        setAdaptiveState,
+        setExamState,
         currentSession,
         setCurrentSession,
         sessions,
         isHydrated,
-        refreshSession
+        refreshSession,
+        loadSessionFromServer
     } = useSessionStore();
+    const { getApiKey } = useCreditsStore();
 
     const [session, setSession] = useState<any>(null);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
     const [showResults, setShowResults] = useState(false);
     const [isLoading, setIsLoading] = useState(true);
     const [sessionNotFound, setSessionNotFound] = useState(false);
+    const [showExamSetup, setShowExamSetup] = useState(false);
+    const [now, setNow] = useState(() => Date.now());
+
+    // Time on a question runs from the previous answer change, or from when the page opened or
+    // the exam or section started
+    const lastActivityRef = useRef(Date.now());
+    const examTickRef = useRef<() => void>();
+    const examRunning = Boolean(session?.exam && !session.exam.submittedAt);
+
+    useEffect(() => {
+        if (!examRunning) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [examRunning]);
+
+    useEffect(() => {
+        examTickRef.current?.();
+    }, [now]);
 
     // Simplified session loading effect
     useEffect(() => {
@@ -61,34 +120,23 @@ export default function InteractiveSession() {
                 setShowResults(true);
             }
         } else {
-            // Fallback: Try to load from localStorage directly
-            try {
-                const storedData = localStorage.getItem('eduquest-sessions');
-                if (storedData) {
-                    const parsedData = JSON.parse(storedData);
-                    const storedSessions = parsedData?.state?.sessions || [];
-                    const foundStoredSession = storedSessions.find((s: any) => s.id === id);
+            // Not stored locally: the session may have been created on another linked device
+            loadSessionFromServer(id).then((remoteSession) => {
+                if (remoteSession) {
+                    setSession(remoteSession);
+                    setCurrentSession(id);
+                    setSessionNotFound(false);
                     
-                    if (foundStoredSession) {
-                        setSession(foundStoredSession);
-                        setCurrentSession(id);
-                        setIsLoading(false);
-                        setSessionNotFound(false);
-                        
-                        if (foundStoredSession.analysis && foundStoredSession.isCompleted) {
-                            setShowResults(true);
-                        }
-                        return;
+                    if (remoteSession.analysis && remoteSession.isCompleted) {
+                        setShowResults(true);
                     }
+                } else {
+                    setSessionNotFound(true);
                 }
-            } catch (error) {
-                console.error('Error loading from localStorage:', error);
-            }
-            
-            setIsLoading(false);
-            setSessionNotFound(true);
+                setIsLoading(false);
+            });
         }
-    }, [sessionId, router.query.uuid, isHydrated, getSessionById, setCurrentSession]);
+    }, [sessionId, router.query.uuid, isHydrated, getSessionById, setCurrentSession, loadSessionFromServer]);
 
     // Re-sync session when store updates
     useEffect(() => {
@@ -96,9 +144,12 @@ export default function InteractiveSession() {
             const updatedSession = getSessionById(session.id);
             if (updatedSession) {
                 setSession(updatedSession);
+            } else if (currentSession && currentSession.id !== session.id) {
+                // Given a new id because the old one belongs to another sync key on the server
+                router.replace(`/interactive/${currentSession.id}`);
             }
         }
-    }, [sessions, session?.id, getSessionById, isHydrated]);
+    }, [sessions, session?.id, getSessionById, isHydrated, currentSession, router]);
 
     // Loading state
     if (isLoading) {
@@ -168,11 +219,27 @@ export default function InteractiveSession() {
     const shortQuestions = session.questions.filter((q: Question) => q.type === 'short');
     const longQuestions = session.questions.filter((q: Question) => q.type === 'long');
 
+    // In adaptive mode only the questions actually served are scored
+    const servedIds = new Set((session.adaptive?.path || []).map((step: AdaptiveStep) => step.questionId));
+    const scoredQuestions: Question[] = session.adaptive
+        ? session.questions.filter((q: Question) => servedIds.has(q.id))
+        : session.questions;
+
+    const answersLocked = Boolean(session.exam?.submittedAt);
+
     const handleAnswerChange = (questionId: string, answer: string | boolean) => {
+        if (answersLocked) return;
         console.log('Saving answer for question:', questionId, 'Answer:', answer);
         
+        let timeSpentMs: number | undefined;
+        if (session.exam) {
+            const changedAt = Date.now();
+            timeSpentMs = changedAt - lastActivityRef.current;
+            lastActivityRef.current = changedAt;
+        }
+
         // Save to store
-        saveAnswer(questionId, answer);
+        saveAnswer(questionId, answer, timeSpentMs);
         
         // Immediately update local session state to ensure UI reactivity
         setSession((prevSession: any) => {
@@ -202,38 +269,71 @@ export default function InteractiveSession() {
         return answer;
     };
 
-    const handleAnalyze = async () => {
+    const handleAnalyze = async (autoSubmitted = false) => {
         setIsAnalyzing(true);
+
+        // Submitting an exam locks its answers, even if grading fails below
+        let exam: ExamState | undefined = session.exam;
+        if (exam && !exam.submittedAt) {
+            exam = submitExam(exam, autoSubmitted);
+            setExamState(session.id, exam);
+        }
         
         try {
-            // Prepare data for analysis
-            const shortAnswers = shortQuestions.map((q: Question) => ({
-                question: q.question,
-                answer: getUserAnswer(q.id) || ''
-            }));
-            
-            const longAnswers = longQuestions.map((q: Question) => ({
-                question: q.question,
-                answer: getUserAnswer(q.id) || ''
-            }));
+            // Objective answers are graded locally; only written answers go to the model
+            const { grades, subtotals } = gradeObjectiveAnswers(scoredQuestions, session.userAnswers);
+            setAnswerGrades(session.id, grades);
 
-            console.log('Sending for analysis:', { shortAnswers, longAnswers });
+            let feedback = formatObjectiveSummary(subtotals);
+            let questionGrades: QuestionGrade[] | undefined;
 
-            const response = await axios.post('/api/analyze-answers', {
-                shortQuestions: shortAnswers,
-                longQuestions: longAnswers
-            });
+            if (session.adaptive) {
+                feedback += `\n- **Ability estimate:** ${session.adaptive.ability.toFixed(2)} (${targetDifficulty(session.adaptive.ability)} level)`;
+            } else if (shortQuestions.length > 0 || longQuestions.length > 0) {
+                const toWrittenAnswer = (q: Question) => ({
+                    id: q.id,
+                    question: q.question,
+                    answer: String(getUserAnswer(q.id) || ''),
+                    referenceAnswer: q.answer,
+                    points: q.points
+                });
 
-            const feedback = response.data.feedback;
-            const scoreMatch = feedback.match(/(\d+)/);
-            const score = scoreMatch ? parseInt(scoreMatch[0]) : 0;
+                // Grade with the model the quiz was generated with, and the user's own key if they set one
+                const apiKey = getApiKey();
+                const response = await axios.post(API_ENDPOINTS.ANALYZE_ANSWERS, {
+                    shortQuestions: shortQuestions.map(toWrittenAnswer),
+                    longQuestions: longQuestions.map(toWrittenAnswer),
+                    model: session.model
+                }, {
+                    headers: apiKey ? { 'x-api-key': apiKey } : undefined
+                });
 
-            const analysis = {
+                questionGrades = response.data.grades as QuestionGrade[];
+                feedback = feedback ? `${feedback}\n\n${response.data.feedback}` : response.data.feedback;
+            }
+
+            const { score, maxScore, percentage, breakdown } = scoreSession(
+                scoredQuestions,
+                session.userAnswers,
+                questionGrades
+            );
+            const written = [breakdown.short, breakdown.long].filter(Boolean);
+
+            const analysis: SessionAnalysis = {
                 score,
-                totalQuestions: session.questions.length,
-                percentage: Math.round((score / session.questions.length) * 100),
+                maxScore,
+                totalQuestions: scoredQuestions.length,
+                percentage,
                 feedback,
-                accuracyScore: score,
+                accuracyScore: toPercentage(
+                    written.reduce((sum, entry) => sum + entry!.points, 0),
+                    written.reduce((sum, entry) => sum + entry!.maxPoints, 0)
+                ),
+                breakdown,
+                questionGrades,
+                timing: exam
+                    ? summarizeTiming(scoredQuestions, getSessionById(session.id)?.userAnswers || session.userAnswers, exam)
+                    : undefined,
                 timestamp: new Date()
             };
 
@@ -259,6 +359,112 @@ export default function InteractiveSession() {
         setIsAnalyzing(false);
     };
 
+    const handleStartExam = (settings: ExamSettings) => {
+        lastActivityRef.current = Date.now();
+        setExamState(session.id, startExam(session.questions, settings));
+        setShowExamSetup(false);
+    };
+
+    const goToNextSection = () => {
+        lastActivityRef.current = Date.now();
+        setExamState(session.id, nextSection(session.exam));
+    };
+
+    // Runs every second during an exam: submits when time is up, and moves on when a section's time is up
+    examTickRef.current = () => {
+        const exam: ExamState | undefined = session.exam;
+        if (!exam || exam.submittedAt || isAnalyzing) return;
+
+        const sectionLeft = sectionRemainingSeconds(exam, now);
+        if (remainingSeconds(exam, now) === 0 || (sectionLeft === 0 && isLastSection(exam))) {
+            toast('Time is up. Your answers have been submitted.', { icon: '⏰' });
+            handleAnalyze(true);
+        } else if (sectionLeft === 0) {
+            toast('Time is up for this section.', { icon: '⏰' });
+            goToNextSection();
+        }
+    };
+
+    // While a sequential exam runs, only its current section is shown
+    const activeSection = session.exam && !session.exam.submittedAt ? currentSection(session.exam) : null;
+    const showSection = (type: Question['type']) => !activeSection || activeSection === type;
+
+    // Time spent on a question, once a timed exam has been graded
+    const renderTime = (question: Question) => {
+        const seconds = session.analysis?.timing?.questions[question.id];
+        if (seconds === undefined) {
+            return null;
+        }
+
+        return (
+            <p className="ml-6 mt-3 flex items-center gap-2 text-sm text-gray-400">
+                <FiClock size={14} /> Time spent: {formatDuration(seconds)}
+            </p>
+        );
+    };
+
+    // After grading, show whether each objective answer was right and what was expected
+    const renderGrade = (question: Question) => {
+        const userAnswer = session.userAnswers.find((answer: UserAnswer) => answer.questionId === question.id);
+        if (!session.analysis || !userAnswer || userAnswer.isCorrect === undefined) {
+            return null;
+        }
+
+        return userAnswer.isCorrect ? (
+            <p className="ml-6 mt-3 flex items-center gap-2 text-sm text-green-400">
+                <FiCheckCircle size={16} /> Correct
+            </p>
+        ) : (
+            <p className="ml-6 mt-3 flex items-center gap-2 text-sm text-red-400">
+                <FiXCircle size={16} /> Incorrect. Expected answer: {question.answer}
+            </p>
+        );
+    };
+
+    // Where a question generated from uploaded material came from, so it can be checked
+    const renderSource = (question: Question) => {
+        if (!question.source) {
+            return null;
+        }
+
+        const { file, page, quote, verified } = question.source;
+        const location = page ? `page ${page}` : question.chunk !== undefined ? `part ${question.chunk + 1}` : null;
+
+        return (
+            <details className="ml-6 mt-3 text-sm">
+                <summary className="cursor-pointer text-gray-400 hover:text-gray-200">Source</summary>
+                <div className="mt-2 border-l-2 border-gray-600 pl-3">
+                    <p className="text-gray-400">{file}{location ? `, ${location}` : ''}</p>
+                    <blockquote className="italic text-gray-300">&ldquo;{quote}&rdquo;</blockquote>
+                    {!verified && (
+                        <p className="mt-1 flex items-center gap-2 text-yellow-400">
+                            <FiAlertTriangle size={14} /> This passage could not be found in the uploaded material
+                        </p>
+                    )}
+                </div>
+            </details>
+        );
+    };
+
+    // A question close to one in another session is kept, with a pointer to the earlier one
+    const renderDuplicateNote = (question: Question) => {
+        if (!question.duplicateOf) {
+            return null;
+        }
+
+        const earlier = sessions.find((s) => s.id === question.duplicateOf!.sessionId);
+        return (
+            <p className="ml-6 mt-3 flex items-center gap-2 text-sm text-gray-400">
+                <FiCopy size={14} />
+                Similar to a question in{' '}
+                {earlier ? (
+                    <Link href={`/interactive/${earlier.id}`} className="text-blue-400 hover:underline">{earlier.name}</Link>
+                ) : 'a deleted session'}
+                {' '}({Math.round(question.duplicateOf.similarity * 100)}% overlap)
+            </p>
+        );
+    };
+
     const isQuestionAnswered = (questionId: string) => {
         const answered = session.userAnswers.some((answer: UserAnswer) => answer.questionId === questionId);
         console.log('Question', questionId, 'answered:', answered);
@@ -266,6 +472,9 @@ export default function InteractiveSession() {
     };
 
     const getProgressPercentage = () => {
+        if (session.adaptive) {
+            return Math.round((session.adaptive.path.length / session.adaptive.length) * 100);
+        }
         const percentage = Math.round((session.userAnswers.length / session.questions.length) * 100);
         console.log('Progress:', session.userAnswers.length, '/', session.questions.length, '=', percentage + '%');
         return percentage;
@@ -283,9 +492,53 @@ export default function InteractiveSession() {
                         <p className="text-gray-400">{session.topic} • {session.questions.length} questions</p>
                     </div>
                     <div className="flex items-center gap-4">
+                        {session.exam && !session.exam.submittedAt && (
+                            <div className="flex items-center gap-3 text-sm">
+                                <span className={`flex items-center gap-2 font-mono text-lg ${remainingSeconds(session.exam, now) <= 60 ? 'text-red-400' : 'text-blue-300'}`}>
+                                    <FiClock size={16} />
+                                    {formatDuration(remainingSeconds(session.exam, now))}
+                                </span>
+                                {sectionRemainingSeconds(session.exam, now) !== null && (
+                                    <span className="text-gray-400">
+                                        Section: {formatDuration(sectionRemainingSeconds(session.exam, now)!)}
+                                    </span>
+                                )}
+                            </div>
+                        )}
+                        {!session.isCompleted && session.userAnswers.length === 0 && !session.adaptive && !session.exam && (
+                            <button
+                                onClick={() => setShowExamSetup(!showExamSetup)}
+                                className={`flex items-center gap-2 px-3 py-2 rounded-lg ${
+                                    showExamSetup ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'
+                                }`}
+                                title="Answer against the clock"
+                            >
+                                <FiClock size={16} />
+                                Timed exam
+                            </button>
+                        )}
+                        {!session.isCompleted && session.userAnswers.length === 0 && !session.exam && !showExamSetup && (
+                            <button
+                                onClick={() => setAdaptiveState(
+                                    session.id,
+                                    session.adaptive ? undefined : startAdaptive(session.config?.difficulty, DEFAULT_ADAPTIVE_LENGTH)
+                                )}
+                                className={`flex items-center gap-2 px-3 py-2 rounded-lg ${
+                                    session.adaptive ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'
+                                }`}
+                                title="Serve one question at a time, matched to how well you are doing"
+                            >
+                                <FiTrendingUp size={16} />
+                                Adaptive mode
+                            </button>
+                        )}
                         <div className="text-sm">
                             <span className="text-gray-400">Progress: </span>
-                            <span className="text-blue-400">{session.userAnswers.length}/{session.questions.length}</span>
+                            <span className="text-blue-400">
+                                {session.adaptive
+                                    ? `${session.adaptive.path.length}/${session.adaptive.length}`
+                                    : `${session.userAnswers.length}/${session.questions.length}`}
+                            </span>
                             <span className="text-gray-400"> ({getProgressPercentage()}%)</span>
                         </div>
                         <Link href="/" className="flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg">
@@ -306,15 +559,122 @@ export default function InteractiveSession() {
 
             {/* Content */}
             <div className="container mx-auto p-6">
+                {session.isGenerating && (
+                    <div className="mb-6 flex items-center gap-3 rounded-lg border border-blue-500/40 bg-blue-900/20 p-4 text-blue-200">
+                        <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-300 border-t-transparent"></div>
+                        <span>
+                            Generating more questions... {session.questions.length}
+                            {session.config ? ` of ${getTotalQuestions(session.config)}` : ''} ready. You can start answering now.
+                        </span>
+                    </div>
+                )}
+
                 {showResults && session.analysis ? (
                     /* Results Section */
                     <div className="bg-[#1F2329] rounded-lg p-6">
                         <div className="text-center mb-6">
                             <FiCheckCircle size={64} className="text-green-500 mx-auto mb-4" />
                             <h2 className="text-3xl font-bold mb-2">Quiz Completed!</h2>
-                            <p className="text-gray-400">Your score: {session.analysis.percentage}%</p>
+                            <p className="text-gray-400">
+                                Your score: {session.analysis.percentage}% ({session.analysis.score}/{session.analysis.maxScore} points)
+                            </p>
                         </div>
-                        
+
+                        {session.analysis.breakdown && Object.keys(session.analysis.breakdown).length > 0 && (
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                                {Object.entries(session.analysis.breakdown).map(([type, entry]: [string, any]) => (
+                                    <div key={type} className="bg-[#13151A] rounded-lg p-4 text-center">
+                                        <p className="text-gray-400 text-sm">{TYPE_LABELS[type as Question['type']]}</p>
+                                        <p className="text-2xl font-bold">{entry.points}/{entry.maxPoints} pts</p>
+                                        {entry.correct !== undefined && (
+                                            <p className="text-gray-400 text-sm">{entry.correct}/{entry.questions} correct</p>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {session.analysis.timing && (
+                            <div className="bg-[#13151A] rounded-lg p-4 mb-6">
+                                <h3 className="text-xl font-semibold mb-1">Time</h3>
+                                <p className="text-gray-400 text-sm mb-3">
+                                    {formatDuration(session.analysis.timing.timeUsed)} of {formatDuration(session.analysis.timing.timeLimit)} used
+                                    {session.analysis.timing.autoSubmitted && ' · submitted automatically when time ran out'}
+                                </p>
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                                    {Object.entries(session.analysis.timing.sections).map(([type, section]) => (
+                                        <div key={type} className="bg-gray-800 rounded p-2 text-sm">
+                                            <span className="text-gray-400">{TYPE_LABELS[type as Question['type']]}: </span>
+                                            <span>{formatDuration((section as SectionTiming).timeUsed)}</span>
+                                            {(section as SectionTiming).timeLimit !== undefined && (
+                                                <span className="text-gray-400"> / {formatDuration((section as SectionTiming).timeLimit!)}</span>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {session.adaptive && session.adaptive.path.length > 0 && (
+                            <div className="bg-[#13151A] rounded-lg p-4 mb-6">
+                                <h3 className="text-xl font-semibold mb-1">Adaptive Path</h3>
+                                <p className="text-gray-400 text-sm mb-3">
+                                    Final ability estimate: {session.adaptive.ability.toFixed(2)} ({targetDifficulty(session.adaptive.ability)} level)
+                                </p>
+                                <ol className="space-y-2">
+                                    {session.adaptive.path.map((step: AdaptiveStep, index: number) => (
+                                        <li key={step.questionId} className="flex items-start gap-3 text-sm">
+                                            <span className="text-blue-400 font-bold">{index + 1}.</span>
+                                            {step.correct
+                                                ? <FiCheckCircle className="text-green-500 shrink-0 mt-0.5" size={16} />
+                                                : <FiXCircle className="text-red-500 shrink-0 mt-0.5" size={16} />}
+                                            <span className="flex-1 text-gray-300">
+                                                {session.questions.find((q: Question) => q.id === step.questionId)?.question}
+                                            </span>
+                                            <span className="text-gray-400 whitespace-nowrap">{step.difficulty} · {step.ability.toFixed(2)}</span>
+                                        </li>
+                                    ))}
+                                </ol>
+                            </div>
+                        )}
+
+                        {session.analysis.questionGrades && session.analysis.questionGrades.length > 0 && (
+                            <div className="bg-[#13151A] rounded-lg p-4 mb-6">
+                                <h3 className="text-xl font-semibold mb-3">Written Answers</h3>
+                                <div className="space-y-4">
+                                    {session.analysis.questionGrades.map((grade: QuestionGrade) => (
+                                        <div key={grade.questionId} className="border border-gray-700 rounded-lg p-4">
+                                            <div className="flex items-start justify-between gap-4 mb-3">
+                                                <p className="font-semibold text-[#9ca0d2]">
+                                                    {session.questions.find((q: Question) => q.id === grade.questionId)?.question}
+                                                </p>
+                                                <span className="text-lg font-bold whitespace-nowrap">{grade.score}/{grade.maxPoints}</span>
+                                            </div>
+                                            <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-3">
+                                                {grade.criteria.map((criterion) => (
+                                                    <div key={criterion.criterion} className="bg-gray-800 rounded p-2 text-sm" title={criterion.comment}>
+                                                        <span className="text-gray-400">{criterion.criterion}: </span>
+                                                        <span>{criterion.score}/{criterion.maxPoints}</span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                            <p className="text-gray-300 text-sm">{grade.feedback}</p>
+                                            {grade.missingKeyPoints.length > 0 && (
+                                                <div className="mt-2 text-sm">
+                                                    <p className="text-yellow-400">Missing key points:</p>
+                                                    <ul className="list-disc ml-6 text-gray-300">
+                                                        {grade.missingKeyPoints.map((point, index) => (
+                                                            <li key={index}>{point}</li>
+                                                        ))}
+                                                    </ul>
+                                                </div>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                         <div className="bg-[#13151A] rounded-lg p-4 mb-6">
                             <h3 className="text-xl font-semibold mb-3">AI Feedback</h3>
                             <Markdown className="text-gray-300">{session.analysis.feedback}</Markdown>
@@ -332,11 +692,40 @@ export default function InteractiveSession() {
                             </button>
                         </div>
                     </div>
+                ) : showExamSetup && !session.exam ? (
+                    <ExamSetup
+                        questions={session.questions}
+                        onStart={handleStartExam}
+                        onCancel={() => setShowExamSetup(false)}
+                    />
+                ) : session.adaptive ? (
+                    <AdaptiveQuiz
+                        session={session}
+                        adaptive={session.adaptive}
+                        isAnalyzing={isAnalyzing}
+                        onFinish={handleAnalyze}
+                    />
                 ) : (
                     /* Questions Section */
                     <div className="space-y-8">
+                        {session.duplicatesRemoved?.length > 0 && (
+                            <details className="bg-[#1F2329] rounded-lg p-4 text-sm text-gray-300">
+                                <summary className="cursor-pointer">
+                                    {session.duplicatesRemoved.length} near-duplicate question{session.duplicatesRemoved.length === 1 ? ' was' : 's were'} removed
+                                </summary>
+                                <ul className="mt-3 space-y-2">
+                                    {session.duplicatesRemoved.map((duplicate: DuplicateMatch, index: number) => (
+                                        <li key={index}>
+                                            <p>{duplicate.question}</p>
+                                            <p className="text-gray-500">Repeats: {duplicate.duplicateOf} ({Math.round(duplicate.similarity * 100)}% overlap)</p>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </details>
+                        )}
+
                         {/* MCQ Section */}
-                        {mcqQuestions.length > 0 && (
+                        {mcqQuestions.length > 0 && showSection('mcq') && (
                             <div className="bg-[#1F2329] rounded-lg p-6">
                                 <div className="flex items-center gap-3 text-2xl mb-6">
                                     <IoIosOptions />
@@ -360,19 +749,24 @@ export default function InteractiveSession() {
                                                         value={option}
                                                         checked={getUserAnswer(mcq.id) === option}
                                                         onChange={(e) => handleAnswerChange(mcq.id, e.target.value)}
+                                                        disabled={answersLocked}
                                                         className="w-4 h-4 text-blue-600"
                                                     />
                                                     <span className="text-gray-200">{option}</span>
                                                 </label>
                                             ))}
                                         </div>
+                                        {renderGrade(mcq)}
+                                        {renderSource(mcq)}
+                                        {renderTime(mcq)}
+                                        {renderDuplicateNote(mcq)}
                                     </div>
                                 ))}
                             </div>
                         )}
 
                         {/* Fill in the Blanks Section */}
-                        {fillQuestions.length > 0 && (
+                        {fillQuestions.length > 0 && showSection('fill') && (
                             <div className="bg-[#1F2329] rounded-lg p-6">
                                 <div className="flex items-center gap-3 text-2xl mb-6">
                                     <IoColorFillOutline />
@@ -388,6 +782,7 @@ export default function InteractiveSession() {
                                                     type="text"
                                                     value={getUserAnswer(fill.id) || ''}
                                                     onChange={(e) => handleAnswerChange(fill.id, e.target.value)}
+                                                    disabled={answersLocked}
                                                     placeholder="Enter your answer..."
                                                     className="w-full p-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:border-blue-500 focus:outline-none transition-colors"
                                                 />
@@ -396,13 +791,17 @@ export default function InteractiveSession() {
                                                 <FiCheckCircle className="text-green-500" size={20} />
                                             )}
                                         </div>
+                                        {renderGrade(fill)}
+                                        {renderSource(fill)}
+                                        {renderTime(fill)}
+                                        {renderDuplicateNote(fill)}
                                     </div>
                                 ))}
                             </div>
                         )}
 
                         {/* True/False Section */}
-                        {trueFalseQuestions.length > 0 && (
+                        {trueFalseQuestions.length > 0 && showSection('true_false') && (
                             <div className="bg-[#1F2329] rounded-lg p-6">
                                 <div className="flex items-center gap-3 text-2xl mb-6">
                                     <SiTruenas />
@@ -424,6 +823,7 @@ export default function InteractiveSession() {
                                                     name={`tf-${tf.id}`}
                                                     checked={getUserAnswer(tf.id) === true}
                                                     onChange={() => handleAnswerChange(tf.id, true)}
+                                                    disabled={answersLocked}
                                                     className="w-4 h-4 text-blue-600"
                                                 />
                                                 <span className="text-green-400">True</span>
@@ -434,18 +834,23 @@ export default function InteractiveSession() {
                                                     name={`tf-${tf.id}`}
                                                     checked={getUserAnswer(tf.id) === false}
                                                     onChange={() => handleAnswerChange(tf.id, false)}
+                                                    disabled={answersLocked}
                                                     className="w-4 h-4 text-blue-600"
                                                 />
                                                 <span className="text-red-400">False</span>
                                             </label>
                                         </div>
+                                        {renderGrade(tf)}
+                                        {renderSource(tf)}
+                                        {renderTime(tf)}
+                                        {renderDuplicateNote(tf)}
                                     </div>
                                 ))}
                             </div>
                         )}
 
                         {/* Short Answer Section */}
-                        {shortQuestions.length > 0 && (
+                        {shortQuestions.length > 0 && showSection('short') && (
                             <div className="bg-[#1F2329] rounded-lg p-6">
                                 <div className="flex items-center gap-3 text-2xl mb-6">
                                     <TiDocumentText />
@@ -460,6 +865,7 @@ export default function InteractiveSession() {
                                                 <textarea
                                                     value={getUserAnswer(short.id) || ''}
                                                     onChange={(e) => handleAnswerChange(short.id, e.target.value)}
+                                                    disabled={answersLocked}
                                                     placeholder="Enter your short answer..."
                                                     rows={3}
                                                     className="w-full p-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:border-blue-500 focus:outline-none resize-none transition-colors"
@@ -469,13 +875,16 @@ export default function InteractiveSession() {
                                                 <FiCheckCircle className="text-green-500" size={20} />
                                             )}
                                         </div>
+                                        {renderSource(short)}
+                                        {renderTime(short)}
+                                        {renderDuplicateNote(short)}
                                     </div>
                                 ))}
                             </div>
                         )}
 
                         {/* Long Answer Section */}
-                        {longQuestions.length > 0 && (
+                        {longQuestions.length > 0 && showSection('long') && (
                             <div className="bg-[#1F2329] rounded-lg p-6">
                                 <div className="flex items-center gap-3 text-2xl mb-6">
                                     <MdOutlineFeedback />
@@ -490,6 +899,7 @@ export default function InteractiveSession() {
                                                 <textarea
                                                     value={getUserAnswer(long.id) || ''}
                                                     onChange={(e) => handleAnswerChange(long.id, e.target.value)}
+                                                    disabled={answersLocked}
                                                     placeholder="Enter your detailed answer..."
                                                     rows={6}
                                                     className="w-full p-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:border-blue-500 focus:outline-none resize-none transition-colors"
@@ -499,6 +909,9 @@ export default function InteractiveSession() {
                                                 <FiCheckCircle className="text-green-500" size={20} />
                                             )}
                                         </div>
+                                        {renderSource(long)}
+                                        {renderTime(long)}
+                                        {renderDuplicateNote(long)}
                                     </div>
                                 ))}
                             </div>
@@ -506,33 +919,56 @@ export default function InteractiveSession() {
 
                         {/* Submit Button */}
                         <div className="text-center">
-                            <button
-                                onClick={handleAnalyze}
-                                disabled={isAnalyzing || session.userAnswers.length === 0}
-                                className={`px-8 py-4 font-semibold rounded-lg transition-colors flex items-center gap-3 mx-auto ${
-                                    allQuestionsAnswered
-                                        ? 'bg-green-600 hover:bg-green-700 text-white'
-                                        : session.userAnswers.length > 0
-                                        ? 'bg-yellow-600 hover:bg-yellow-700 text-white'
-                                        : 'bg-gray-600 cursor-not-allowed text-gray-400'
-                                } ${isAnalyzing ? 'opacity-50 cursor-not-allowed' : ''}`}
-                            >
-                                {isAnalyzing ? (
-                                    <>
-                                        <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent"></div>
-                                        Analyzing Answers...
-                                    </>
-                                ) : (
-                                    <>
-                                        <FiSave size={20} />
-                                        {allQuestionsAnswered 
-                                            ? `Submit Complete Quiz (${session.userAnswers.length}/${session.questions.length})`
-                                            : `Submit Partial Quiz (${session.userAnswers.length}/${session.questions.length} answered)`
-                                        }
-                                    </>
-                                )}
-                            </button>
-                            {!allQuestionsAnswered && session.userAnswers.length > 0 && (
+                            {activeSection && !isLastSection(session.exam) ? (
+                                <button
+                                    onClick={goToNextSection}
+                                    className="px-8 py-4 font-semibold rounded-lg transition-colors flex items-center gap-3 mx-auto bg-blue-600 hover:bg-blue-700 text-white"
+                                >
+                                    Next section
+                                    <FiArrowRight size={20} />
+                                </button>
+                            ) : answersLocked && session.analysis ? (
+                                <button
+                                    onClick={() => setShowResults(true)}
+                                    className="px-8 py-4 font-semibold rounded-lg transition-colors flex items-center gap-3 mx-auto bg-blue-600 hover:bg-blue-700 text-white"
+                                >
+                                    <FiCheckCircle size={20} />
+                                    Back to Results
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={() => handleAnalyze()}
+                                    disabled={isAnalyzing || session.isGenerating || session.userAnswers.length === 0}
+                                    className={`px-8 py-4 font-semibold rounded-lg transition-colors flex items-center gap-3 mx-auto ${
+                                        allQuestionsAnswered
+                                            ? 'bg-green-600 hover:bg-green-700 text-white'
+                                            : session.userAnswers.length > 0
+                                            ? 'bg-yellow-600 hover:bg-yellow-700 text-white'
+                                            : 'bg-gray-600 cursor-not-allowed text-gray-400'
+                                    } ${isAnalyzing ? 'opacity-50 cursor-not-allowed' : ''}`}
+                                >
+                                    {isAnalyzing ? (
+                                        <>
+                                            <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent"></div>
+                                            Analyzing Answers...
+                                        </>
+                                    ) : (
+                                        <>
+                                            <FiSave size={20} />
+                                            {allQuestionsAnswered 
+                                                ? `Submit Complete Quiz (${session.userAnswers.length}/${session.questions.length})`
+                                                : `Submit Partial Quiz (${session.userAnswers.length}/${session.questions.length} answered)`
+                                            }
+                                        </>
+                                    )}
+                                </button>
+                            )}
+                            {session.isGenerating && (
+                                <p className="text-sm text-blue-300 mt-2">
+                                    You can submit once all questions have arrived.
+                                </p>
+                            )}
+                            {!session.isGenerating && !allQuestionsAnswered && session.userAnswers.length > 0 && (
                                 <p className="text-sm text-yellow-400 mt-2">
                                     You can submit now, but consider answering all questions for a complete analysis.
                                 </p>
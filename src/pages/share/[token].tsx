@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { FiAlertCircle, FiCheckCircle, FiClock, FiHome, FiXCircle } from 'react-icons/fi';
+import { API_ENDPOINTS, SESSION_QUESTION_TYPES } from '../../config/api';
+import type { QuestionType } from '../../config/api';
+import useCreditsStore from '../../store/useCreditsStore';
+import type { PublicQuestion, PublicQuiz, QuestionResult } from '../../utils/quizShare';
+
+const TYPE_LABELS: Record<QuestionType, string> = {
+    mcq: 'Multiple Choice Questions',
+    fill: 'Fill in the Blanks',
+    true_false: 'True/False Questions',
+    short: 'Short Answer Questions',
+    long: 'Long Answer Questions'
+};
+
+interface SubmissionResult {
+    score: number;
+    maxScore: number;
+    percentage: number;
+    results: QuestionResult[];
+}
+
+const inputClass = 'w-full p-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:border-blue-500 focus:outline-none transition-colors';
+
+/**
+ * A quiz shared by link. The page only ever receives the questions; answers are graded by the
+ * server, which returns points per question without the answer key.
+ */
+export default function SharedQuiz() {
+    const router = useRouter();
+    const { token } = router.query;
+    const { getApiKey } = useCreditsStore();
+
+    const [quiz, setQuiz] = useState<PublicQuiz | null>(null);
+    const [notFound, setNotFound] = useState(false);
+    const [takerName, setTakerName] = useState('');
+    const [answers, setAnswers] = useState<Record<string, string | boolean>>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [result, setResult] = useState<SubmissionResult | null>(null);
+
+    useEffect(() => {
+        if (typeof token !== 'string') return;
+
+        axios.get(`${API_ENDPOINTS.SHARE}/${encodeURIComponent(token)}`)
+            .then((response) => setQuiz(response.data.data))
+            .catch(() => setNotFound(true));
+    }, [token]);
+
+    const setAnswer = (questionId: string, answer: string | boolean) => {
+        setAnswers((current) => ({ ...current, [questionId]: answer }));
+    };
+
+    const handleSubmit = async () => {
+        if (!quiz) return;
+
+        const unanswered = quiz.questions.filter((question) => answers[question.id] === undefined || answers[question.id] === '').length;
+        if (unanswered > 0 && !window.confirm(`${unanswered} questions are unanswered. Submit anyway?`)) {
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            // A taker's own key grades written answers that would otherwise wait for the owner
+            const apiKey = getApiKey();
+            const response = await axios.post(`${API_ENDPOINTS.SHARE}/${encodeURIComponent(quiz.token)}/submissions`, {
+                takerName: takerName.trim() || undefined,
+                answers,
+            }, {
+                headers: apiKey ? { 'x-api-key': apiKey } : undefined,
+            });
+            setResult(response.data.data);
+            window.scrollTo({ top: 0, behavior: 'smooth' });
+        } catch (error) {
+            const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+            toast.error(message || 'Failed to submit your answers');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (notFound) {
+        return (
+            <div className="min-h-screen bg-[#13151A] text-white flex items-center justify-center">
+                <div className="text-center max-w-md mx-auto p-6">
+                    <FiAlertCircle size={64} className="text-red-500 mx-auto mb-6" />
+                    <h1 className="text-2xl font-bold mb-4">Quiz Not Found</h1>
+                    <p className="text-gray-400 mb-6">
+                        This link doesn't work anymore. The quiz may have been unshared.
+                    </p>
+                    <Link
+                        href="/"
+                        className="inline-flex px-6 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg items-center gap-2 transition-colors"
+                    >
+                        <FiHome size={16} />
+                        Go to EduQuest
+                    </Link>
+                </div>
+            </div>
+        );
+    }
+
+    if (!quiz) {
+        return (
+            <div className="min-h-screen bg-[#13151A] text-white flex items-center justify-center">
+                <div className="animate-spin rounded-full h-16 w-16 border-2 border-white border-t-transparent"></div>
+            </div>
+        );
+    }
+
+    const resultFor = (questionId: string) => result?.results.find((entry) => entry.questionId === questionId);
+
+    const renderResult = (question: PublicQuestion) => {
+        const entry = resultFor(question.id);
+        if (!entry) return null;
+
+        if (entry.pending) {
+            return (
+                <p className="mt-3 ml-6 flex items-center gap-2 text-sm text-yellow-400">
+                    <FiClock /> Waiting for the quiz owner to grade this answer
+                </p>
+            );
+        }
+        const full = entry.points >= entry.maxPoints;
+        return (
+            <div className={`mt-3 ml-6 text-sm ${full ? 'text-green-400' : entry.points > 0 ? 'text-yellow-400' : 'text-red-400'}`}>
+                <p className="flex items-center gap-2">
+                    {full ? <FiCheckCircle /> : <FiXCircle />}
+                    {entry.points}/{entry.maxPoints} points
+                </p>
+                {entry.feedback && <p className="mt-1 text-gray-300">{entry.feedback}</p>}
+            </div>
+        );
+    };
+
+    const renderInput = (question: PublicQuestion) => {
+        const answer = answers[question.id];
+        const locked = Boolean(result);
+
+        switch (question.type) {
+            case 'mcq':
+                return (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 ml-6">
+                        {question.options?.map((option, optionIndex) => (
+                            <label key={optionIndex} className="flex items-center gap-3 p-3 bg-gray-700 hover:bg-gray-600 rounded-lg cursor-pointer transition-colors">
+                                <input
+                                    type="radio"
+                                    name={`mcq-${question.id}`}
+                                    checked={answer === option}
+                                    onChange={() => setAnswer(question.id, option)}
+                                    disabled={locked}
+                                    className="w-4 h-4 text-blue-600"
+                                />
+                                <span className="text-gray-200">{option}</span>
+                            </label>
+                        ))}
+                    </div>
+                );
+
+            case 'true_false':
+                return (
+                    <div className="flex gap-4 ml-6">
+                        {[true, false].map((value) => (
+                            <label key={String(value)} className="flex items-center gap-2 p-3 bg-gray-700 hover:bg-gray-600 rounded-lg cursor-pointer transition-colors">
+                                <input
+                                    type="radio"
+                                    name={`tf-${question.id}`}
+                                    checked={answer === value}
+                                    onChange={() => setAnswer(question.id, value)}
+                                    disabled={locked}
+                                    className="w-4 h-4 text-blue-600"
+                                />
+                                <span className={value ? 'text-green-400' : 'text-red-400'}>{value ? 'True' : 'False'}</span>
+                            </label>
+                        ))}
+                    </div>
+                );
+
+            case 'fill':
+                return (
+                    <input
+                        type="text"
+                        value={typeof answer === 'string' ? answer : ''}
+                        onChange={(e) => setAnswer(question.id, e.target.value)}
+                        disabled={locked}
+                        placeholder="Enter your answer..."
+                        className={`${inputClass} ml-6`}
+                    />
+                );
+
+            default:
+                return (
+                    <textarea
+                        value={typeof answer === 'string' ? answer : ''}
+                        onChange={(e) => setAnswer(question.id, e.target.value)}
+                        disabled={locked}
+                        placeholder={question.type === 'long' ? 'Write your detailed answer...' : 'Enter your short answer...'}
+                        rows={question.type === 'long' ? 8 : 3}
+                        className={`${inputClass} ml-6 resize-none`}
+                    />
+                );
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-[#13151A] text-white">
+            <div className="bg-[#1F2329] border-b border-gray-700 p-4">
+                <div className="max-w-4xl mx-auto">
+                    <h1 className="text-2xl font-bold">{quiz.name}</h1>
+                    {quiz.topic && <p className="text-sm text-gray-400">{quiz.topic}</p>}
+                </div>
+            </div>
+
+            <div className="max-w-4xl mx-auto p-6 space-y-6">
+                {result ? (
+                    <div className="bg-[#1F2329] rounded-lg p-6 text-center">
+                        <p className="text-sm text-gray-400 mb-2">Your score</p>
+                        <p className="text-4xl font-bold text-blue-400">{result.percentage}%</p>
+                        <p className="text-gray-300 mt-2">{result.score} of {result.maxScore} points</p>
+                        {result.results.some((entry) => entry.pending) && (
+                            <p className="text-sm text-yellow-400 mt-3">
+                                Some written answers still need grading, so your final score may be higher.
+                            </p>
+                        )}
+                    </div>
+                ) : (
+                    <div className="bg-[#1F2329] rounded-lg p-6">
+                        <label className="block text-sm text-gray-400 mb-2">Your name (optional)</label>
+                        <input
+                            type="text"
+                            value={takerName}
+                            onChange={(e) => setTakerName(e.target.value)}
+                            maxLength={100}
+                            placeholder="So the quiz owner knows who submitted"
+                            className={inputClass}
+                        />
+                    </div>
+                )}
+
+                {SESSION_QUESTION_TYPES.map((type) => {
+                    const questions = quiz.questions.filter((question) => question.type === type);
+                    if (questions.length === 0) return null;
+
+                    return (
+                        <div key={type} className="bg-[#1F2329] rounded-lg p-6">
+                            <h3 className="text-2xl font-bold mb-6">{TYPE_LABELS[type]}</h3>
+                            {questions.map((question, index) => (
+                                <div key={question.id} className="mb-6 p-4 bg-[#13151A] rounded-lg">
+                                    <div className="flex items-start gap-3 mb-4">
+                                        <span className="text-blue-400 font-bold">{index + 1}.</span>
+                                        <p className="font-bold text-[#9ca0d2] flex-1">{question.question}</p>
+                                        <span className="text-xs text-gray-500">{question.points} pts</span>
+                                    </div>
+                                    {renderInput(question)}
+                                    {renderResult(question)}
+                                </div>
+                            ))}
+                        </div>
+                    );
+                })}
+
+                {!result && (
+                    <div className="flex justify-end">
+                        <button
+                            onClick={handleSubmit}
+                            disabled={isSubmitting}
+                            className="px-6 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {isSubmitting ? 'Grading...' : 'Submit answers'}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
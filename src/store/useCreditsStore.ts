@@ -1,6 +1,8 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import axios from 'axios';
+import { createMigrate, createPersistStorage } from '../utils/persistence';
+import type { Migration } from '../utils/persistence';
 
 interface CreditsState {
   credits: number;
@@ -25,6 +27,14 @@ interface CreditsState {
   setHydrated: (hydrated: boolean) => void;
 }
 
+const CREDITS_MIGRATIONS: Migration[] = [
+  // 0 -> 1: unversioned state; only trust a usable key
+  (state) => {
+    const localApiKey = typeof state.localApiKey === 'string' && state.localApiKey.trim() ? state.localApiKey : null;
+    return { localApiKey, usingLocalKey: localApiKey !== null && state.usingLocalKey !== false };
+  },
+];
+
 const useCreditsStore = create<CreditsState>()(
   persist(
     (set, get) => ({
@@ -166,6 +176,9 @@ const useCreditsStore = create<CreditsState>()(
     }),
     {
       name: 'eduquest-credits',
+      version: CREDITS_MIGRATIONS.length,
+      storage: createPersistStorage(),
+      migrate: createMigrate(CREDITS_MIGRATIONS),
       // Only persist API key data, not credits (credits are server-side)
       partialize: (state) => ({
         localApiKey: state.localApiKey,
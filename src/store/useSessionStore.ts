@@ -1,14 +1,44 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { QUESTION_CONFIG } from '../config/api';
+import type { BloomLevel, Difficulty, QuestionConfig, QuestionType } from '../config/api';
+import { migrateSessionAnalysis } from '../utils/scoring';
+import { createQuestionId, isStableQuestionId, migrateQuestionIds, reassignQuestionIds } from '../utils/questionIds';
+import { createMigrate, createPersistStorage, quarantineEntry } from '../utils/persistence';
+import type { Migration } from '../utils/persistence';
+import { QUESTION_TYPES } from '../utils/questionSchema';
+import { createDuplicateIndex } from '../utils/similarity';
+import { buildReviewSchedule, getDueReviews } from '../utils/spacedRepetition';
+import type { AdaptiveState } from '../utils/adaptive';
+import type { ArchiveError, ArchivedSession, ConflictStrategy } from '../utils/sessionArchive';
+import type { ExamState } from '../utils/examTimer';
+import type { DuplicateMatch } from '../utils/similarity';
+
+// Passage in the uploaded material a question was drawn from
+export interface QuestionSource {
+  file: string;
+  page?: number;
+  quote: string;
+  verified?: boolean; // The quote was found in the extracted text
+}
 
 export interface Question {
   id: string;
   question: string;
-  type: 'mcq' | 'fill' | 'true_false' | 'short' | 'long';
+  type: QuestionType;
   options?: string[];
   answer: string;
+  acceptedAnswers?: string[]; // Other spellings or synonyms accepted for fill-in-the-blank answers
   explanation?: string;
   points?: number;
+  difficulty?: Difficulty;
+  bloomLevel?: BloomLevel;
+  chunk?: number; // Chunk of the uploaded material the question was generated from
+  source?: QuestionSource;
+  // Near-duplicate of a question in another session, kept but flagged
+  duplicateOf?: { sessionId: string; questionId: string; similarity: number };
 }
 
 export interface UserAnswer {
@@ -16,14 +46,57 @@ export interface UserAnswer {
   answer: string | boolean;
   isCorrect?: boolean;
   timestamp: Date;
+  timeSpentMs?: number; // Time spent on the question in a timed exam
 }
 
-export interface SessionAnalysis {
+export interface CriterionScore {
+  criterion: string;
+  score: number;
+  maxPoints: number;
+  comment?: string;
+}
+
+// Rubric grade for a short or long answer, from /api/analyze-answers
+export interface QuestionGrade {
+  questionId: string;
   score: number;
+  maxPoints: number;
+  criteria: CriterionScore[];
+  feedback: string;
+  missingKeyPoints: string[];
+}
+
+export interface TypeBreakdown {
+  questions: number;
+  correct?: number; // Auto-graded objective types only
+  points: number;
+  maxPoints: number;
+}
+
+export interface SectionTiming {
+  timeUsed: number;     // Seconds
+  timeLimit?: number;   // Seconds, where the section had its own limit
+}
+
+// Time data of a timed exam
+export interface SessionTiming {
+  timeLimit: number;    // Seconds for the whole exam
+  timeUsed: number;     // Seconds from start to submission
+  autoSubmitted: boolean;
+  sections: Partial<Record<QuestionType, SectionTiming>>;
+  questions: Record<string, number>; // Seconds per question, keyed by question id
+}
+
+export interface SessionAnalysis {
+  score: number;        // Points earned, each question weighted by its points
+  maxScore: number;     // Points available
   totalQuestions: number;
-  percentage: number;
+  percentage: number;   // score / maxScore, 0-100
   feedback: string;
-  accuracyScore: number;
+  accuracyScore: number; // Percentage of the written-answer points earned
+  breakdown: Partial<Record<Question['type'], TypeBreakdown>>;
+  questionGrades?: QuestionGrade[]; // Rubric breakdown for short and long answers
+  timing?: SessionTiming;
   timestamp: Date;
 }
 
@@ -38,35 +111,55 @@ export interface QuizSession {
   isCompleted: boolean;
   analysis?: SessionAnalysis;
   topic: string;
-  config: {
-    mcqs: number;
-    fillInBlanks: number;
-    trueFalse: number;
-    shortType: number;
-    longType: number;
-  };
+  config: QuestionConfig;
+  model?: string;         // Model picked when generating ("provider/model"); written answers are graded with it
+  isGenerating?: boolean; // Questions are still streaming in
+  duplicatesRemoved?: DuplicateMatch[]; // Near-duplicates within the session dropped when questions were added
+  kind?: 'review';        // Built from questions due for spaced-repetition review
+  adaptive?: AdaptiveState; // Adaptive mode: ability estimate and the questions served so far
+  exam?: ExamState;         // Timed exam mode: limits, progress through the sections and submission
+}
+
+// Outcome of restoring sessions from a backup archive
+export interface SessionImportSummary {
+  added: number;
+  overwritten: number;
+  duplicated: number;
+  skipped: number;
+  errors: ArchiveError[];   // Sessions that could not be migrated to the current shape
 }
 
 interface SessionState {
   sessions: QuizSession[];
   currentSession: QuizSession | null;
   isHydrated: boolean;
+  syncKey: string | null;   // Scopes this browser's sessions on the server; share it to link a device
+  syncedIds: string[];      // Sessions that have reached the server, to tell remote deletes from local creates
+  dirtyIds: string[];       // Sessions changed locally since their last successful save
+  lastSyncedAt: Date | null;
   
   // Session Management
-  createSession: (name: string, topic: string, questions: any, config: any) => string;
+  createSession: (name: string, topic: string, questions: any, config: any, model?: string) => string;
   updateSessionName: (sessionId: string, name: string) => void;
   deleteSession: (sessionId: string) => void;
   setCurrentSession: (sessionId: string) => void;
   refreshSession: (sessionId: string) => QuizSession | null;
+  createReviewSession: (limit?: number) => string | null;
+  importSessions: (sessions: ArchivedSession[], conflict: ConflictStrategy) => SessionImportSummary;
+  appendQuestions: (sessionId: string, questions: any) => void;
+  setSessionGenerating: (sessionId: string, isGenerating: boolean) => void;
+  setAdaptiveState: (sessionId: string, adaptive: AdaptiveState | undefined) => void;
+  setExamState: (sessionId: string, exam: ExamState | undefined) => void;
   
   // Progress Management
-  saveAnswer: (questionId: string, answer: string | boolean) => void;
+  saveAnswer: (questionId: string, answer: string | boolean, timeSpentMs?: number) => void;
   clearAnswers: (sessionId: string) => void;
   markSessionCompleted: (sessionId: string) => void;
   resetSession: (sessionId: string) => void;
   
   // Analysis
   saveAnalysis: (sessionId: string, analysis: SessionAnalysis) => void;
+  setAnswerGrades: (sessionId: string, grades: Record<string, boolean>) => void;
   
   // Utilities
   getRecentSessions: (limit?: number) => QuizSession[];
@@ -74,11 +167,45 @@ interface SessionState {
   getCompletedSessions: () => QuizSession[];
   getIncompleteSessions: () => QuizSession[];
   
+  // Server sync
+  getSyncKey: () => string;
+  setSyncKey: (syncKey: string) => Promise<void>;
+  syncWithServer: () => Promise<void>;
+  loadSessionFromServer: (sessionId: string) => Promise<QuizSession | null>;
+  
   // Hydration
   setHydrated: (hydrated: boolean) => void;
 }
 
-// Helper function to convert old format to new format
+const SESSIONS_ENDPOINT = '/api/sessions';
+
+// Answers are saved on every keystroke, so pushes are batched per session
+const PUSH_DELAY_MS = 1000;
+const pendingPushes = new Map<string, ReturnType<typeof setTimeout>>();
+
+// Set while applying server data, so the change listener does not echo it back
+let applyingRemote = false;
+
+const toDate = (value: any) => (value ? new Date(value) : value);
+
+// The server stores JSON, so dates come back as strings. Sessions saved by older clients are
+// migrated the same way as local ones.
+const reviveSession = ({ ownerId, updatedAt, ...session }: any): QuizSession => migrateQuestionIds(migrateSessionAnalysis({
+  ...session,
+  createdAt: toDate(session.createdAt),
+  lastAccessed: toDate(session.lastAccessed),
+  userAnswers: (session.userAnswers || []).map((answer: any) => ({ ...answer, timestamp: toDate(answer.timestamp) })),
+  analysis: session.analysis && { ...session.analysis, timestamp: toDate(session.analysis.timestamp) },
+  exam: session.exam && {
+    ...session.exam,
+    startedAt: toDate(session.exam.startedAt),
+    sectionStartedAt: toDate(session.exam.sectionStartedAt),
+    submittedAt: toDate(session.exam.submittedAt),
+  },
+}));
+
+// Helper function to convert old format to new format.
+// Questions keep the ID they were generated with; ones without get a new UUID.
 const convertQuestionsFormat = (data: any): Question[] => {
   console.log('convertQuestionsFormat received data:', data);
   const questions: Question[] = [];
@@ -86,14 +213,19 @@ const convertQuestionsFormat = (data: any): Question[] => {
   // Convert MCQs
   if (data.mcqs) {
     console.log('Converting MCQs:', data.mcqs.length, 'questions');
-    data.mcqs.forEach((mcq: any, index: number) => {
+    data.mcqs.forEach((mcq: any) => {
       questions.push({
-        id: `mcq_${index}`,
+        id: isStableQuestionId(mcq.id) ? mcq.id : createQuestionId(),
         question: mcq.question,
         type: 'mcq',
         options: mcq.options,
         answer: mcq.answer,
         explanation: mcq.explanation,
+        points: mcq.points,
+        difficulty: mcq.difficulty,
+        bloomLevel: mcq.bloomLevel,
+        chunk: mcq.chunk,
+        source: mcq.source,
       });
     });
   }
@@ -101,13 +233,19 @@ const convertQuestionsFormat = (data: any): Question[] => {
   // Convert Fill in blanks
   if (data.fill_in_the_blanks) {
     console.log('Converting Fill-in-blanks:', data.fill_in_the_blanks.length, 'questions');
-    data.fill_in_the_blanks.forEach((fill: any, index: number) => {
+    data.fill_in_the_blanks.forEach((fill: any) => {
       questions.push({
-        id: `fill_${index}`,
+        id: isStableQuestionId(fill.id) ? fill.id : createQuestionId(),
         question: fill.question,
         type: 'fill',
         answer: fill.answer,
+        acceptedAnswers: fill.acceptedAnswers,
         explanation: fill.explanation,
+        points: fill.points,
+        difficulty: fill.difficulty,
+        bloomLevel: fill.bloomLevel,
+        chunk: fill.chunk,
+        source: fill.source,
       });
     });
   }
@@ -115,13 +253,18 @@ const convertQuestionsFormat = (data: any): Question[] => {
   // Convert True/False
   if (data.true_false) {
     console.log('Converting True/False:', data.true_false.length, 'questions');
-    data.true_false.forEach((tf: any, index: number) => {
+    data.true_false.forEach((tf: any) => {
       questions.push({
-        id: `tf_${index}`,
+        id: isStableQuestionId(tf.id) ? tf.id : createQuestionId(),
         question: tf.question,
         type: 'true_false',
         answer: tf.answer.toString(),
         explanation: tf.explanation,
+        points: tf.points,
+        difficulty: tf.difficulty,
+        bloomLevel: tf.bloomLevel,
+        chunk: tf.chunk,
+        source: tf.source,
       });
     });
   }
@@ -129,13 +272,18 @@ const convertQuestionsFormat = (data: any): Question[] => {
   // Convert Short Type
   if (data.short_type) {
     console.log('Converting Short Type:', data.short_type.length, 'questions');
-    data.short_type.forEach((short: any, index: number) => {
+    data.short_type.forEach((short: any) => {
       questions.push({
-        id: `short_${index}`,
+        id: isStableQuestionId(short.id) ? short.id : createQuestionId(),
         question: short.question,
         type: 'short',
         answer: short.answer,
+        explanation: short.explanation,
         points: short.points,
+        difficulty: short.difficulty,
+        bloomLevel: short.bloomLevel,
+        chunk: short.chunk,
+        source: short.source,
       });
     });
   }
@@ -143,13 +291,18 @@ const convertQuestionsFormat = (data: any): Question[] => {
   // Convert Long Type
   if (data.long_type) {
     console.log('Converting Long Type:', data.long_type.length, 'questions');
-    data.long_type.forEach((long: any, index: number) => {
+    data.long_type.forEach((long: any) => {
       questions.push({
-        id: `long_${index}`,
+        id: isStableQuestionId(long.id) ? long.id : createQuestionId(),
         question: long.question,
         type: 'long',
         answer: long.answer,
+        explanation: long.explanation,
         points: long.points,
+        difficulty: long.difficulty,
+        bloomLevel: long.bloomLevel,
+        chunk: long.chunk,
+        source: long.source,
       });
     });
   }
@@ -158,28 +311,118 @@ const convertQuestionsFormat = (data: any): Question[] => {
   return questions;
 };
 
+/**
+ * Add questions to a session's list. A near-duplicate of a question already in the session is
+ * dropped and reported; one that repeats a question in another session is kept and flagged,
+ * unless it is the same question (same ID) reused from the question bank.
+ */
+const mergeQuestions = (existing: Question[], incoming: Question[], otherSessions: QuizSession[]) => {
+  const inSession = createDuplicateIndex<Question>();
+  existing.forEach((question) => inSession.add(question.type, question, question));
+
+  const incomingIds = new Set(incoming.map((question) => question.id));
+  const elsewhere = createDuplicateIndex<{ sessionId: string; questionId: string }>();
+  otherSessions.forEach((session) => session.questions.forEach((question) => {
+    if (incomingIds.has(question.id)) return;
+    elsewhere.add(question.type, question, { sessionId: session.id, questionId: question.id });
+  }));
+
+  const questions = [...existing];
+  const removed: DuplicateMatch[] = [];
+
+  for (const question of incoming) {
+    const repeat = inSession.find(question.type, question);
+    if (repeat) {
+      removed.push({ question: question.question, duplicateOf: repeat.value.question, similarity: repeat.similarity });
+      continue;
+    }
+
+    inSession.add(question.type, question, question);
+    const earlier = elsewhere.find(question.type, question);
+    questions.push(earlier ? { ...question, duplicateOf: { ...earlier.value, similarity: earlier.similarity } } : question);
+  }
+
+  return { questions, removed };
+};
+
+const SESSIONS_STORE = 'eduquest-sessions';
+
+const isValidDate = (value: unknown) => value instanceof Date && !isNaN(value.getTime());
+
+// Enough structure for the app to render and grade the session
+const isLoadableSession = (session: any): session is QuizSession => {
+  return Boolean(session)
+    && typeof session.id === 'string'
+    && Array.isArray(session.questions)
+    && session.questions.every((question: any) => question && typeof question.id === 'string' && typeof question.type === 'string')
+    && Array.isArray(session.userAnswers)
+    && isValidDate(session.createdAt)
+    && isValidDate(session.lastAccessed);
+};
+
+/**
+ * Apply `update` to each loadable session; sessions that are not loadable, or that `update`
+ * throws on, are quarantined and dropped
+ */
+const mapLoadableSessions = (sessions: unknown, update: (session: QuizSession) => QuizSession = (session) => session) => {
+  if (!Array.isArray(sessions)) return [];
+
+  return sessions.flatMap((session) => {
+    if (!isLoadableSession(session)) {
+      quarantineEntry(SESSIONS_STORE, 'Session is missing required fields', session);
+      return [];
+    }
+    try {
+      return [update(session)];
+    } catch (error) {
+      quarantineEntry(SESSIONS_STORE, `Session could not be migrated (${error instanceof Error ? error.message : 'error'})`, session);
+      return [];
+    }
+  });
+};
+
+const SESSION_MIGRATIONS: Migration[] = [
+  // 0 -> 1: isHydrated was persisted, and analyses predate points-weighted scoring
+  ({ isHydrated, ...state }) => ({
+    ...state,
+    sessions: mapLoadableSessions(state.sessions, migrateSessionAnalysis),
+  }),
+  // 1 -> 2: questions were numbered per type within a session ("mcq_0") instead of having UUIDs
+  (state) => ({
+    ...state,
+    sessions: mapLoadableSessions(state.sessions, migrateQuestionIds),
+  }),
+];
+
 const useSessionStore = create<SessionState>()(
   persist(
     (set, get) => ({
       sessions: [],
       currentSession: null,
       isHydrated: false,
+      syncKey: null,
+      syncedIds: [],
+      dirtyIds: [],
+      lastSyncedAt: null,
       
-      createSession: (name: string, topic: string, questions: any, config: any) => {
+      createSession: (name: string, topic: string, questions: any, config: any, model?: string) => {
         const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         const now = new Date();
+        const merged = mergeQuestions([], convertQuestionsFormat(questions), get().sessions);
         
         const newSession: QuizSession = {
           id: sessionId,
           name: name || `Quiz on ${topic}`,
           description: `Assessment on ${topic}`,
-          questions: convertQuestionsFormat(questions),
+          questions: merged.questions,
+          duplicatesRemoved: merged.removed,
           userAnswers: [],
           createdAt: now,
           lastAccessed: now,
           isCompleted: false,
           topic,
           config,
+          ...(model ? { model } : {}),
         };
         
         set((state) => ({
@@ -190,6 +433,100 @@ const useSessionStore = create<SessionState>()(
         return sessionId;
       },
       
+      createReviewSession: (limit = 20) => {
+        const { sessions } = get();
+        // Questions already waiting in an unfinished review are left for that review
+        const pending = new Set(sessions
+          .filter((session) => session.kind === 'review' && !session.isCompleted)
+          .flatMap((session) => session.questions.map((question) => question.id)));
+        const due = getDueReviews(buildReviewSchedule(sessions))
+          .filter((review) => !pending.has(review.questionId))
+          .slice(0, limit);
+        if (due.length === 0) return null;
+
+        const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const now = new Date();
+        const questions = due.map((review) => {
+          const { duplicateOf: _duplicateOf, ...question } = review.question;
+          return question;
+        });
+        const topics = Array.from(new Set(due.map((review) => sessions.find((s) => s.id === review.sessionId)?.topic).filter(Boolean)));
+
+        const newSession: QuizSession = {
+          id: sessionId,
+          name: `Review: ${questions.length} due questions`,
+          description: `Spaced-repetition review${topics.length ? ` of ${topics.join(', ')}` : ''}`,
+          questions,
+          userAnswers: [],
+          createdAt: now,
+          lastAccessed: now,
+          isCompleted: false,
+          topic: topics.length === 1 ? topics[0]! : 'Review',
+          config: {
+            ...QUESTION_CONFIG.DEFAULT,
+            ...Object.fromEntries(QUESTION_TYPES.map(({ configKey, type }) => [configKey, questions.filter((q) => q.type === type).length])),
+          },
+          kind: 'review',
+        };
+
+        set((state) => ({
+          sessions: [newSession, ...state.sessions],
+          currentSession: newSession,
+        }));
+
+        return sessionId;
+      },
+      
+      // Archived sessions are revived and migrated like sessions loaded from the server. A session
+      // whose ID is taken is skipped, replaces the existing one, or is added as a copy with a new ID.
+      importSessions: (archived: ArchivedSession[], conflict: ConflictStrategy) => {
+        const summary: SessionImportSummary = { added: 0, overwritten: 0, duplicated: 0, skipped: 0, errors: [] };
+        const byId = new Map(get().sessions.map((session) => [session.id, session]));
+        
+        archived.forEach((entry, index) => {
+          let session: QuizSession;
+          try {
+            session = reviveSession(entry);
+          } catch (error) {
+            summary.errors.push({
+              location: `Session ${index + 1} (${entry.name})`,
+              message: `Could not be migrated (${error instanceof Error ? error.message : 'error'})`,
+            });
+            return;
+          }
+          
+          if (!byId.has(session.id)) {
+            summary.added++;
+          } else if (conflict === 'skip') {
+            summary.skipped++;
+            return;
+          } else if (conflict === 'overwrite') {
+            summary.overwritten++;
+          } else {
+            // New question IDs too, so the copy's answers are not replayed as reviews of the original's questions
+            session = reassignQuestionIds({
+              ...session,
+              id: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+              name: `${session.name} (copy)`,
+            });
+            summary.duplicated++;
+          }
+          byId.set(session.id, session);
+        });
+        
+        const sessions = Array.from(byId.values()).sort(
+          (a, b) => new Date(b.lastAccessed).getTime() - new Date(a.lastAccessed).getTime()
+        );
+        set((state) => ({
+          sessions,
+          currentSession: state.currentSession
+            ? sessions.find((session) => session.id === state.currentSession!.id) ?? null
+            : null,
+        }));
+        
+        return summary;
+      },
+      
       updateSessionName: (sessionId: string, name: string) => {
         set((state) => ({
           sessions: state.sessions.map((session) =>
@@ -218,19 +555,25 @@ const useSessionStore = create<SessionState>()(
         }
       },
       
-      saveAnswer: (questionId: string, answer: string | boolean) => {
+      saveAnswer: (questionId: string, answer: string | boolean, timeSpentMs?: number) => {
         set((state) => {
           if (!state.currentSession) return state;
+          // A submitted exam's answers are locked
+          if (state.currentSession.exam?.submittedAt) return state;
           
           const existingAnswerIndex = state.currentSession.userAnswers.findIndex(
             (a) => a.questionId === questionId
           );
+          const previousTime = state.currentSession.userAnswers[existingAnswerIndex]?.timeSpentMs;
           
           const newAnswer: UserAnswer = {
             questionId,
             answer,
             timestamp: new Date(),
           };
+          if (timeSpentMs !== undefined || previousTime !== undefined) {
+            newAnswer.timeSpentMs = (previousTime || 0) + (timeSpentMs || 0);
+          }
           
           const updatedAnswers = [...state.currentSession.userAnswers];
           if (existingAnswerIndex >= 0) {
@@ -258,12 +601,12 @@ const useSessionStore = create<SessionState>()(
         set((state) => ({
           sessions: state.sessions.map((session) =>
             session.id === sessionId
-              ? { ...session, userAnswers: [], isCompleted: false, analysis: undefined }
+              ? { ...session, userAnswers: [], isCompleted: false, analysis: undefined, adaptive: undefined, exam: undefined }
               : session
           ),
           currentSession:
             state.currentSession?.id === sessionId
-              ? { ...state.currentSession, userAnswers: [], isCompleted: false, analysis: undefined }
+              ? { ...state.currentSession, userAnswers: [], isCompleted: false, analysis: undefined, adaptive: undefined, exam: undefined }
               : state.currentSession,
         }));
       },
@@ -295,7 +638,28 @@ const useSessionStore = create<SessionState>()(
               : state.currentSession,
         }));
       },
-      
+
+      setAnswerGrades: (sessionId: string, grades: Record<string, boolean>) => {
+        const applyGrades = (session: QuizSession): QuizSession => ({
+          ...session,
+          userAnswers: session.userAnswers.map((userAnswer) =>
+            userAnswer.questionId in grades
+              ? { ...userAnswer, isCorrect: grades[userAnswer.questionId] }
+              : userAnswer
+          ),
+        });
+
+        set((state) => ({
+          sessions: state.sessions.map((session) =>
+            session.id === sessionId ? applyGrades(session) : session
+          ),
+          currentSession:
+            state.currentSession?.id === sessionId
+              ? applyGrades(state.currentSession)
+              : state.currentSession,
+        }));
+      },
+
       getRecentSessions: (limit = 5) => {
         return get()
           .sessions
@@ -330,6 +694,142 @@ const useSessionStore = create<SessionState>()(
         return null;
       },
       
+      appendQuestions: (sessionId: string, questions: any) => {
+        const otherSessions = get().sessions.filter((session) => session.id !== sessionId);
+        const append = (session: QuizSession): QuizSession => {
+          const merged = mergeQuestions(session.questions, convertQuestionsFormat(questions), otherSessions);
+          return {
+            ...session,
+            questions: merged.questions,
+            duplicatesRemoved: [...(session.duplicatesRemoved || []), ...merged.removed],
+          };
+        };
+
+        set((state) => ({
+          sessions: state.sessions.map((session) =>
+            session.id === sessionId ? append(session) : session
+          ),
+          currentSession:
+            state.currentSession?.id === sessionId
+              ? append(state.currentSession)
+              : state.currentSession,
+        }));
+      },
+      
+      setSessionGenerating: (sessionId: string, isGenerating: boolean) => {
+        set((state) => ({
+          sessions: state.sessions.map((session) =>
+            session.id === sessionId ? { ...session, isGenerating } : session
+          ),
+          currentSession:
+            state.currentSession?.id === sessionId
+              ? { ...state.currentSession, isGenerating }
+              : state.currentSession,
+        }));
+      },
+      
+      setAdaptiveState: (sessionId: string, adaptive: AdaptiveState | undefined) => {
+        set((state) => ({
+          sessions: state.sessions.map((session) =>
+            session.id === sessionId ? { ...session, adaptive } : session
+          ),
+          currentSession:
+            state.currentSession?.id === sessionId
+              ? { ...state.currentSession, adaptive }
+              : state.currentSession,
+        }));
+      },
+      
+      setExamState: (sessionId: string, exam: ExamState | undefined) => {
+        set((state) => ({
+          sessions: state.sessions.map((session) =>
+            session.id === sessionId ? { ...session, exam } : session
+          ),
+          currentSession:
+            state.currentSession?.id === sessionId
+              ? { ...state.currentSession, exam }
+              : state.currentSession,
+        }));
+      },
+      
+      getSyncKey: () => {
+        let { syncKey } = get();
+        if (!syncKey) {
+          syncKey = uuidv4();
+          set({ syncKey });
+        }
+        return syncKey;
+      },
+      
+      setSyncKey: async (syncKey: string) => {
+        // Local sessions are pushed into the linked key's space on the next sync
+        set({ syncKey, syncedIds: [] });
+        await get().syncWithServer();
+      },
+      
+      syncWithServer: async () => {
+        const headers = { 'x-sync-key': get().getSyncKey() };
+        
+        try {
+          await flushPendingPushes();
+          const response = await axios.get(SESSIONS_ENDPOINT, { headers });
+          if (!response.data.success) return;
+          
+          const remote: QuizSession[] = response.data.data.map(reviveSession);
+          const remoteIds = new Set(remote.map((session) => session.id));
+          const { sessions, syncedIds, dirtyIds, currentSession } = get();
+          
+          // Unsaved local changes win. A clean, previously synced session missing from
+          // the server was deleted on another device.
+          const keepLocal = sessions.filter((session) =>
+            dirtyIds.includes(session.id) || (!remoteIds.has(session.id) && !syncedIds.includes(session.id))
+          );
+          const keepLocalIds = new Set(keepLocal.map((session) => session.id));
+          const merged = [...remote.filter((session) => !keepLocalIds.has(session.id)), ...keepLocal].sort(
+            (a, b) => new Date(b.lastAccessed).getTime() - new Date(a.lastAccessed).getTime()
+          );
+          
+          applyingRemote = true;
+          set({
+            sessions: merged,
+            currentSession: currentSession
+              ? merged.find((session) => session.id === currentSession.id) ?? null
+              : null,
+            syncedIds: Array.from(remoteIds),
+            lastSyncedAt: new Date(),
+          });
+          applyingRemote = false;
+          
+          await Promise.all(keepLocal.map((session) => pushSession(session.id)));
+          console.log(`Synced sessions: ${remote.length} from server, ${keepLocal.length} uploaded`);
+        } catch (error) {
+          applyingRemote = false;
+          console.error('Failed to sync sessions with server:', error);
+        }
+      },
+      
+      loadSessionFromServer: async (sessionId: string) => {
+        try {
+          const response = await axios.get(`${SESSIONS_ENDPOINT}/${encodeURIComponent(sessionId)}`, {
+            headers: { 'x-sync-key': get().getSyncKey() },
+          });
+          if (!response.data.success) return null;
+          
+          const session = reviveSession(response.data.data);
+          applyingRemote = true;
+          set((state) => ({
+            sessions: [session, ...state.sessions.filter((s) => s.id !== session.id)],
+            syncedIds: Array.from(new Set([...state.syncedIds, session.id])),
+          }));
+          applyingRemote = false;
+          return session;
+        } catch (error) {
+          applyingRemote = false;
+          console.error(`Failed to load session ${sessionId} from server:`, error);
+          return null;
+        }
+      },
+      
       setHydrated: (hydrated: boolean) => {
         set((state) => ({
           isHydrated: hydrated,
@@ -337,7 +837,33 @@ const useSessionStore = create<SessionState>()(
       },
     }),
     {
-      name: 'eduquest-sessions',
+      name: SESSIONS_STORE,
+      version: SESSION_MIGRATIONS.length,
+      storage: createPersistStorage(),
+      migrate: createMigrate(SESSION_MIGRATIONS),
+      // A generation stream does not survive a reload, so the flag is never persisted
+      partialize: (state) => ({
+        ...state,
+        sessions: state.sessions.map((session) => ({ ...session, isGenerating: undefined })),
+        currentSession: state.currentSession && { ...state.currentSession, isGenerating: undefined },
+      }),
+      // Loading must not be taken for local edits, so isHydrated starts false. The current
+      // session is looked up again so it is the same object as its entry in `sessions`.
+      merge: (persisted, current) => {
+        const state = (persisted || {}) as Partial<SessionState>;
+        const sessions = mapLoadableSessions(state.sessions ?? current.sessions);
+        const currentId = state.currentSession?.id;
+        return {
+          ...current,
+          ...state,
+          sessions,
+          currentSession: sessions.find((session) => session.id === currentId) ?? null,
+          syncedIds: Array.isArray(state.syncedIds) ? state.syncedIds : [],
+          dirtyIds: Array.isArray(state.dirtyIds) ? state.dirtyIds : [],
+          lastSyncedAt: isValidDate(state.lastSyncedAt) ? state.lastSyncedAt! : null,
+          isHydrated: false,
+        };
+      },
       onRehydrateStorage: () => (state, error) => {
         if (error) {
           console.log('Error rehydrating sessions store:', error);
@@ -346,6 +872,8 @@ const useSessionStore = create<SessionState>()(
           if (state) {
             state.setHydrated(true);
             console.log('Rehydrated sessions count:', state.sessions.length);
+            // localStorage hydrates while the store is still being created, before the push helpers below exist
+            setTimeout(() => state.syncWithServer(), 0);
           }
         }
       },
@@ -353,4 +881,109 @@ const useSessionStore = create<SessionState>()(
   )
 );
 
+const pushSession = async (sessionId: string) => {
+  const { sessions, getSyncKey } = useSessionStore.getState();
+  const session = sessions.find((s) => s.id === sessionId);
+  if (!session) return;
+  
+  try {
+    // An open generation stream only exists in this tab
+    await axios.put(`${SESSIONS_ENDPOINT}/${encodeURIComponent(sessionId)}`, { ...session, isGenerating: undefined }, {
+      headers: { 'x-sync-key': getSyncKey() },
+    });
+    
+    useSessionStore.setState((state) => {
+      // Still dirty if it changed again while the request was in flight
+      const unchanged = state.sessions.find((s) => s.id === sessionId) === session;
+      return {
+        syncedIds: state.syncedIds.includes(sessionId) ? state.syncedIds : [...state.syncedIds, sessionId],
+        dirtyIds: unchanged ? state.dirtyIds.filter((id) => id !== sessionId) : state.dirtyIds,
+      };
+    });
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 409) {
+      rekeySession(sessionId);
+      return;
+    }
+    console.error(`Failed to save session ${sessionId} to server:`, error);
+  }
+};
+
+// The server keeps the id for another sync key, e.g. a session restored from a backup made before
+// the browser was cleared. Under new ids it saves as a session of this key's own.
+const rekeySession = (sessionId: string) => {
+  useSessionStore.setState((state) => {
+    const session = state.sessions.find((s) => s.id === sessionId);
+    if (!session) return {};
+    
+    const rekeyed = reassignQuestionIds({
+      ...session,
+      id: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    });
+    return {
+      sessions: state.sessions.map((s) => (s.id === sessionId ? rekeyed : s)),
+      currentSession: state.currentSession?.id === sessionId ? rekeyed : state.currentSession,
+    };
+  });
+};
+
+const deleteRemoteSession = async (sessionId: string) => {
+  const { getSyncKey } = useSessionStore.getState();
+  
+  try {
+    await axios.delete(`${SESSIONS_ENDPOINT}/${encodeURIComponent(sessionId)}`, {
+      headers: { 'x-sync-key': getSyncKey() },
+    });
+  } catch (error) {
+    // 404 means it never reached the server
+    if (!axios.isAxiosError(error) || error.response?.status !== 404) {
+      console.error(`Failed to delete session ${sessionId} on server:`, error);
+    }
+  }
+  useSessionStore.setState((state) => ({
+    syncedIds: state.syncedIds.filter((id) => id !== sessionId),
+    dirtyIds: state.dirtyIds.filter((id) => id !== sessionId),
+  }));
+};
+
+const schedulePush = (sessionId: string) => {
+  clearTimeout(pendingPushes.get(sessionId));
+  pendingPushes.set(sessionId, setTimeout(() => {
+    pendingPushes.delete(sessionId);
+    pushSession(sessionId);
+  }, PUSH_DELAY_MS));
+};
+
+const flushPendingPushes = async () => {
+  const sessionIds = Array.from(pendingPushes.keys());
+  sessionIds.forEach((sessionId) => clearTimeout(pendingPushes.get(sessionId)));
+  pendingPushes.clear();
+  await Promise.all(sessionIds.map(pushSession));
+};
+
+// Every action replaces the session objects it changes, so a changed reference means a change to save
+if (typeof window !== 'undefined') {
+  useSessionStore.subscribe((state, previous) => {
+    if (applyingRemote || !state.isHydrated || state.sessions === previous.sessions) return;
+    
+    const previousById = new Map(previous.sessions.map((session) => [session.id, session]));
+    const changedIds: string[] = [];
+    for (const session of state.sessions) {
+      if (previousById.get(session.id) !== session) {
+        changedIds.push(session.id);
+        schedulePush(session.id);
+      }
+      previousById.delete(session.id);
+    }
+    if (changedIds.length > 0) {
+      useSessionStore.setState({ dirtyIds: Array.from(new Set([...state.dirtyIds, ...changedIds])) });
+    }
+    for (const sessionId of Array.from(previousById.keys())) {
+      clearTimeout(pendingPushes.get(sessionId));
+      pendingPushes.delete(sessionId);
+      deleteRemoteSession(sessionId);
+    }
+  });
+}
+
 export default useSessionStore; 
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { DIFFICULTY_LEVELS } from '../config/api';
+import type { Difficulty, QuestionConfig } from '../config/api';
+import { isObjectiveQuestion } from './grading';
+import type { Question } from '../store/useSessionStore';
+
+/**
+ * Adaptive mode serves one question at a time and picks each question's difficulty from the
+ * answers so far. Ability is estimated with a one-parameter (Rasch) model: each difficulty level
+ * has a fixed location on the same scale as ability, and every answer moves the estimate towards
+ * the level the learner got right or wrong. Only objective questions are served, since they can
+ * be graded the moment they are answered.
+ */
+
+// Location of each difficulty level on the ability scale
+const LEVEL_LOCATION: Record<Difficulty, number> = {
+  beginner: -1,
+  intermediate: 0,
+  advanced: 1,
+};
+
+// How far one answer moves the estimate
+const LEARNING_RATE = 0.7;
+const ABILITY_LIMIT = 3;
+
+export const DEFAULT_ADAPTIVE_LENGTH = 10;
+
+// Counts requested when the pool at the needed level runs out
+export const ADAPTIVE_TOP_UP: Pick<QuestionConfig, 'mcqs' | 'fillInBlanks' | 'trueFalse' | 'shortType' | 'longType'> = {
+  mcqs: 3,
+  fillInBlanks: 1,
+  trueFalse: 1,
+  shortType: 0,
+  longType: 0,
+};
+
+export interface AdaptiveStep {
+  questionId: string;
+  difficulty: Difficulty;
+  correct: boolean;
+  ability: number;   // Estimate after this answer
+}
+
+export interface AdaptiveState {
+  ability: number;
+  length: number;                   // Questions to serve before the session is done
+  path: AdaptiveStep[];
+  currentQuestionId: string | null;
+}
+
+export const questionDifficulty = (question: Question, fallback: Difficulty = 'intermediate'): Difficulty => {
+  return question.difficulty || fallback;
+};
+
+export const startAdaptive = (startAt: Difficulty = 'intermediate', length = DEFAULT_ADAPTIVE_LENGTH): AdaptiveState => ({
+  ability: LEVEL_LOCATION[startAt],
+  length,
+  path: [],
+  currentQuestionId: null,
+});
+
+/**
+ * Difficulty level closest to the ability estimate
+ */
+export const targetDifficulty = (ability: number): Difficulty => {
+  return DIFFICULTY_LEVELS.reduce((best, level) => (
+    Math.abs(LEVEL_LOCATION[level] - ability) < Math.abs(LEVEL_LOCATION[best] - ability) ? level : best
+  ));
+};
+
+/**
+ * Next question at the target level that has not been served yet, or null when that level's
+ * pool has run out
+ */
+export const pickNextQuestion = (
+  questions: Question[],
+  state: AdaptiveState,
+  fallback: Difficulty = 'intermediate'
+): Question | null => {
+  const served = new Set(state.path.map((step) => step.questionId));
+  const target = targetDifficulty(state.ability);
+  return questions.find((question) => (
+    isObjectiveQuestion(question)
+      && !served.has(question.id)
+      && questionDifficulty(question, fallback) === target
+  )) || null;
+};
+
+/**
+ * Unserved question at the level nearest the target, for when no more can be generated
+ */
+export const pickNearestQuestion = (
+  questions: Question[],
+  state: AdaptiveState,
+  fallback: Difficulty = 'intermediate'
+): Question | null => {
+  const served = new Set(state.path.map((step) => step.questionId));
+  const distance = (question: Question) => Math.abs(LEVEL_LOCATION[questionDifficulty(question, fallback)] - state.ability);
+  const [nearest] = questions
+    .filter((question) => isObjectiveQuestion(question) && !served.has(question.id))
+    .sort((a, b) => distance(a) - distance(b));
+  return nearest || null;
+};
+
+export const recordAdaptiveAnswer = (
+  state: AdaptiveState,
+  question: Question,
+  correct: boolean,
+  fallback: Difficulty = 'intermediate'
+): AdaptiveState => {
+  const difficulty = questionDifficulty(question, fallback);
+  const expected = 1 / (1 + Math.exp(LEVEL_LOCATION[difficulty] - state.ability));
+  const updated = state.ability + LEARNING_RATE * ((correct ? 1 : 0) - expected);
+  const ability = Math.round(Math.max(-ABILITY_LIMIT, Math.min(ABILITY_LIMIT, updated)) * 100) / 100;
+
+  return {
+    ...state,
+    ability,
+    path: [...state.path, { questionId: question.id, difficulty, correct, ability }],
+    currentQuestionId: null,
+  };
+};
+
+export const isAdaptiveFinished = (state: AdaptiveState): boolean => state.path.length >= state.length;
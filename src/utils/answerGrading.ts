@@ -0,0 +1,212 @@
+import { z } from 'zod';
+import { generateWithFallback } from './llm';
+import { DEFAULT_POINTS } from '../config/api';
+import { extractJson, formatZodIssues } from './questionGeneration';
+import type { CriterionScore, QuestionGrade } from '../store/useSessionStore';
+
+/**
+ * Rubric grading of short and long answers. The model rates each rubric criterion from 0 to 10;
+ * points are worked out here from the question's `points`, so totals never exceed the maximum.
+ */
+
+export const RUBRIC_CRITERIA = [
+  { id: 'accuracy', name: 'Accuracy', weight: 0.5, description: 'statements are factually correct' },
+  { id: 'completeness', name: 'Completeness', weight: 0.3, description: 'covers the key points of the reference answer' },
+  { id: 'clarity', name: 'Clarity', weight: 0.2, description: 'clear, well organised and reasoned' },
+] as const;
+
+type CriterionId = typeof RUBRIC_CRITERIA[number]['id'];
+
+export interface WrittenAnswer {
+  id?: string;
+  type: 'short' | 'long';
+  question: string;
+  answer: string;
+  referenceAnswer?: string;
+  points?: number;
+}
+
+export interface AnswerGradingOptions {
+  model?: string;
+  apiKey?: string;
+  maxRepairs?: number;
+}
+
+export interface AnswerGradingResult {
+  grades: QuestionGrade[];
+  feedback: string;  // Overall feedback across all answers
+  model?: string;    // Unset when no answer needed the model
+}
+
+const CriterionRatingSchema = z.object({
+  rating: z.number().min(0).max(10),
+  comment: z.string().optional(),
+});
+
+const GradingResponseSchema = z.object({
+  grades: z.array(z.object({
+    index: z.number().int().min(1),
+    criteria: z.object({
+      accuracy: CriterionRatingSchema,
+      completeness: CriterionRatingSchema,
+      clarity: CriterionRatingSchema,
+    }),
+    feedback: z.string(),
+    missingKeyPoints: z.array(z.string()).default([]),
+  })),
+  overallFeedback: z.string(),
+});
+
+type GradingResponse = z.infer<typeof GradingResponseSchema>;
+
+const roundPoints = (value: number) => Math.round(value * 10) / 10;
+
+export const getMaxPoints = (answer: WrittenAnswer) => {
+  return answer.points && answer.points > 0 ? answer.points : DEFAULT_POINTS[answer.type];
+};
+
+const buildGradingPrompt = (answers: Array<WrittenAnswer & { index: number }>) => {
+  const rubric = RUBRIC_CRITERIA
+    .map(({ id, name, weight, description }) => `- ${id} (${name}, ${Math.round(weight * 100)}% of the points): ${description}`)
+    .join('\n');
+
+  const answerList = answers.map((answer) => `Answer ${answer.index} (${answer.type} answer):
+Question: ${answer.question}
+${answer.referenceAnswer ? `Reference answer: ${answer.referenceAnswer}\n` : ''}Student answer: ${answer.answer}`).join('\n\n');
+
+  return `You are grading student answers against a rubric.
+
+Rubric criteria:
+${rubric}
+
+Rate every criterion for every answer from 0 (absent or wrong) to 10 (excellent). Judge against the reference answer where one is given.
+
+${answerList}
+
+Return ONLY a JSON object in this format:
+{
+  "grades": [
+    {
+      "index": 1,
+      "criteria": {
+${RUBRIC_CRITERIA.map(({ id }) => `        "${id}": { "rating": 7, "comment": "one sentence" }`).join(',\n')}
+      },
+      "feedback": "Two or three sentences of constructive feedback for the student",
+      "missingKeyPoints": ["Key point from the reference answer that the student left out"]
+    }
+  ],
+  "overallFeedback": "Constructive feedback across all answers in under 100 words"
+}
+
+Include one entry in "grades" for each of the ${answers.length} answers, using its number as "index".`;
+};
+
+const parseGradingResponse = (text: string, expected: number[]) => {
+  let json: unknown;
+  try {
+    json = extractJson(text);
+  } catch (error) {
+    return { success: false as const, issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`] };
+  }
+
+  const result = GradingResponseSchema.safeParse(json);
+  if (!result.success) {
+    return { success: false as const, issues: formatZodIssues(result.error) };
+  }
+
+  const missing = expected.filter((index) => !result.data.grades.some((grade) => grade.index === index));
+  return missing.length > 0
+    ? { success: false as const, issues: [`grades: missing entries for answers ${missing.join(', ')}`] }
+    : { success: true as const, data: result.data };
+};
+
+const toQuestionGrade = (
+  answer: WrittenAnswer,
+  questionId: string,
+  graded?: GradingResponse['grades'][number]
+): QuestionGrade => {
+  const maxPoints = getMaxPoints(answer);
+
+  const criteria: CriterionScore[] = RUBRIC_CRITERIA.map(({ id, name, weight }) => {
+    const criterionMax = roundPoints(maxPoints * weight);
+    const rating = graded?.criteria[id as CriterionId];
+    return {
+      criterion: name,
+      score: rating ? roundPoints((rating.rating / 10) * criterionMax) : 0,
+      maxPoints: criterionMax,
+      comment: rating?.comment,
+    };
+  });
+
+  return {
+    questionId,
+    score: Math.min(maxPoints, roundPoints(criteria.reduce((sum, criterion) => sum + criterion.score, 0))),
+    maxPoints,
+    criteria,
+    feedback: graded?.feedback ?? 'No answer was given.',
+    missingKeyPoints: graded?.missingKeyPoints ?? [],
+  };
+};
+
+/**
+ * Grade written answers against the rubric. Blank answers score zero without a model call;
+ * output that fails validation gets a repair prompt carrying the zod errors.
+ */
+export const gradeWrittenAnswers = async (
+  answers: WrittenAnswer[],
+  { model, apiKey, maxRepairs = 1 }: AnswerGradingOptions = {}
+): Promise<AnswerGradingResult> => {
+  const ids = answers.map((answer, i) => answer.id || `${answer.type}_${i}`);
+  const toGrade = answers
+    .map((answer, i) => ({ ...answer, index: i + 1 }))
+    .filter((answer) => answer.answer.trim() !== '');
+
+  if (toGrade.length === 0) {
+    return {
+      grades: answers.map((answer, i) => toQuestionGrade(answer, ids[i]!)),
+      feedback: 'No written answers were given.',
+    };
+  }
+
+  const prompt = buildGradingPrompt(toGrade);
+  const expected = toGrade.map((answer) => answer.index);
+
+  const initial = await generateWithFallback(prompt, { model, apiKey, json: true });
+  let parsed = parseGradingResponse(initial.text, expected);
+  let text = initial.text;
+  let repairs = 0;
+
+  while (!parsed.success && repairs < maxRepairs) {
+    repairs++;
+    console.warn(`Grading response failed validation, sending repair prompt ${repairs}/${maxRepairs}:`, parsed.issues);
+
+    const repaired = await generateWithFallback(`Your previous response could not be used because it does not match the required format.
+
+Validation errors:
+${parsed.issues.map((issue) => `- ${issue}`).join('\n')}
+
+Previous response:
+${text}
+
+Fix every error above and return the corrected grades.
+
+${prompt}`, { model: initial.model, apiKey, json: true });
+    text = repaired.text;
+    parsed = parseGradingResponse(text, expected);
+  }
+
+  if (!parsed.success) {
+    throw new Error(`Grading format validation failed: ${parsed.issues.join(', ')}`);
+  }
+
+  const { grades, overallFeedback } = parsed.data;
+  return {
+    grades: answers.map((answer, i) => toQuestionGrade(
+      answer,
+      ids[i]!,
+      answer.answer.trim() === '' ? undefined : grades.find((grade) => grade.index === i + 1)
+    )),
+    feedback: overallFeedback,
+    model: initial.model,
+  };
+};
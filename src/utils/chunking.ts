@@ -0,0 +1,156 @@
+/**
+ * Split extracted material into chunks small enough for one generation prompt. Boundaries fall on
+ * pages and headings where possible, then paragraphs, then fixed-size windows.
+ */
+
+// Marks the end of each page in extracted PDF text
+export const PAGE_BREAK = '\f';
+
+const CHARS_PER_TOKEN = 4;
+export const DEFAULT_CHUNK_TOKENS = 6000;
+
+export interface ChunkSource {
+  name: string;  // File name, or a label such as "Text content"
+  text: string;
+}
+
+export interface TextChunk {
+  index: number;
+  text: string;       // Excerpt with "[Source: ...]" and "[Page N]" markers where they change
+  sources: string[];  // Names of the sources the excerpt draws on
+  heading?: string;   // Nearest heading above the start of the chunk
+  length: number;     // Characters of material, excluding markers
+}
+
+interface Unit {
+  source: string;
+  text: string;
+  page?: number;
+  heading?: string;
+}
+
+const HEADING = /^#{1,6} +(.+)$/m;
+
+/**
+ * Pages (for text with page breaks), then sections under Markdown headings
+ */
+const splitStructure = (source: ChunkSource): Unit[] => {
+  const pages = source.text.includes(PAGE_BREAK) ? source.text.split(PAGE_BREAK) : [source.text];
+  const paginated = pages.length > 1;
+  const units: Unit[] = [];
+  let heading: string | undefined;
+
+  pages.forEach((pageText, pageIndex) => {
+    for (const section of pageText.split(/\n(?=#{1,6} )/)) {
+      heading = section.match(HEADING)?.[1]?.trim() ?? heading;
+      units.push({
+        source: source.name,
+        text: section.trim(),
+        page: paginated ? pageIndex + 1 : undefined,
+        heading,
+      });
+    }
+  });
+
+  return units.filter((unit) => unit.text);
+};
+
+/**
+ * Cut text longer than `maxChars` into windows, ending each at a sentence or word boundary
+ */
+const splitWindows = (text: string, maxChars: number): string[] => {
+  const windows: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxChars) {
+    const slice = rest.slice(0, maxChars);
+    const sentenceEnd = Math.max(slice.lastIndexOf('. '), slice.lastIndexOf('\n'));
+    const wordEnd = slice.lastIndexOf(' ');
+    const end = sentenceEnd > maxChars / 2 ? sentenceEnd + 1 : wordEnd > maxChars / 2 ? wordEnd : maxChars;
+    windows.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+
+  return rest ? [...windows, rest] : windows;
+};
+
+const splitOversized = (unit: Unit, maxChars: number): Unit[] => {
+  if (unit.text.length <= maxChars) {
+    return [unit];
+  }
+
+  return unit.text
+    .split(/\n\s*\n/)
+    .flatMap((paragraph) => splitWindows(paragraph.trim(), maxChars))
+    .filter(Boolean)
+    .map((text) => ({ ...unit, text }));
+};
+
+/**
+ * Chunk the sources in order. Small sources share a chunk; a source longer than the budget is
+ * spread over several. Each chunk is labelled with its source and pages so questions can be
+ * traced back to them.
+ */
+export const chunkSources = (sources: ChunkSource[], maxTokens = DEFAULT_CHUNK_TOKENS): TextChunk[] => {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const units = sources
+    .filter((source) => source.text.trim())
+    .flatMap(splitStructure)
+    .flatMap((unit) => splitOversized(unit, maxChars));
+
+  const chunks: TextChunk[] = [];
+  let current: TextChunk | null = null;
+  let last: Unit | null = null;
+
+  for (const unit of units) {
+    if (current && current.length + unit.text.length > maxChars) {
+      chunks.push(current);
+      current = null;
+    }
+
+    const markers: string[] = [
+      !current || unit.source !== last?.source ? `[Source: ${unit.source}]` : '',
+      unit.page !== undefined && (!current || unit.source !== last?.source || unit.page !== last?.page) ? `[Page ${unit.page}]` : '',
+    ].filter(Boolean);
+    const text: string = [...markers, unit.text].join('\n');
+
+    if (!current) {
+      current = { index: chunks.length, text, sources: [unit.source], heading: unit.heading, length: unit.text.length };
+    } else {
+      current.text += `\n\n${text}`;
+      current.length += unit.text.length;
+      if (!current.sources.includes(unit.source)) {
+        current.sources.push(unit.source);
+      }
+    }
+    last = unit;
+  }
+
+  return current ? [...chunks, current] : chunks;
+};
+
+/**
+ * Split `total` across `weights` in proportion, rounding by largest remainder so the parts
+ * always add up to `total`
+ */
+export const distributeCount = (total: number, weights: number[]): number[] => {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  if (total <= 0 || sum <= 0) {
+    return weights.map(() => 0);
+  }
+
+  const exact = weights.map((weight) => (total * weight) / sum);
+  const parts = exact.map(Math.floor);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || weights[b.index]! - weights[a.index]!);
+
+  let left = total - parts.reduce((acc, part) => acc + part, 0);
+  for (const { index } of byRemainder) {
+    if (left <= 0) break;
+    parts[index]!++;
+    left--;
+  }
+
+  return parts;
+};
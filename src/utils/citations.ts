@@ -0,0 +1,72 @@
+import { PAGE_BREAK } from './chunking';
+import type { ChunkSource } from './chunking';
+import type { QuestionSource } from './questionSchema';
+
+/**
+ * Check the passages models quote as question sources against the extracted text. Quotes are
+ * compared word by word, ignoring case, punctuation and Markdown markup, so a quote still matches
+ * when the model tidies the formatting.
+ */
+
+const MIN_QUOTE_WORDS = 3;
+const SHINGLE_SIZE = 3;
+// Share of a quote's word triples that must appear on one page for a loose match
+const MIN_SHINGLE_OVERLAP = 0.8;
+
+interface Passage {
+  file: string;
+  page?: number;
+  text: string;  // Words joined by single spaces, padded with a space at each end
+  shingles: Set<string>;
+}
+
+const tokenize = (text: string): string[] => {
+  return text.normalize('NFKC').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+};
+
+const toShingles = (words: string[]): string[] => {
+  return Array.from({ length: Math.max(words.length - SHINGLE_SIZE + 1, 0) }, (_, i) =>
+    words.slice(i, i + SHINGLE_SIZE).join(' ')
+  );
+};
+
+/**
+ * Build a verifier over the material a question set was generated from. It returns the source
+ * with `verified` set and, when the quote is found, the file and page it was actually found on.
+ */
+export const createSourceVerifier = (materials: ChunkSource[]) => {
+  const passages: Passage[] = materials.flatMap(({ name, text }) => {
+    const pages = text.includes(PAGE_BREAK) ? text.split(PAGE_BREAK) : [text];
+    return pages.map((pageText, index) => {
+      const words = tokenize(pageText);
+      return {
+        file: name,
+        page: pages.length > 1 ? index + 1 : undefined,
+        text: ` ${words.join(' ')} `,
+        shingles: new Set(toShingles(words)),
+      };
+    });
+  });
+
+  return (source: QuestionSource): QuestionSource => {
+    const words = tokenize(source.quote);
+    if (words.length < MIN_QUOTE_WORDS) {
+      return { ...source, verified: false };
+    }
+
+    // Look where the model said first
+    const cited = (passage: Passage) => (passage.file === source.file ? 2 : 0) + (passage.page === source.page ? 1 : 0);
+    const ordered = [...passages].sort((a, b) => cited(b) - cited(a));
+
+    const needle = ` ${words.join(' ')} `;
+    const shingles = toShingles(words);
+    const match = ordered.find((passage) => passage.text.includes(needle))
+      ?? ordered.find((passage) => (
+        shingles.filter((shingle) => passage.shingles.has(shingle)).length / shingles.length >= MIN_SHINGLE_OVERLAP
+      ));
+
+    return match
+      ? { ...source, file: match.file, page: match.page, verified: true }
+      : { ...source, verified: false };
+  };
+};
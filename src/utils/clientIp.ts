@@ -0,0 +1,24 @@
+import type { NextApiRequest } from 'next';
+
+/**
+ * Client IP address of a request: the first x-forwarded-for entry behind a proxy, otherwise the
+ * socket's address
+ */
+export function getClientIP(req: NextApiRequest): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  let ip: string = '127.0.0.1'; // Default fallback
+  
+  if (forwarded) {
+    if (typeof forwarded === 'string') {
+      const firstIp = forwarded.split(',')[0]?.trim();
+      if (firstIp) ip = firstIp;
+    } else if (Array.isArray(forwarded) && forwarded.length > 0 && forwarded[0]) {
+      ip = forwarded[0];
+    }
+  } else {
+    const remoteAddr = req.connection?.remoteAddress || req.socket?.remoteAddress;
+    if (remoteAddr) ip = remoteAddr;
+  }
+  
+  return ip.replace('::ffff:', ''); // Remove IPv6 prefix if present
+}
@@ -0,0 +1,19 @@
+/**
+ * Save a file from the browser, such as one received from an API route
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// File name from a Content-Disposition header, if it names one
+export const filenameFromDisposition = (header: unknown, fallback: string): string => {
+  const match = typeof header === 'string' ? /filename="([^"]+)"/.exec(header) : null;
+  return match ? match[1]! : fallback;
+};
@@ -0,0 +1,126 @@
+import type { QuestionType } from '../config/api';
+import type { Question, SessionTiming, UserAnswer } from '../store/useSessionStore';
+
+/**
+ * Timed exam mode: a countdown for the whole session and, optionally, for each section (one
+ * section per question type). With any section limit set, sections are taken one at a time in
+ * a fixed order and cannot be returned to. Answers are locked once the exam is submitted.
+ */
+
+export interface ExamSettings {
+  timeLimit: number;                                      // Seconds for the whole exam
+  sectionLimits: Partial<Record<QuestionType, number>>;   // Seconds per section, where set
+}
+
+export interface ExamState extends ExamSettings {
+  sections: QuestionType[];   // Sections with questions, in the order they are taken
+  sectionIndex: number;
+  startedAt: Date;
+  sectionStartedAt: Date;
+  submittedAt?: Date;
+  autoSubmitted?: boolean;    // Submitted because time ran out
+}
+
+// Suggested time per question, in seconds
+const SUGGESTED_SECONDS: Record<QuestionType, number> = {
+  mcq: 60,
+  fill: 60,
+  true_false: 30,
+  short: 180,
+  long: 480,
+};
+
+const SECTION_ORDER: QuestionType[] = ['mcq', 'fill', 'true_false', 'short', 'long'];
+
+export const examSections = (questions: Question[]): QuestionType[] => {
+  return SECTION_ORDER.filter((type) => questions.some((question) => question.type === type));
+};
+
+/**
+ * Time limit suggested for a set of questions, in whole minutes
+ */
+export const suggestedMinutes = (questions: Question[]): number => {
+  const seconds = questions.reduce((sum, question) => sum + SUGGESTED_SECONDS[question.type], 0);
+  return Math.max(1, Math.ceil(seconds / 60));
+};
+
+export const startExam = (questions: Question[], settings: ExamSettings, now = new Date()): ExamState => ({
+  ...settings,
+  sections: examSections(questions),
+  sectionIndex: 0,
+  startedAt: now,
+  sectionStartedAt: now,
+});
+
+// Sections are taken one at a time only when at least one has its own limit
+export const isSequential = (exam: ExamState): boolean => Object.keys(exam.sectionLimits).length > 0;
+
+export const currentSection = (exam: ExamState): QuestionType | null => {
+  return isSequential(exam) ? exam.sections[exam.sectionIndex] ?? null : null;
+};
+
+export const isLastSection = (exam: ExamState): boolean => exam.sectionIndex >= exam.sections.length - 1;
+
+export const remainingSeconds = (exam: ExamState, now = Date.now()): number => {
+  return Math.max(0, Math.ceil(exam.timeLimit - (now - exam.startedAt.getTime()) / 1000));
+};
+
+/**
+ * Seconds left in the current section, or null when it has no limit of its own. A section
+ * never outlasts the exam.
+ */
+export const sectionRemainingSeconds = (exam: ExamState, now = Date.now()): number | null => {
+  const section = currentSection(exam);
+  const limit = section ? exam.sectionLimits[section] : undefined;
+  if (limit === undefined) {
+    return null;
+  }
+  const left = Math.max(0, Math.ceil(limit - (now - exam.sectionStartedAt.getTime()) / 1000));
+  return Math.min(left, remainingSeconds(exam, now));
+};
+
+export const nextSection = (exam: ExamState, now = new Date()): ExamState => ({
+  ...exam,
+  sectionIndex: Math.min(exam.sectionIndex + 1, exam.sections.length - 1),
+  sectionStartedAt: now,
+});
+
+export const submitExam = (exam: ExamState, autoSubmitted: boolean, now = new Date()): ExamState => ({
+  ...exam,
+  submittedAt: now,
+  autoSubmitted,
+});
+
+/**
+ * Time data for the analysis of a submitted exam: time used overall, per section and per
+ * question, in seconds. A section's time is the sum of its questions' times.
+ */
+export const summarizeTiming = (questions: Question[], userAnswers: UserAnswer[], exam: ExamState): SessionTiming => {
+  const answers = new Map(userAnswers.map((answer) => [answer.questionId, answer]));
+  const end = exam.submittedAt || new Date();
+  const timing: SessionTiming = {
+    timeLimit: exam.timeLimit,
+    timeUsed: Math.min(exam.timeLimit, Math.round((end.getTime() - exam.startedAt.getTime()) / 1000)),
+    autoSubmitted: Boolean(exam.autoSubmitted),
+    sections: {},
+    questions: {},
+  };
+
+  for (const question of questions) {
+    const seconds = Math.round((answers.get(question.id)?.timeSpentMs || 0) / 1000);
+    timing.questions[question.id] = seconds;
+
+    const section = timing.sections[question.type] || { timeUsed: 0, timeLimit: exam.sectionLimits[question.type] };
+    timing.sections[question.type] = { ...section, timeUsed: section.timeUsed + seconds };
+  }
+
+  return timing;
+};
+
+export const formatDuration = (seconds: number): string => {
+  const whole = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const secs = String(whole % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
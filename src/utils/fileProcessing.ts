@@ -2,15 +2,46 @@ import formidable from 'formidable';
 import fs from 'fs/promises';
 import pdfParse from 'pdf-parse';
 import type { NextApiRequest } from 'next';
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { DEFAULT_MODEL, generateWithFallback, supportsImageInput } from './llm';
+import { htmlToMarkdown } from './htmlToMarkdown';
+import { PAGE_BREAK } from './chunking';
 
 export interface ProcessedFile {
   text: string;
   fileType: string;
   filename?: string;
+  model?: string; // Model that extracted the text, if one was needed
   error?: string;
 }
 
+interface ExtractedText {
+  text: string;
+  model?: string;
+}
+
+export type DocumentFormat = 'pdf' | 'docx' | 'markdown' | 'text';
+
+export interface SkippedFile {
+  filename: string;
+  mimeType: string;
+  reason: string;
+}
+
+export type FileContent =
+  | {
+      status: 'extracted';
+      filename: string;
+      mimeType: string;
+      format: DocumentFormat | 'image';
+      text: string;
+      model?: string;
+      imageData?: string; // Base64 image, for models that take images directly
+      warning?: string;   // e.g. an image whose text could not be read
+    }
+  | ({ status: 'skipped' } & SkippedFile);
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
 /**
  * Parse multipart form data from request
  */
@@ -31,23 +62,15 @@ export async function parseMultipartForm(
 }
 
 /**
- * Extract text from image using Gemini Vision
+ * Extract text from image using the selected model, or the default one if it is text-only
  */
 export async function extractTextFromImage(
   imageBuffer: Buffer,
   mimeType: string,
-  apiKey?: string
-): Promise<string> {
+  apiKey?: string,
+  model?: string
+): Promise<ExtractedText> {
   try {
-    const keyToUse = apiKey || process.env.GEMINI_API_KEY;
-    
-    if (!keyToUse) {
-      throw new Error("GEMINI_API_KEY is not available");
-    }
-
-    const genAI = new GoogleGenerativeAI(keyToUse);
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
-    
     const prompt = "Extract and transcribe all text from this image. If it contains educational content like formulas, diagrams, or structured information, please preserve the formatting and include descriptions of visual elements that are relevant to understanding the content.";
     
     const imagePart = {
@@ -57,39 +80,51 @@ export async function extractTextFromImage(
       },
     };
 
-    const result = await model.generateContent([prompt, imagePart]);
-    const response = await result.response;
-    
-    return await response.text();
+    const { text, model: answeredBy } = await generateWithFallback([prompt, imagePart], {
+      model: supportsImageInput(model) ? model : DEFAULT_MODEL,
+      apiKey,
+    });
+
+    return { text, model: answeredBy };
   } catch (error) {
     console.error('Error extracting text from image:', error);
     throw new Error(`Failed to extract text from image: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+/**
+ * pdf-parse's default page renderer, ending each page with PAGE_BREAK so chunking can keep
+ * track of page numbers
+ */
+const renderPDFPage = async (pageData: any): Promise<string> => {
+  const { items } = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of items) {
+    text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+    lastY = item.transform[5];
+  }
+  return text + PAGE_BREAK;
+};
+
 /**
  * Extract text from PDF using pdf-parse
  */
-export async function extractTextFromPDF(pdfBuffer: Buffer, apiKey?: string): Promise<string> {
+export async function extractTextFromPDF(pdfBuffer: Buffer, apiKey?: string): Promise<ExtractedText> {
   try {
     // Dynamic import for pdf-parse (only available in Node.js environment)
     const pdfParse = (await import('pdf-parse')).default;
-    const data = await pdfParse(pdfBuffer);
-    return data.text;
+    const data = await pdfParse(pdfBuffer, { pagerender: renderPDFPage });
+    if (!data.text.trim()) {
+      // Scanned PDFs have no text layer
+      throw new Error('PDF contains no extractable text');
+    }
+    return { text: data.text };
   } catch (error) {
     console.error('Error extracting text from PDF:', error);
     
-    // Fallback: Use Gemini to process PDF if pdf-parse fails
+    // Fallback: Use Gemini to process PDF if pdf-parse fails (only Gemini reads PDFs inline)
     try {
-      const keyToUse = apiKey || process.env.GEMINI_API_KEY;
-      
-      if (!keyToUse) {
-        throw new Error("GEMINI_API_KEY is not available");
-      }
-
-      const genAI = new GoogleGenerativeAI(keyToUse);
-      const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
-      
       const prompt = "This is a PDF document. Extract all the text content from it, preserving structure and formatting where possible.";
       
       const pdfPart = {
@@ -99,10 +134,12 @@ export async function extractTextFromPDF(pdfBuffer: Buffer, apiKey?: string): Pr
         },
       };
 
-      const result = await model.generateContent([prompt, pdfPart]);
-      const response = await result.response;
-      
-      return await response.text();
+      const { text, model: answeredBy } = await generateWithFallback([prompt, pdfPart], {
+        model: "google/gemini-1.5-pro",
+        apiKey,
+      });
+
+      return { text, model: answeredBy };
     } catch (fallbackError) {
       console.error('Fallback PDF extraction also failed:', fallbackError);
       throw new Error(`Failed to extract text from PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -111,54 +148,132 @@ export async function extractTextFromPDF(pdfBuffer: Buffer, apiKey?: string): Pr
 }
 
 /**
- * Extract text from various file types
+ * Extract text from a DOCX file, keeping headings, lists and tables as Markdown
  */
-export async function extractTextFromFile(
+export async function extractTextFromDOCX(docxBuffer: Buffer): Promise<ExtractedText> {
+  const mammoth = (await import('mammoth')).default;
+  const { value, messages } = await mammoth.convertToHtml({ buffer: docxBuffer });
+
+  if (messages.length > 0) {
+    console.warn('DOCX conversion messages:', messages.map((message) => message.message));
+  }
+  return { text: htmlToMarkdown(value) };
+}
+
+/**
+ * Work out how to read a file from its MIME type, falling back to the extension because
+ * browsers often send Markdown and Word files as application/octet-stream
+ */
+export function detectFileFormat(
+  mimeType: string,
+  filename: string
+): { format: DocumentFormat | 'image' } | { reason: string } {
+  const extension = getFileExtension(filename);
+
+  if (mimeType.startsWith('image/')) return { format: 'image' };
+  if (mimeType === 'application/pdf' || extension === 'pdf') return { format: 'pdf' };
+  if (mimeType === DOCX_MIME_TYPE || extension === 'docx') return { format: 'docx' };
+  if (mimeType === 'application/msword' || extension === 'doc') {
+    return { reason: 'Legacy Word (.doc) files cannot be read. Save the file as .docx or PDF and upload it again.' };
+  }
+  if (mimeType === 'text/markdown' || ['md', 'markdown'].includes(extension)) return { format: 'markdown' };
+  if (mimeType.startsWith('text/') || mimeType === 'application/json' || ['txt', 'csv', 'json'].includes(extension)) {
+    return { format: 'text' };
+  }
+  return { reason: `Unsupported file type: ${mimeType || extension || 'unknown'}` };
+}
+
+/**
+ * Read an uploaded file into text. This is the single extraction pipeline used by both the
+ * upload route and multimodal generation; files that cannot be read are returned as skipped
+ * with the reason instead of throwing.
+ */
+export async function extractFileContent(
   file: formidable.File,
-  apiKey?: string
-): Promise<ProcessedFile> {
+  apiKey?: string,
+  model?: string
+): Promise<FileContent> {
+  const filename = file.originalFilename || 'unknown';
+  const mimeType = file.mimetype || 'application/octet-stream';
+  const detected = detectFileFormat(mimeType, filename);
+
+  if ('reason' in detected) {
+    return { status: 'skipped', filename, mimeType, reason: detected.reason };
+  }
+
   try {
     const fileBuffer = await fs.readFile(file.filepath);
-    const mimeType = file.mimetype || 'application/octet-stream';
-    const filename = file.originalFilename || 'unknown';
 
-    let extractedText = '';
+    if (detected.format === 'image') {
+      const imageData = fileBuffer.toString('base64');
+      try {
+        const { text, model: answeredBy } = await extractTextFromImage(fileBuffer, mimeType, apiKey, model);
+        return { status: 'extracted', filename, mimeType, format: 'image', text, model: answeredBy, imageData };
+      } catch (error) {
+        // Models that take images can still use the image itself
+        const warning = error instanceof Error ? error.message : 'Failed to extract text from image';
+        return { status: 'extracted', filename, mimeType, format: 'image', text: '', imageData, warning };
+      }
+    }
 
-    if (mimeType.startsWith('image/')) {
-      extractedText = await extractTextFromImage(fileBuffer, mimeType, apiKey);
-    } else if (mimeType === 'application/pdf') {
-      extractedText = await extractTextFromPDF(fileBuffer, apiKey);
-    } else if (mimeType.startsWith('text/')) {
-      extractedText = fileBuffer.toString('utf-8');
+    let extracted: ExtractedText;
+    if (detected.format === 'pdf') {
+      extracted = await extractTextFromPDF(fileBuffer, apiKey);
+    } else if (detected.format === 'docx') {
+      extracted = await extractTextFromDOCX(fileBuffer);
     } else {
-      throw new Error(`Unsupported file type: ${mimeType}`);
+      extracted = { text: fileBuffer.toString('utf-8') };
     }
 
-    return {
-      text: extractedText,
-      fileType: mimeType,
-      filename,
-    };
+    if (!extracted.text.trim()) {
+      return { status: 'skipped', filename, mimeType, reason: 'No text could be extracted from this file' };
+    }
+
+    return { status: 'extracted', filename, mimeType, format: detected.format, text: extracted.text, model: extracted.model };
   } catch (error) {
-    console.error('Error processing file:', error);
+    console.error(`Error processing file ${filename}:`, error);
     return {
-      text: '',
-      fileType: file.mimetype || 'unknown',
-      filename: file.originalFilename || 'unknown',
-      error: error instanceof Error ? error.message : 'Unknown error',
+      status: 'skipped',
+      filename,
+      mimeType,
+      reason: error instanceof Error ? error.message : 'Unknown error',
     };
   }
 }
 
+/**
+ * Extract text from various file types
+ */
+export async function extractTextFromFile(
+  file: formidable.File,
+  apiKey?: string,
+  model?: string
+): Promise<ProcessedFile> {
+  const content = await extractFileContent(file, apiKey, model);
+
+  if (content.status === 'skipped') {
+    return { text: '', fileType: content.mimeType, filename: content.filename, error: content.reason };
+  }
+
+  return {
+    text: content.text,
+    fileType: content.mimeType,
+    filename: content.filename,
+    model: content.model,
+    error: content.text ? undefined : content.warning,
+  };
+}
+
 /**
  * Process multiple files and extract text from each
  */
 export async function processMultipleFiles(
   files: formidable.File[],
-  apiKey?: string
+  apiKey?: string,
+  model?: string
 ): Promise<ProcessedFile[]> {
   const results = await Promise.allSettled(
-    files.map(file => extractTextFromFile(file, apiKey))
+    files.map(file => extractTextFromFile(file, apiKey, model))
   );
 
   return results.map((result, index) => {
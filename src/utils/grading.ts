@@ -0,0 +1,154 @@
+import type { Question, UserAnswer } from '../store/useSessionStore';
+
+/**
+ * Local grading for objective question types (MCQ, fill-in-the-blank, true/false).
+ * Short and long answers need a model and are graded by /api/analyze-answers.
+ */
+
+export const OBJECTIVE_TYPES = ['mcq', 'fill', 'true_false'] as const;
+export type ObjectiveType = typeof OBJECTIVE_TYPES[number];
+
+// Numeric answers within 0.5% of the expected value count as correct, to allow for rounding
+export const NUMERIC_TOLERANCE = 0.005;
+
+export const isObjectiveQuestion = (question: Question): question is Question & { type: ObjectiveType } => {
+  return (OBJECTIVE_TYPES as readonly string[]).includes(question.type);
+};
+
+/**
+ * Lower-case, strip accents and punctuation, collapse whitespace and drop a leading article
+ */
+export const normalizeAnswer = (value: string): string => {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    // Punctuation becomes a space, except decimal separators and minus signs inside numbers
+    .replace(/(?<!\d)[.,]|[.,](?!\d)|-(?!\d)|[^\p{L}\p{N}\s.,-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(the|a|an) /, '');
+};
+
+/**
+ * Read "1,250", "-3.5", "50%" or "1/4", optionally followed by a unit. Returns null for
+ * anything that is not a number.
+ */
+export const parseNumericAnswer = (value: string): { value: number; unit: string } | null => {
+  const match = value.trim().match(/^([-+]?(?:\d{1,3}(?:,\d{3})+|\d+)?(?:\.\d+)?)(?:\s*\/\s*(\d+(?:\.\d+)?))?\s*(.*)$/);
+  const [, number = '', divisor, unit = ''] = match || [];
+  if (!/\d/.test(number)) {
+    return null;
+  }
+
+  const numerator = parseFloat(number.replace(/,/g, ''));
+  const denominator = divisor ? parseFloat(divisor) : 1;
+  if (!Number.isFinite(numerator) || !denominator) {
+    return null;
+  }
+
+  return { value: numerator / denominator, unit: normalizeAnswer(unit) };
+};
+
+const numbersMatch = (expected: string, given: string): boolean => {
+  const expectedNumber = parseNumericAnswer(expected);
+  const givenNumber = parseNumericAnswer(given);
+  if (!expectedNumber || !givenNumber) {
+    return false;
+  }
+
+  // A missing unit is fine; a different one is not
+  if (expectedNumber.unit && givenNumber.unit && expectedNumber.unit !== givenNumber.unit) {
+    return false;
+  }
+
+  const difference = Math.abs(expectedNumber.value - givenNumber.value);
+  return difference <= Math.max(Math.abs(expectedNumber.value) * NUMERIC_TOLERANCE, 1e-9);
+};
+
+const textMatches = (expected: string, given: string): boolean => {
+  const normalizedGiven = normalizeAnswer(given);
+  return normalizedGiven !== '' && (normalizeAnswer(expected) === normalizedGiven || numbersMatch(expected, given));
+};
+
+const toBoolean = (value: string | boolean): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  const normalized = normalizeAnswer(value);
+  if (['true', 't', 'yes'].includes(normalized)) return true;
+  if (['false', 'f', 'no'].includes(normalized)) return false;
+  return null;
+};
+
+/**
+ * Whether an answer to an objective question is correct; null for short and long questions
+ */
+export const gradeObjectiveAnswer = (question: Question, answer: string | boolean | undefined): boolean | null => {
+  if (!isObjectiveQuestion(question)) {
+    return null;
+  }
+  if (answer === undefined || answer === '') {
+    return false;
+  }
+
+  switch (question.type) {
+    case 'true_false':
+      return toBoolean(answer) === toBoolean(question.answer);
+
+    case 'mcq': {
+      const given = String(answer);
+      if (given === question.answer) {
+        return true;
+      }
+      // Older questions sometimes store the option letter instead of its text
+      const letterIndex = /^[a-h]$/i.test(question.answer.trim())
+        ? question.answer.trim().toUpperCase().charCodeAt(0) - 65
+        : -1;
+      const expected = question.options?.[letterIndex] ?? question.answer;
+      return textMatches(expected, given);
+    }
+
+    case 'fill':
+      return [question.answer, ...(question.acceptedAnswers || [])].some((accepted) =>
+        textMatches(accepted, String(answer))
+      );
+  }
+};
+
+export interface TypeSubtotal {
+  correct: number;
+  total: number;
+}
+
+export interface ObjectiveGradingResult {
+  // isCorrect for every answered objective question, keyed by question id
+  grades: Record<string, boolean>;
+  subtotals: Partial<Record<ObjectiveType, TypeSubtotal>>;
+}
+
+/**
+ * Grade every objective question in a session. Unanswered questions count towards the
+ * subtotal as incorrect but get no grade, as there is no UserAnswer to mark.
+ */
+export const gradeObjectiveAnswers = (questions: Question[], userAnswers: UserAnswer[]): ObjectiveGradingResult => {
+  const answers = new Map(userAnswers.map((userAnswer) => [userAnswer.questionId, userAnswer.answer]));
+  const grades: Record<string, boolean> = {};
+  const subtotals: ObjectiveGradingResult['subtotals'] = {};
+
+  for (const question of questions) {
+    if (!isObjectiveQuestion(question)) continue;
+
+    const answer = answers.get(question.id);
+    const isCorrect = gradeObjectiveAnswer(question, answer) === true;
+    if (answers.has(question.id)) {
+      grades[question.id] = isCorrect;
+    }
+
+    const subtotal = subtotals[question.type] || { correct: 0, total: 0 };
+    subtotals[question.type] = {
+      correct: subtotal.correct + (isCorrect ? 1 : 0),
+      total: subtotal.total + 1,
+    };
+  }
+
+  return { grades, subtotals };
+};
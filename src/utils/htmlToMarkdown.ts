@@ -0,0 +1,161 @@
+/**
+ * Convert the simple HTML that mammoth produces from DOCX files into Markdown, keeping
+ * headings, (nested) lists, tables and emphasis so the model sees the document's structure
+ */
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (text: string) => {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+};
+
+interface Block {
+  text: string;
+  list: number | null; // Items of the same top-level list are not separated by blank lines
+}
+
+export const htmlToMarkdown = (html: string): string => {
+  const blocks: Block[] = [];
+  const lists: Array<{ ordered: boolean; count: number }> = [];
+  let listGroup = 0;
+  let line = '';
+  let prefix = '';
+  let table: string[][] | null = null;
+  let row: string[] | null = null;
+  let cell: string | null = null;
+
+  const write = (text: string) => {
+    if (cell !== null) {
+      cell += text;
+    } else {
+      line += text;
+    }
+  };
+
+  const flush = () => {
+    const text = line.replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').trim();
+    if (text) {
+      blocks.push({ text: prefix + text, list: prefix !== '' && lists.length > 0 ? listGroup : null });
+    }
+    line = '';
+    prefix = '';
+  };
+
+  const renderTable = (rows: string[][]) => {
+    const width = Math.max(...rows.map((cells) => cells.length));
+    const format = (cells: string[]) => {
+      const padded = [...cells, ...Array(width - cells.length).fill('')];
+      return `| ${padded.map((text) => text.replace(/\|/g, '\\|')).join(' | ')} |`;
+    };
+    return [format(rows[0]!), `|${' --- |'.repeat(width)}`, ...rows.slice(1).map(format)].join('\n');
+  };
+
+  const tokens = html.matchAll(/<(\/?)([a-z][a-z0-9]*)\b[^>]*>|([^<]+)/gi);
+
+  for (const [, closing, rawTag, text] of tokens) {
+    if (text !== undefined) {
+      write(decodeEntities(text).replace(/\s+/g, ' '));
+      continue;
+    }
+
+    const tag = rawTag!.toLowerCase();
+    const isClosing = closing === '/';
+
+    switch (tag) {
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        flush();
+        if (!isClosing) prefix = `${'#'.repeat(Number(tag[1]))} `;
+        break;
+
+      case 'p':
+        if (cell !== null) {
+          if (!isClosing && cell.trim()) cell += ' ';
+        } else if (isClosing || line.trim()) {
+          // A paragraph inside a list item keeps the item's prefix
+          flush();
+        }
+        break;
+
+      case 'ul': case 'ol':
+        flush();
+        if (isClosing) {
+          lists.pop();
+        } else {
+          if (lists.length === 0) listGroup++;
+          lists.push({ ordered: tag === 'ol', count: 0 });
+        }
+        break;
+
+      case 'li': {
+        flush();
+        const list = lists[lists.length - 1];
+        if (!isClosing && list) {
+          list.count++;
+          prefix = `${'  '.repeat(lists.length - 1)}${list.ordered ? `${list.count}.` : '-'} `;
+        }
+        break;
+      }
+
+      case 'table':
+        flush();
+        if (isClosing) {
+          if (table && table.length > 0) blocks.push({ text: renderTable(table), list: null });
+          table = null;
+        } else {
+          table = [];
+        }
+        break;
+
+      case 'tr':
+        if (isClosing) {
+          if (row && table) table.push(row);
+          row = null;
+        } else {
+          row = [];
+        }
+        break;
+
+      case 'td': case 'th':
+        if (isClosing) {
+          row?.push((cell || '').replace(/\s+/g, ' ').trim());
+          cell = null;
+        } else {
+          cell = '';
+        }
+        break;
+
+      case 'strong': case 'b':
+        write('**');
+        break;
+
+      case 'em': case 'i':
+        write('_');
+        break;
+
+      case 'br':
+        write(cell !== null ? ' ' : '\n');
+        break;
+    }
+  }
+  flush();
+
+  return blocks
+    .map((block, i) => (i > 0 && (block.list === null || block.list !== blocks[i - 1]!.list) ? `\n${block.text}` : block.text))
+    .join('\n')
+    // Emphasis markers around nothing, e.g. from empty bold runs
+    .replace(/\*\*\s*\*\*|(?<![\w_])_\s*_(?![\w_])/g, '')
+    .trim();
+};
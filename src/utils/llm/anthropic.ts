@@ -0,0 +1,97 @@
+import { readServerSentEvents } from '../sse';
+import type { LLMProvider } from './types';
+import { isInlineDataPart } from './types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Claude adapter using the Messages API
+ */
+export const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  label: 'Anthropic Claude',
+  apiKeyEnv: 'ANTHROPIC_API_KEY',
+  defaultModel: 'claude-3-haiku-20240307',
+  fallbackModels: ['claude-3-haiku-20240307'],
+  supportsImages: true,
+  // No native JSON mode; prefilling the reply with "{" keeps Claude to a bare JSON object
+  supportsJsonMode: true,
+  supportsStreaming: true,
+
+  generate: async ({ model, apiKey, parts, options }) => {
+    const content = parts.map((part) => {
+      if (isInlineDataPart(part)) {
+        return {
+          type: 'image',
+          source: {
+            type: 'base64',
+            media_type: part.inlineData.mimeType,
+            data: part.inlineData.data,
+          },
+        };
+      }
+      return { type: 'text', text: part };
+    });
+
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: options.maxOutputTokens ?? 4096,
+        temperature: options.temperature,
+        messages: [
+          { role: 'user', content },
+          ...(options.json ? [{ role: 'assistant', content: '{' }] : []),
+        ],
+        ...(options.onText && { stream: true }),
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`[${response.status} ${response.statusText}] Anthropic request failed: ${body}`);
+    }
+
+    // The prefilled "{" is not echoed back, so it is restored before text is reported
+    const prefix = options.json ? '{' : '';
+
+    if (options.onText && response.body) {
+      let text = prefix;
+      for await (const { event, data } of readServerSentEvents(response.body)) {
+        if (event === 'error') {
+          throw new Error(`Anthropic stream error: ${data}`);
+        }
+        if (event === 'content_block_delta') {
+          const delta = JSON.parse(data).delta;
+          if (delta?.type === 'text_delta') {
+            text += delta.text;
+            options.onText(text);
+          }
+        }
+      }
+
+      return {
+        text,
+        provider: 'anthropic',
+        model,
+      };
+    }
+
+    const data = await response.json();
+    const text = (data.content ?? [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    return {
+      text: `${prefix}${text}`,
+      provider: 'anthropic',
+      model,
+    };
+  },
+};
@@ -0,0 +1,149 @@
+import type { ContentPart, GenerateParams, LLMProvider } from './types';
+import { isInlineDataPart } from './types';
+
+export type FakeResponder = (prompt: string, params: GenerateParams) => string | Promise<string>;
+
+const countFor = (prompt: string, pattern: RegExp): number => {
+  const match = prompt.match(pattern);
+  return match?.[1] ? parseInt(match[1], 10) : 0;
+};
+
+const range = (count: number) => Array.from({ length: count }, (_, i) => i + 1);
+
+// Rubric grading prompts number each answer ("Answer 2 (short answer):")
+const gradeAnswers = (prompt: string) => {
+  const indexes = Array.from(prompt.matchAll(/^Answer (\d+) \(/gm), (match) => parseInt(match[1]!, 10));
+
+  return JSON.stringify({
+    grades: indexes.map((index) => ({
+      index,
+      criteria: {
+        accuracy: { rating: 8, comment: 'Mostly correct.' },
+        completeness: { rating: 6, comment: 'Misses some detail.' },
+        clarity: { rating: 7, comment: 'Clear enough.' },
+      },
+      feedback: `Canned feedback for answer ${index} from the offline fake provider.`,
+      missingKeyPoints: ['A key point from the reference answer'],
+    })),
+    overallFeedback: 'Canned overall feedback from the offline fake provider.',
+  });
+};
+
+// Words each question is about: from the uploaded material when there is some, so cited quotes
+// can be verified, and different for every question so they are not taken for near-duplicates
+const QUESTION_WORDS = 6;
+const FILLER_WORDS = 'alpha bravo charlie delta echo foxtrot golf hotel india juliet kilo lima mike november oscar papa quebec romeo sierra tango uniform victor whiskey xray yankee zulu'.split(' ');
+
+// Chunked material starts with a "[Source: name]" marker, then "[Page N]" for paginated files
+const findMaterial = (prompt: string) => {
+  const match = prompt.match(/\[Source: ([^\]\n]+)\]\n(?:\[Page (\d+)\]\n)?([^[]+)/);
+  if (!match) return undefined;
+  return {
+    file: match[1]!,
+    page: match[2] ? parseInt(match[2], 10) : null,
+    words: match[3]!.split(/\s+/).filter(Boolean),
+  };
+};
+
+/**
+ * Default responder: answers question-generation prompts with a deterministic question set
+ * sized from the counts in the prompt, grading prompts with fixed ratings, and anything else
+ * with a short canned reply.
+ */
+export const defaultFakeResponder: FakeResponder = (prompt) => {
+  if (prompt.includes('Rubric criteria:')) {
+    return gradeAnswers(prompt);
+  }
+
+  const counts = {
+    mcqs: countFor(prompt, /(\d+) multiple choice/i),
+    fill: countFor(prompt, /(\d+) fill in the blank/i),
+    trueFalse: countFor(prompt, /(\d+) true\/false/i),
+    short: countFor(prompt, /(\d+) short answer/i),
+    long: countFor(prompt, /(\d+) long answer/i),
+  };
+
+  if (Object.values(counts).every((count) => count === 0)) {
+    return 'Score: 75/100. This is a canned response from the offline fake provider.';
+  }
+
+  const material = findMaterial(prompt);
+  const pool = material && material.words.length >= QUESTION_WORDS ? material.words : FILLER_WORDS;
+  const about = (n: number) => Array.from(
+    { length: QUESTION_WORDS },
+    (_, i) => pool[((n - 1) * QUESTION_WORDS + i) % pool.length]
+  ).join(' ');
+  const cite = (n: number) => (material && prompt.includes('"source"')
+    ? { source: { file: material.file, page: material.page, quote: about(n) } }
+    : {});
+
+  return JSON.stringify({
+    mcqs: range(counts.mcqs).map((n) => ({
+      question: `Fake multiple choice question ${n} on "${about(n)}"?`,
+      options: ['Option A', 'Option B', 'Option C', 'Option D'],
+      answer: 'Option A',
+      explanation: `Option A is correct for question ${n}.`,
+      ...cite(n),
+    })),
+    fill_in_the_blanks: range(counts.fill).map((n) => ({
+      question: `Fake fill in the blank ${n} on "${about(n)}": the answer is _____.`,
+      answer: `answer ${n}`,
+      ...cite(n),
+    })),
+    true_false: range(counts.trueFalse).map((n) => ({
+      question: `Fake statement ${n} on "${about(n)}" is true.`,
+      answer: n % 2 === 1,
+      ...cite(n),
+    })),
+    short_type: range(counts.short).map((n) => ({
+      question: `Fake short answer question ${n} on "${about(n)}"?`,
+      answer: `Short answer ${n}`,
+      points: 2,
+      ...cite(n),
+    })),
+    long_type: range(counts.long).map((n) => ({
+      question: `Fake long answer question ${n} on "${about(n)}"?`,
+      answer: `Detailed answer ${n}`,
+      points: 5,
+      ...cite(n),
+    })),
+  });
+};
+
+const FAKE_STREAM_CHUNK = 64;
+
+const promptText = (parts: ContentPart[]) => {
+  return parts.filter((part): part is string => !isInlineDataPart(part)).join('\n');
+};
+
+/**
+ * In-process provider for exercising the pipeline offline. Pass a responder to script replies.
+ */
+export const createFakeProvider = (responder: FakeResponder = defaultFakeResponder): LLMProvider => ({
+  id: 'fake',
+  label: 'Offline fake',
+  defaultModel: 'echo',
+  fallbackModels: [],
+  supportsImages: true,
+  supportsJsonMode: true,
+  supportsStreaming: true,
+
+  generate: async (params) => {
+    const text = await responder(promptText(params.parts), params);
+
+    // Replay the reply in small slices so streaming consumers see partial output
+    if (params.options.onText) {
+      for (let end = FAKE_STREAM_CHUNK; end < text.length; end += FAKE_STREAM_CHUNK) {
+        params.options.onText(text.slice(0, end));
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+      params.options.onText(text);
+    }
+
+    return {
+      text,
+      provider: 'fake',
+      model: params.model,
+    };
+  },
+});
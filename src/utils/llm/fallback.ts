@@ -0,0 +1,119 @@
+import { generateText, getProvider, parseModelId } from './registry';
+import type { ContentPart, GenerateOptions, GenerateTextResult } from './types';
+
+export interface RetryOptions {
+  maxRetries?: number;   // Retries per model for transient errors
+  baseDelayMs?: number;  // First backoff delay, doubled on each retry
+  maxDelayMs?: number;
+}
+
+export interface FallbackAttempt {
+  model: string;
+  error: string;
+}
+
+// Unlike GenerateTextResult, `model` is the full "provider/model" value so it can be passed back in
+export interface FallbackResult extends GenerateTextResult {
+  // Failed attempts before the one that answered
+  attempts: FallbackAttempt[];
+}
+
+export type ErrorKind = 'transient' | 'model' | 'auth';
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+};
+
+const TRANSIENT_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+const NETWORK_ERROR_PATTERN = /fetch failed|network|socket hang up|ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN/i;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Adapters and the Gemini SDK report HTTP failures as "[status statusText] message"
+ */
+export const getErrorStatus = (error: unknown): number | undefined => {
+  const match = errorMessage(error).match(/\[(\d{3})\b/);
+  return match?.[1] ? parseInt(match[1], 10) : undefined;
+};
+
+/**
+ * transient: worth retrying the same model (rate limits, overload, network)
+ * auth: the key is wrong, so no model from this provider will work
+ * model: this model failed for good (not found, bad request, unparseable) - try the next one
+ */
+export const classifyError = (error: unknown): ErrorKind => {
+  const status = getErrorStatus(error);
+  const message = errorMessage(error);
+
+  if (status === 401 || status === 403 || /API key/i.test(message)) {
+    return 'auth';
+  }
+  if ((status && TRANSIENT_STATUSES.includes(status)) || (!status && NETWORK_ERROR_PATTERN.test(message))) {
+    return 'transient';
+  }
+  return 'model';
+};
+
+/**
+ * The selected model followed by its provider's fallbacks, as "provider/model" values
+ */
+export const getFallbackChain = (modelId?: string): string[] => {
+  const { provider, model } = parseModelId(modelId);
+  const chain = [model, ...getProvider(provider).fallbackModels];
+  return Array.from(new Set(chain)).map((name) => `${provider}/${name}`);
+};
+
+/**
+ * Generate with exponential backoff on transient errors, then walk the fallback chain.
+ * The result's `model` is the one that actually answered.
+ */
+export const generateWithFallback = async (
+  parts: ContentPart | ContentPart[],
+  {
+    model,
+    apiKey,
+    retry,
+    ...options
+  }: GenerateOptions & { model?: string; apiKey?: string; retry?: RetryOptions } = {}
+): Promise<FallbackResult> => {
+  const { maxRetries, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY, ...retry };
+  const attempts: FallbackAttempt[] = [];
+  let lastError: unknown;
+
+  for (const candidate of getFallbackChain(model)) {
+    for (let retryCount = 0; retryCount <= maxRetries; retryCount++) {
+      try {
+        const result = await generateText(parts, { ...options, model: candidate, apiKey });
+        if (attempts.length > 0) {
+          console.log(`Generation succeeded with ${candidate} after ${attempts.length} failed attempt(s)`);
+        }
+        return { ...result, model: candidate, attempts };
+      } catch (error) {
+        lastError = error;
+        attempts.push({ model: candidate, error: errorMessage(error) });
+
+        const kind = classifyError(error);
+        console.warn(`Model ${candidate} failed (${kind}, attempt ${retryCount + 1}):`, errorMessage(error));
+
+        if (kind === 'auth') {
+          throw error;
+        }
+        if (kind === 'model' || retryCount === maxRetries) {
+          break;
+        }
+
+        const delay = Math.min(baseDelayMs * 2 ** retryCount, maxDelayMs);
+        await sleep(delay + Math.random() * delay * 0.2);
+      }
+    }
+  }
+
+  throw new Error(
+    `All models failed (${attempts.map((a) => a.model).join(', ')}): ${errorMessage(lastError)}`
+  );
+};
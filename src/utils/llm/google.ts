@@ -0,0 +1,56 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { LLMProvider } from './types';
+
+/**
+ * Gemini adapter. Prompt parts are already in Gemini's format, so they are passed through as-is.
+ */
+export const googleProvider: LLMProvider = {
+  id: 'google',
+  label: 'Google Gemini',
+  apiKeyEnv: 'GEMINI_API_KEY',
+  defaultModel: 'gemini-1.5-flash',
+  fallbackModels: [
+    'gemini-1.5-flash',        // Current stable multimodal model
+    'gemini-1.5-pro',          // Higher quality option
+    'gemini-pro',              // Fallback stable model
+  ],
+  supportsImages: true,
+  // The pinned SDK talks to the v1 API, which has no JSON response mode
+  supportsJsonMode: false,
+  supportsStreaming: true,
+
+  generate: async ({ model, apiKey, parts, options }) => {
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const generativeModel = genAI.getGenerativeModel({
+      model,
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxOutputTokens,
+      },
+    });
+
+    if (options.onText) {
+      const result = await generativeModel.generateContentStream(parts);
+      let text = '';
+      for await (const chunk of result.stream) {
+        text += chunk.text();
+        options.onText(text);
+      }
+
+      return {
+        text,
+        provider: 'google',
+        model,
+      };
+    }
+
+    const result = await generativeModel.generateContent(parts);
+    const response = await result.response;
+
+    return {
+      text: response.text(),
+      provider: 'google',
+      model,
+    };
+  },
+};
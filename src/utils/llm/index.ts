@@ -0,0 +1,5 @@
+export * from './types';
+export * from './registry';
+export * from './fallback';
+export { createFakeProvider, defaultFakeResponder } from './fake';
+export type { FakeResponder } from './fake';
@@ -0,0 +1,118 @@
+import { readServerSentEvents } from '../sse';
+import type { LLMProvider, ProviderId } from './types';
+import { isInlineDataPart } from './types';
+
+interface OpenAICompatibleOptions {
+  id: ProviderId;
+  label: string;
+  baseUrl: string;
+  apiKeyEnv: string;
+  defaultModel: string;
+  fallbackModels: string[];
+  supportsImages: boolean;
+}
+
+/**
+ * Adapter for the OpenAI chat completions API and services that mirror it (DeepSeek)
+ */
+export const createOpenAICompatibleProvider = ({
+  id,
+  label,
+  baseUrl,
+  apiKeyEnv,
+  defaultModel,
+  fallbackModels,
+  supportsImages,
+}: OpenAICompatibleOptions): LLMProvider => ({
+  id,
+  label,
+  apiKeyEnv,
+  defaultModel,
+  fallbackModels,
+  supportsImages,
+  supportsJsonMode: true,
+  supportsStreaming: true,
+
+  generate: async ({ model, apiKey, parts, options }) => {
+    const content = parts.map((part) => {
+      if (isInlineDataPart(part)) {
+        return {
+          type: 'image_url',
+          image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` },
+        };
+      }
+      return { type: 'text', text: part };
+    });
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{
+          role: 'user',
+          // Text-only providers expect a plain string rather than content blocks
+          content: supportsImages ? content : parts.join(''),
+        }],
+        temperature: options.temperature,
+        max_tokens: options.maxOutputTokens,
+        ...(options.json && { response_format: { type: 'json_object' } }),
+        ...(options.onText && { stream: true }),
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`[${response.status} ${response.statusText}] ${label} request failed: ${body}`);
+    }
+
+    if (options.onText && response.body) {
+      let text = '';
+      for await (const { data } of readServerSentEvents(response.body)) {
+        if (data === '[DONE]') break;
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          options.onText(text);
+        }
+      }
+
+      return {
+        text,
+        provider: id,
+        model,
+      };
+    }
+
+    const data = await response.json();
+
+    return {
+      text: data.choices?.[0]?.message?.content ?? '',
+      provider: id,
+      model,
+    };
+  },
+});
+
+export const openaiProvider = createOpenAICompatibleProvider({
+  id: 'openai',
+  label: 'OpenAI',
+  baseUrl: 'https://api.openai.com/v1',
+  apiKeyEnv: 'OPENAI_API_KEY',
+  defaultModel: 'gpt-4o-mini',
+  fallbackModels: ['gpt-4o-mini'],
+  supportsImages: true,
+});
+
+export const deepseekProvider = createOpenAICompatibleProvider({
+  id: 'deepseek',
+  label: 'DeepSeek',
+  baseUrl: 'https://api.deepseek.com/v1',
+  apiKeyEnv: 'DEEPSEEK_API_KEY',
+  defaultModel: 'deepseek-chat',
+  fallbackModels: ['deepseek-chat'],
+  supportsImages: false,
+});
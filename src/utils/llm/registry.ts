@@ -0,0 +1,127 @@
+import { anthropicProvider } from './anthropic';
+import { createFakeProvider } from './fake';
+import { googleProvider } from './google';
+import { deepseekProvider, openaiProvider } from './openai';
+import type { ContentPart, GenerateOptions, GenerateTextResult, LLMProvider, ProviderId } from './types';
+
+// Used when the client does not send a model; override with EDUQUEST_DEFAULT_MODEL (e.g. "fake/echo")
+export const DEFAULT_MODEL = process.env.EDUQUEST_DEFAULT_MODEL || 'google/gemini-1.5-flash';
+
+const providers = new Map<ProviderId, LLMProvider>();
+
+export const registerProvider = (provider: LLMProvider) => {
+  providers.set(provider.id, provider);
+};
+
+[googleProvider, openaiProvider, anthropicProvider, deepseekProvider, createFakeProvider()].forEach(registerProvider);
+
+// Prefixes used by the model selector that differ from provider IDs
+const PROVIDER_ALIASES: Record<string, ProviderId> = {
+  gemini: 'google',
+  claude: 'anthropic',
+};
+
+const isFakeAllowed = () => {
+  return process.env.NODE_ENV === 'test' || process.env.EDUQUEST_FAKE_LLM === 'true';
+};
+
+/**
+ * Split a "provider/model" value (as sent by the model selector) into its parts.
+ * Bare model names are treated as Gemini models for backwards compatibility.
+ */
+export const parseModelId = (modelId?: string): { provider: ProviderId; model: string } => {
+  const value = (modelId || DEFAULT_MODEL).trim();
+  const slashIndex = value.indexOf('/');
+
+  if (slashIndex === -1) {
+    return { provider: 'google', model: value };
+  }
+
+  const prefix = value.slice(0, slashIndex).toLowerCase();
+  const provider = (PROVIDER_ALIASES[prefix] || prefix) as ProviderId;
+
+  if (!providers.has(provider)) {
+    throw new Error(`Unknown model provider: ${prefix}`);
+  }
+
+  return {
+    provider,
+    model: value.slice(slashIndex + 1) || providers.get(provider)!.defaultModel,
+  };
+};
+
+export const getProvider = (providerId: ProviderId): LLMProvider => {
+  const provider = providers.get(providerId);
+
+  if (!provider || (providerId === 'fake' && !isFakeAllowed())) {
+    throw new Error(`Model provider "${providerId}" is not available`);
+  }
+
+  return provider;
+};
+
+/**
+ * Resolve the key for a provider. The user's own key (x-api-key header) is a Gemini key,
+ * so it only applies to Google; other providers use their server-side environment keys.
+ */
+export const resolveApiKey = (providerId: ProviderId, userApiKey?: string): string | undefined => {
+  if (providerId === 'fake') {
+    return 'fake';
+  }
+  if (providerId === 'google' && userApiKey) {
+    return userApiKey;
+  }
+  const envName = providers.get(providerId)?.apiKeyEnv;
+  return envName ? process.env[envName] : undefined;
+};
+
+export const hasApiKeyFor = (modelId: string | undefined, userApiKey?: string): boolean => {
+  try {
+    return !!resolveApiKey(parseModelId(modelId).provider, userApiKey);
+  } catch {
+    return false;
+  }
+};
+
+export const supportsImageInput = (modelId?: string): boolean => {
+  return providers.get(parseModelId(modelId).provider)?.supportsImages ?? false;
+};
+
+/**
+ * Run a single generation against the provider selected by `model`
+ */
+export const generateText = async (
+  parts: ContentPart | ContentPart[],
+  { model: modelId, apiKey: userApiKey, ...options }: GenerateOptions & { model?: string; apiKey?: string } = {}
+): Promise<GenerateTextResult> => {
+  const { provider: providerId, model } = parseModelId(modelId);
+  const provider = getProvider(providerId);
+  const apiKey = resolveApiKey(providerId, userApiKey);
+
+  if (!apiKey) {
+    throw new Error(`${provider.apiKeyEnv || providerId} API key is not available`);
+  }
+
+  const promptParts = Array.isArray(parts) ? parts : [parts];
+
+  if (!provider.supportsImages && promptParts.some((part) => typeof part !== 'string')) {
+    throw new Error(`${provider.label} does not accept image input. Choose a multimodal model.`);
+  }
+
+  const { onText, ...rest } = options;
+  const result = await provider.generate({
+    model,
+    apiKey,
+    parts: promptParts,
+    options: {
+      ...rest,
+      json: options.json && provider.supportsJsonMode,
+      onText: provider.supportsStreaming ? onText : undefined,
+    },
+  });
+
+  if (onText && !provider.supportsStreaming) {
+    onText(result.text);
+  }
+  return result;
+};
@@ -0,0 +1,56 @@
+/**
+ * Shared types for the provider-agnostic LLM layer
+ */
+
+export type ProviderId = 'google' | 'openai' | 'anthropic' | 'deepseek' | 'fake';
+
+export interface InlineDataPart {
+  inlineData: {
+    data: string; // base64
+    mimeType: string;
+  };
+}
+
+// Prompt parts follow the Gemini convention: plain strings or inline base64 blobs
+export type ContentPart = string | InlineDataPart;
+
+export interface GenerateOptions {
+  // Ask for a JSON-only response where the provider supports it
+  json?: boolean;
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Called with the text received so far as the response streams in; restarts from empty on a retry
+  onText?: (text: string) => void;
+}
+
+export interface GenerateParams {
+  model: string;
+  apiKey: string;
+  parts: ContentPart[];
+  options: GenerateOptions;
+}
+
+export interface GenerateTextResult {
+  text: string;
+  provider: ProviderId;
+  model: string;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  // Server-side environment variable holding this provider's key
+  apiKeyEnv?: string;
+  defaultModel: string;
+  // Models to try, in order, when the selected one keeps failing
+  fallbackModels: string[];
+  supportsImages: boolean;
+  supportsJsonMode: boolean;
+  // Calls options.onText while the response arrives; otherwise the registry reports the text once at the end
+  supportsStreaming: boolean;
+  generate: (params: GenerateParams) => Promise<GenerateTextResult>;
+}
+
+export const isInlineDataPart = (part: ContentPart): part is InlineDataPart => {
+  return typeof part === 'object' && part !== null && 'inlineData' in part;
+};
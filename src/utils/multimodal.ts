@@ -1,35 +1,23 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { z } from 'zod';
-
-// Schemas for structured outputs
-export const QuestionSchema = z.object({
-  mcqs: z.array(z.object({
-    question: z.string(),
-    options: z.array(z.string()),
-    answer: z.string(),
-    explanation: z.string().optional(),
-  })),
-  fill_in_the_blanks: z.array(z.object({
-    question: z.string(),
-    answer: z.string(),
-    explanation: z.string().optional(),
-  })),
-  true_false: z.array(z.object({
-    question: z.string(),
-    answer: z.boolean(),
-    explanation: z.string().optional(),
-  })),
-  short_type: z.array(z.object({
-    question: z.string(),
-    answer: z.string(),
-    points: z.number().optional(),
-  })),
-  long_type: z.array(z.object({
-    question: z.string(),
-    answer: z.string(),
-    points: z.number().optional(),
-  })),
-});
+import type formidable from 'formidable';
+import { generateWithFallback, supportsImageInput } from './llm';
+import type { ContentPart } from './llm';
+import { extractFileContent } from './fileProcessing';
+import type { SkippedFile } from './fileProcessing';
+import { emptyQuestionSet, generateQuestionSet } from './questionGeneration';
+import type { GenerationCallbacks, GenerationProgress, StructuredGenerationResult } from './questionGeneration';
+import { QUESTION_TYPES } from './questionSchema';
+import type { QuestionConfig, QuestionItem } from './questionSchema';
+import { DEFAULT_CHUNK_TOKENS, chunkSources, distributeCount } from './chunking';
+import type { TextChunk } from './chunking';
+import { createSourceVerifier } from './citations';
+import type { DuplicateMatch } from './similarity';
+import { QUESTION_COUNT_KEYS } from '../config/api';
+import type { QuestionCountKey } from '../config/api';
+
+// Question schemas live with the structured generation pipeline; re-exported for existing imports
+export { QuestionSchema } from './questionSchema';
+export type { QuestionSet, QuestionConfig } from './questionSchema';
 
 export const ContentExtractionSchema = z.object({
   mainContent: z.string(),
@@ -39,7 +27,6 @@ export const ContentExtractionSchema = z.object({
   estimatedReadingTime: z.number().optional(),
 });
 
-export type QuestionSet = z.infer<typeof QuestionSchema>;
 export type ContentExtraction = z.infer<typeof ContentExtractionSchema>;
 
 interface ProcessedContext {
@@ -50,139 +37,178 @@ interface ProcessedContext {
   }[];
   documentData?: {
     type: string;
+    filename?: string;
     content: string;
   }[];
 }
 
-interface QuestionConfig {
-  mcqs: number;
-  fillInBlanks: number;
-  trueFalse: number;
-  shortType: number;
-  longType: number;
+export type ChunkSummary = Omit<TextChunk, 'text'> & {
+  questions: number;  // Questions kept from this chunk
+};
+
+export interface ContextGenerationResult extends StructuredGenerationResult {
+  chunks: ChunkSummary[];
 }
 
+const TEXT_CONTENT_SOURCE = 'Text content';
+
+// Chunks asked for missing questions once every chunk has had its share, largest first
+const MAX_REDUCE_TOP_UPS = 2;
+
 /**
- * Generate questions with multimodal context (text + images + documents)
+ * Generate questions with multimodal context (text + images + documents).
+ *
+ * The material is split into chunks that fit one prompt, and each chunk is asked for a share of
+ * every question type in proportion to its length (map). The sets are merged with near-duplicates dropped,
+ * and types still short afterwards are topped up from the largest chunks (reduce). Every question
+ * records the chunk it came from, and its cited source is checked against the material.
  */
 export async function generateQuestionsWithContext(
   context: ProcessedContext,
   config: QuestionConfig,
   additionalPrompt?: string,
-  apiKey?: string
-): Promise<QuestionSet> {
+  apiKey?: string,
+  model?: string,
+  callbacks: GenerationCallbacks = {},
+  maxChunkTokens = DEFAULT_CHUNK_TOKENS
+): Promise<ContextGenerationResult> {
   try {
-    const keyToUse = apiKey || process.env.GEMINI_API_KEY;
-    
-    if (!keyToUse) {
-      throw new Error("GEMINI_API_KEY is not available");
-    }
-
-    const genAI = new GoogleGenerativeAI(keyToUse);
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-
-    const basePrompt = `Based on the provided content, generate educational assessment questions with the following requirements:
-
-- ${config.mcqs} multiple choice questions (MCQs) with 4 options each
-- ${config.fillInBlanks} fill in the blank questions
-- ${config.trueFalse} true/false questions  
-- ${config.shortType} short answer questions
-- ${config.longType} long answer questions
+    const basePrompt = `Based on the provided content, generate educational assessment questions.
 
 ${additionalPrompt ? `Additional context: ${additionalPrompt}` : ''}
 
-Return a valid JSON object with this exact structure:
-{
-  "mcqs": [
-    {
-      "question": "Question text here",
-      "options": ["Option A", "Option B", "Option C", "Option D"],
-      "answer": "Correct option",
-      "explanation": "Brief explanation (optional)"
-    }
-  ],
-  "fill_in_the_blanks": [
-    {
-      "question": "Question with _____ blank",
-      "answer": "correct answer",
-      "explanation": "Brief explanation (optional)"
-    }
-  ],
-  "true_false": [
-    {
-      "question": "Statement to evaluate",
-      "answer": true,
-      "explanation": "Brief explanation (optional)"
-    }
-  ],
-  "short_type": [
-    {
-      "question": "Short answer question",
-      "answer": "Expected short answer",
-      "points": 2
-    }
-  ],
-  "long_type": [
-    {
-      "question": "Long answer question",
-      "answer": "Expected detailed answer",
-      "points": 5
-    }
-  ]
-}
-
-Make questions comprehensive, covering key concepts from the provided material. Ensure JSON is valid without markdown formatting.`;
-
-    const contentParts: any[] = [basePrompt];
-
-    // Add text content
-    if (context.textContent) {
-      contentParts.push(`\n\nText Content:\n${context.textContent}`);
-    }
+Make questions comprehensive, covering key concepts from the provided material.`;
+
+    const materials = [
+      { name: TEXT_CONTENT_SOURCE, text: context.textContent },
+      ...(context.documentData || []).map((doc, index) => ({
+        name: doc.filename || `Document ${index + 1} (${doc.type})`,
+        text: doc.content,
+      })),
+    ];
+    const chunks = chunkSources(materials, maxChunkTokens);
+    const verifySource = createSourceVerifier(materials);
+
+    // Record the chunk and check the citation; streamed and final questions go through the same step
+    const withOrigin = <T extends QuestionItem>(item: T, chunk?: number): T => {
+      if (chunk === undefined) {
+        return item;
+      }
+      return { ...item, chunk, ...(item.source ? { source: verifySource(item.source) } : {}) };
+    };
 
-    // Add image data if present
-    if (context.imageData && context.imageData.length > 0) {
+    // Text-only models rely on the text extracted during preprocessing
+    const imageParts: ContentPart[] = [];
+    if (context.imageData && context.imageData.length > 0 && supportsImageInput(model)) {
       context.imageData.forEach((img, index) => {
-        contentParts.push({
+        imageParts.push({
           inlineData: {
             data: img.data,
             mimeType: img.mimeType,
           },
         });
-        contentParts.push(`\n[Image ${index + 1} above should be analyzed for content]`);
+        imageParts.push(`\n[Image ${index + 1} above should be analyzed for content]`);
       });
     }
 
-    // Add document data
-    if (context.documentData && context.documentData.length > 0) {
-      context.documentData.forEach((doc, index) => {
-        contentParts.push(`\n\nDocument ${index + 1} (${doc.type}):\n${doc.content}`);
+    // Images go with the first chunk, which starts with the text extracted from them
+    const buildParts = (chunk?: TextChunk): ContentPart[] => {
+      const parts: ContentPart[] = [basePrompt];
+      if (chunk) {
+        const label = chunks.length > 1 ? `Material (part ${chunk.index + 1} of ${chunks.length})` : 'Material';
+        parts.push(`\n\n${label}:\n${chunk.text}`);
+      }
+      return !chunk || chunk.index === 0 ? [...parts, ...imageParts] : parts;
+    };
+
+    const questions = emptyQuestionSet();
+    let answeredBy: string | undefined;
+    let repairs = 0;
+    let topUps = 0;
+    const duplicates: DuplicateMatch[] = [];
+
+    const generate = async (chunk: TextChunk | undefined, counts: Record<QuestionCountKey, number>, maxTopUps?: number) => {
+      const describe = chunk && chunks.length > 1 ? ` (part ${chunk.index + 1} of ${chunks.length})` : '';
+      const result = await generateQuestionSet(buildParts(chunk), { ...config, ...counts }, {
+        model: answeredBy ?? model,
+        apiKey,
+        maxTopUps,
+        avoid: questions,
+        citeSources: chunk !== undefined,
+        // Indexes continue after the questions merged from earlier chunks
+        onQuestion: callbacks.onQuestion && ((setKey, item, index) => {
+          callbacks.onQuestion!(setKey, withOrigin(item, chunk?.index), questions[setKey].length + index);
+        }),
+        onProgress: callbacks.onProgress && ((progress) => {
+          callbacks.onProgress!({ ...progress, message: progress.message + describe });
+        }),
       });
-    }
 
-    console.log('Generating questions with multimodal context...');
-    const result = await model.generateContent(contentParts);
-    const response = await result.response;
-    const text = await response.text();
+      answeredBy ??= result.model;
+      repairs += result.repairs;
+      topUps += result.topUps;
+      duplicates.push(...result.duplicates);
+      for (const { setKey } of QUESTION_TYPES) {
+        (questions[setKey] as QuestionItem[]).push(...result.questions[setKey].map((item) => withOrigin(item, chunk?.index)));
+      }
+    };
 
-    console.log('Raw multimodal response:', text);
+    const missingCounts = () => Object.fromEntries(QUESTION_TYPES.map(({ configKey, setKey }) => (
+      [configKey, Math.max((config[configKey] || 0) - questions[setKey].length, 0)]
+    ))) as Record<QuestionCountKey, number>;
 
-    // Clean the response
-    let cleanedText = text.trim();
-    if (cleanedText.startsWith('```json')) {
-      cleanedText = cleanedText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-    } else if (cleanedText.startsWith('```')) {
-      cleanedText = cleanedText.replace(/^```\s*/, '').replace(/\s*```$/, '');
+    console.log(`Generating questions with multimodal context from ${chunks.length} chunk(s)...`);
+
+    if (chunks.length === 0) {
+      await generate(undefined, missingCounts());
+    } else {
+      const weights = chunks.map((chunk) => chunk.length);
+      const shares = QUESTION_COUNT_KEYS.map((key) => distributeCount(config[key] || 0, weights));
+
+      for (const chunk of chunks) {
+        const counts = Object.fromEntries(
+          QUESTION_COUNT_KEYS.map((key, keyIndex) => [key, shares[keyIndex]![chunk.index]!])
+        ) as Record<QuestionCountKey, number>;
+
+        if (Object.values(counts).some((count) => count > 0)) {
+          await generate(chunk, counts);
+        }
+      }
+
+      // Repeats dropped across chunks can leave types short
+      const largest = [...chunks].sort((a, b) => b.length - a.length).slice(0, MAX_REDUCE_TOP_UPS);
+      for (const chunk of chunks.length > 1 ? largest : []) {
+        const missing = missingCounts();
+        if (Object.values(missing).every((count) => count === 0)) break;
+        console.log(`Question counts short after merging chunks, topping up from chunk ${chunk.index}:`, missing);
+        await generate(chunk, missing, 0);
+      }
     }
 
-    console.log('Cleaned multimodal response:', cleanedText);
+    const missing = missingCounts();
+    const shortfall = Object.fromEntries(
+      QUESTION_TYPES.filter(({ configKey }) => missing[configKey] > 0).map(({ configKey, setKey }) => [setKey, missing[configKey]])
+    );
 
-    // Parse and validate
-    const parsedData = JSON.parse(cleanedText);
-    const validatedData = QuestionSchema.parse(parsedData);
+    if (Object.keys(shortfall).length > 0) {
+      console.warn('Could not meet requested question counts:', shortfall);
+    }
 
-    console.log('Successfully generated multimodal questions:', validatedData);
-    return validatedData;
+    const questionCount = (index: number) => QUESTION_TYPES.reduce(
+      (sum, { setKey }) => sum + questions[setKey].filter((item) => item.chunk === index).length,
+      0
+    );
+
+    console.log(`Successfully generated multimodal questions with ${answeredBy}:`, questions);
+    return {
+      questions,
+      model: answeredBy!,
+      repairs,
+      topUps,
+      shortfall,
+      duplicates,
+      chunks: chunks.map(({ text, ...chunk }) => ({ ...chunk, questions: questionCount(chunk.index) })),
+    };
 
   } catch (error) {
     console.error('Error generating questions with context:', error);
@@ -200,115 +226,73 @@ Make questions comprehensive, covering key concepts from the provided material.
 }
 
 /**
- * Preprocess multimodal input files
+ * Preprocess multimodal input files through the shared extraction pipeline. Images are kept for
+ * models that take them directly, with their extracted text added to the context; document text
+ * is added per document. Files that could not be read are listed in `skippedFiles`.
  */
-export async function preprocessMultimodalInput(files: any[], apiKey?: string): Promise<{
+export async function preprocessMultimodalInput(
+  files: formidable.File[],
+  apiKey?: string,
+  model?: string,
+  onProgress?: (progress: GenerationProgress) => void
+): Promise<{
   extractedContent: any[];
   processedContext: ProcessedContext;
+  skippedFiles: SkippedFile[];
 }> {
   const extractedContent: any[] = [];
+  const skippedFiles: SkippedFile[] = [];
   const processedContext: ProcessedContext = {
     textContent: '',
     imageData: [],
     documentData: [],
   };
 
-  for (const uploadedFile of files) {
-    try {
-      const file = uploadedFile.file;
-      const buffer = await file.arrayBuffer();
-      const uint8Array = new Uint8Array(buffer);
-      const mimeType = file.type;
-
-      if (mimeType.startsWith('image/')) {
-        // Handle images
-        const base64Data = Buffer.from(uint8Array).toString('base64');
-        
-        processedContext.imageData = processedContext.imageData || [];
-        processedContext.imageData.push({
-          data: base64Data,
-          mimeType: mimeType,
-        });
-
-        // Also extract text from image using Gemini
-        try {
-          const keyToUse = apiKey || process.env.GEMINI_API_KEY;
-          
-          if (keyToUse) {
-            const genAI = new GoogleGenerativeAI(keyToUse);
-            const visionModel = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-            
-            const visionPrompt = "Extract and describe all text and educational content from this image. Include formulas, diagrams, and any relevant information that could be used to generate questions.";
-            
-            const imagePart = {
-              inlineData: {
-                data: base64Data,
-                mimeType: mimeType,
-              },
-            };
-
-            const visionResult = await visionModel.generateContent([visionPrompt, imagePart]);
-            const visionResponse = await visionResult.response;
-            const extractedText = await visionResponse.text();
-            
-            processedContext.textContent += `\n\nExtracted from image: ${extractedText}`;
-            
-            extractedContent.push({
-              type: 'image',
-              filename: file.name,
-              mimeType: mimeType,
-              extractedText: extractedText,
-            });
-          }
-        } catch (visionError) {
-          console.warn('Failed to extract text from image:', visionError);
-        }
-
-      } else if (mimeType === 'application/pdf') {
-        // Handle PDFs - try to extract text
-        try {
-          const textContent = uint8Array.toString(); // This is simplified - in production use proper PDF parser
-          processedContext.textContent += `\n\n${textContent}`;
-          
-          processedContext.documentData = processedContext.documentData || [];
-          processedContext.documentData.push({
-            type: 'pdf',
-            content: textContent,
-          });
-
-          extractedContent.push({
-            type: 'pdf',
-            filename: file.name,
-            textContent: textContent,
-          });
-        } catch (pdfError) {
-          console.warn('Failed to extract text from PDF:', pdfError);
-        }
-
-      } else if (mimeType.startsWith('text/')) {
-        // Handle text files
-        const textContent = new TextDecoder().decode(uint8Array);
-        processedContext.textContent += `\n\n${textContent}`;
-        
-        processedContext.documentData = processedContext.documentData || [];
-        processedContext.documentData.push({
-          type: 'text',
-          content: textContent,
-        });
+  for (const [index, file] of files.entries()) {
+    onProgress?.({
+      stage: 'extracting',
+      message: `Extracting content from ${file.originalFilename || 'file'}`,
+      current: index + 1,
+      total: files.length,
+    });
+
+    const content = await extractFileContent(file, apiKey, model);
+
+    if (content.status === 'skipped') {
+      const { status, ...skipped } = content;
+      console.warn(`Skipped ${skipped.filename}: ${skipped.reason}`);
+      skippedFiles.push(skipped);
+      continue;
+    }
 
-        extractedContent.push({
-          type: 'text',
-          filename: file.name,
-          textContent: textContent,
-        });
+    if (content.format === 'image') {
+      processedContext.imageData!.push({
+        data: content.imageData!,
+        mimeType: content.mimeType,
+      });
+      if (content.text) {
+        processedContext.textContent += `\n\nExtracted from image ${content.filename}: ${content.text}`;
+      } else {
+        console.warn(`No text extracted from ${content.filename}:`, content.warning);
       }
 
-    } catch (error) {
-      console.error(`Error processing file ${uploadedFile.file?.name}:`, error);
       extractedContent.push({
-        type: 'error',
-        filename: uploadedFile.file?.name || 'unknown',
-        error: error instanceof Error ? error.message : 'Unknown error',
+        type: 'image',
+        filename: content.filename,
+        mimeType: content.mimeType,
+        extractedText: content.text,
+      });
+    } else {
+      processedContext.documentData!.push({
+        type: content.format,
+        filename: content.filename,
+        content: content.text,
+      });
+
+      extractedContent.push({
+        type: content.format,
+        filename: content.filename,
+        textContent: content.text,
       });
     }
   }
@@ -316,6 +300,7 @@ export async function preprocessMultimodalInput(files: any[], apiKey?: string):
   return {
     extractedContent,
     processedContext,
+    skippedFiles,
   };
 }
 
@@ -325,12 +310,10 @@ export async function preprocessMultimodalInput(files: any[], apiKey?: string):
 export async function extractFromImage(
   imageBuffer: Buffer,
   mimeType: string,
-  filename?: string
-): Promise<ContentExtraction> {
-  // Use the more reliable gemini-2.0-flash for multimodal tasks
-  const modelName = "gemini-2.0-flash";
-  const model = new GoogleGenerativeAI(process.env.GEMINI_API_KEY).getGenerativeModel({ model: modelName });
-  
+  filename?: string,
+  model = "google/gemini-2.0-flash",
+  apiKey?: string
+): Promise<ContentExtraction> {  
   const prompt = `Analyze this image and extract educational content. Focus on:
 1. Main textual content (OCR if needed)
 2. Key topics and concepts shown
@@ -354,10 +337,7 @@ Return a JSON object with the following structure:
   };
 
   try {
-    // Use basic Google AI with JSON parsing
-    const result = await model.generateContent([prompt, imagePart]);
-    const response = await result.response;
-    const text = await response.text();
+    const { text } = await generateWithFallback([prompt, imagePart], { model, apiKey, json: true });
     
     // Try to parse JSON response
     try {
@@ -396,11 +376,10 @@ Return a JSON object with the following structure:
 export async function extractFromDocument(
   content: string,
   filename: string,
-  mimeType: string
-): Promise<ContentExtraction> {
-  const modelName = "gemini-2.0-flash";
-  const model = new GoogleGenerativeAI(process.env.GEMINI_API_KEY).getGenerativeModel({ model: modelName });
-  
+  mimeType: string,
+  model = "google/gemini-2.0-flash",
+  apiKey?: string
+): Promise<ContentExtraction> {  
   const prompt = `Analyze this document content and extract educational information:
 
 Document: ${filename}
@@ -423,10 +402,7 @@ Return a JSON object with the following structure:
 }`;
 
   try {
-    // Try structured generation if AI SDK is available
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = await response.text();
+    const { text } = await generateWithFallback(prompt, { model, apiKey, json: true });
     
     // Try to parse JSON response
     try {
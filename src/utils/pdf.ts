@@ -0,0 +1,207 @@
+/**
+ * Minimal PDF writer for generated text documents. Pages are content streams drawn with the
+ * standard Helvetica fonts, which every viewer has built in, so nothing is embedded. Text is
+ * WinAnsi encoded, which covers Western European scripts. Common math symbols outside it are
+ * spelled out in ASCII ("√" as "sqrt"); other characters cannot be printed, so callers check text
+ * with unsupportedCharacters before rendering it.
+ */
+
+export type PdfFont = 'regular' | 'bold' | 'italic';
+
+export const PAGE_SIZES = {
+  a4: { width: 595, height: 842 },
+  letter: { width: 612, height: 792 },
+} as const;
+
+export type PageSize = keyof typeof PAGE_SIZES;
+
+const FONT_NAMES: Record<PdfFont, string> = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold',
+  italic: 'Helvetica-Oblique',
+};
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2', italic: 'F3' };
+
+// Glyph widths per 1000 units for characters 32-126, from the standard font metrics.
+// Helvetica-Oblique has the same widths as Helvetica.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Width used for characters outside 32-126
+const DEFAULT_WIDTH = 556;
+
+// WinAnsi codes for the characters it places in 0x80-0x9F; the rest of 0xA0-0xFF matches Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// ASCII spellings for math symbols and Greek letters that WinAnsi lacks
+const ASCII_FALLBACKS: Record<string, string> = {
+  '−': '-', '√': 'sqrt', '∛': 'cbrt', 'π': 'pi', '≤': '<=', '≥': '>=', '≠': '!=', '≈': '~=',
+  '≡': '===', '∞': 'infinity', '→': '->', '←': '<-', '↔': '<->', '⇒': '=>', '⇔': '<=>',
+  '∑': 'sum', '∏': 'product', '∫': 'integral', '∂': 'd', '∆': 'Delta', '∈': ' in ', '∉': ' not in ',
+  '⊂': ' subset of ', '∪': ' union ', '∩': ' intersection ', '∅': '{}', '∀': 'for all ',
+  '∃': 'there exists ', '′': "'", '″': "''", '⁰': '^0', '⁴': '^4', '⁵': '^5', '⁶': '^6',
+  '⁷': '^7', '⁸': '^8', '⁹': '^9', 'ⁿ': '^n', '₀': '_0', '₁': '_1', '₂': '_2', '₃': '_3',
+  '₄': '_4', '₅': '_5', '₆': '_6', '₇': '_7', '₈': '_8', '₉': '_9', 'μ': 'µ',
+  'α': 'alpha', 'β': 'beta', 'γ': 'gamma', 'δ': 'delta', 'ε': 'epsilon', 'θ': 'theta',
+  'λ': 'lambda', 'ρ': 'rho', 'σ': 'sigma', 'τ': 'tau', 'φ': 'phi', 'ω': 'omega',
+  'Γ': 'Gamma', 'Δ': 'Delta', 'Θ': 'Theta', 'Λ': 'Lambda', 'Σ': 'Sigma', 'Φ': 'Phi', 'Ω': 'Omega',
+  '\u200b': '', '\u2009': ' ', '\u202f': ' ',
+};
+
+const winAnsiCode = (char: string): number | undefined => {
+  const code = char.codePointAt(0)!;
+  if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return code;
+  return WIN_ANSI_EXTRAS[char];
+};
+
+// Text with ASCII spellings substituted, as it is measured and printed
+const toPdfText = (text: string) => Array.from(text, (char) => ASCII_FALLBACKS[char] ?? char).join('');
+
+const toWinAnsi = (char: string): number => winAnsiCode(char) ?? 63;   // "?"
+
+/**
+ * Characters in the texts that the fonts cannot print, each listed once. Line breaks and tabs
+ * are fine; wrapText handles them.
+ */
+export const unsupportedCharacters = (texts: string[]): string[] => {
+  const unsupported = new Set<string>();
+  for (const text of texts) {
+    for (const char of toPdfText(text)) {
+      if (char !== '\n' && char !== '\r' && char !== '\t' && winAnsiCode(char) === undefined) {
+        unsupported.add(char);
+      }
+    }
+  }
+  return Array.from(unsupported);
+};
+
+const charWidth = (char: string, font: PdfFont) => {
+  const code = char.charCodeAt(0);
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  return code >= 32 && code <= 126 ? widths[code - 32]! : DEFAULT_WIDTH;
+};
+
+export const textWidth = (text: string, font: PdfFont, size: number): number => {
+  let width = 0;
+  for (const char of toPdfText(text)) width += charWidth(char, font);
+  return (width * size) / 1000;
+};
+
+/**
+ * Break text into lines no wider than maxWidth. Line breaks in the text are kept; a word longer
+ * than a line is split.
+ */
+export const wrapText = (text: string, font: PdfFont, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.replace(/\t/g, '    ').split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+
+      line = '';
+      for (const char of word) {
+        if (line && textWidth(line + char, font, size) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+};
+
+// A string literal in the content stream, WinAnsi encoded with octal escapes outside ASCII
+const pdfString = (text: string) => {
+  let literal = '';
+  for (const char of toPdfText(text)) {
+    const code = toWinAnsi(char);
+    if (code === 0x28 || code === 0x29 || code === 0x5c) literal += `\\${char}`;
+    else if (code > 126) literal += `\\${code.toString(8).padStart(3, '0')}`;
+    else literal += String.fromCharCode(code);
+  }
+  return `(${literal})`;
+};
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+/** Content stream operators for one line of text at (x, y), y being the baseline */
+export const drawText = (x: number, y: number, text: string, font: PdfFont, size: number, gray = 0): string => {
+  return `BT ${num(gray)} g /${FONT_RESOURCES[font]} ${num(size)} Tf ${num(x)} ${num(y)} Td ${pdfString(text)} Tj ET`;
+};
+
+export const drawLine = (x1: number, y1: number, x2: number, y2: number, width = 0.5, gray = 0): string => {
+  return `${num(gray)} G ${num(width)} w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`;
+};
+
+/**
+ * Write a PDF from page content streams, each a list of operators from drawText and drawLine.
+ */
+export const createPdf = (pages: string[][], size: PageSize, title: string): Buffer => {
+  const { width, height } = PAGE_SIZES[size];
+  const fonts = Object.keys(FONT_NAMES) as PdfFont[];
+
+  // Object numbers: 1 catalog, 2 page tree, 3 info, then the fonts, then a page and its content per page
+  const fontStart = 4;
+  const pageStart = fontStart + fonts.length;
+  const pageIds = pages.map((_, index) => pageStart + index * 2);
+
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    `<< /Title ${pdfString(title)} /Producer (EduQuest) >>`,
+    ...fonts.map((font) => `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`),
+  ];
+
+  const fontResources = fonts.map((font, index) => `/${FONT_RESOURCES[font]} ${fontStart + index} 0 R`).join(' ');
+  pages.forEach((operators, index) => {
+    const content = operators.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << ${fontResources} >> >> /Contents ${pageIds[index]! + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    );
+  });
+
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+};
@@ -0,0 +1,89 @@
+import type { PersistStorage } from 'zustand/middleware';
+
+/**
+ * Helpers for the zustand `persist` stores: localStorage with Date revival, versioned
+ * migrations, and a quarantine for stored data that can no longer be loaded.
+ */
+
+// Fields holding dates anywhere in persisted state; JSON stores them as ISO strings
+const DATE_KEYS = new Set(['createdAt', 'lastAccessed', 'timestamp', 'lastSyncedAt', 'startedAt', 'sectionStartedAt', 'submittedAt']);
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+export const reviveDates = (key: string, value: unknown) => {
+  return DATE_KEYS.has(key) && typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value;
+};
+
+export const QUARANTINE_KEY = 'eduquest-quarantine';
+const MAX_QUARANTINED = 20;
+
+export interface QuarantinedEntry {
+  store: string;
+  reason: string;
+  data: unknown;
+  quarantinedAt: string;
+}
+
+export const getQuarantinedEntries = (): QuarantinedEntry[] => {
+  try {
+    return JSON.parse(localStorage.getItem(QUARANTINE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Set aside data that failed to load so it is not lost, keeping the most recent entries
+ */
+export const quarantineEntry = (store: string, reason: string, data: unknown) => {
+  console.warn(`Quarantined corrupt data from ${store}: ${reason}`);
+  try {
+    const entries = [...getQuarantinedEntries(), { store, reason, data, quarantinedAt: new Date().toISOString() }];
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify(entries.slice(-MAX_QUARANTINED)));
+  } catch (error) {
+    console.error('Failed to quarantine corrupt data:', error);
+  }
+};
+
+/**
+ * localStorage-backed storage for `persist`. A value that is not valid JSON is quarantined and
+ * the store starts empty instead of failing to hydrate. Unavailable during server rendering.
+ */
+export const createPersistStorage = <S>(): PersistStorage<S> | undefined => {
+  let storage: Storage;
+  try {
+    storage = localStorage;
+  } catch {
+    return undefined;
+  }
+
+  return {
+    getItem: (name) => {
+      const raw = storage.getItem(name);
+      if (raw === null) return null;
+
+      try {
+        const parsed = JSON.parse(raw, reviveDates);
+        if (!parsed || typeof parsed !== 'object' || !('state' in parsed)) {
+          throw new Error('missing state');
+        }
+        return parsed;
+      } catch (error) {
+        quarantineEntry(name, `Unreadable stored state (${error instanceof Error ? error.message : 'parse error'})`, raw);
+        storage.removeItem(name);
+        return null;
+      }
+    },
+    setItem: (name, value) => storage.setItem(name, JSON.stringify(value)),
+    removeItem: (name) => storage.removeItem(name),
+  };
+};
+
+// migrations[n] upgrades state persisted at version n to version n + 1
+export type Migration = (state: any) => any;
+
+/**
+ * Build a `persist` migrate function. The store's version is `migrations.length`.
+ */
+export const createMigrate = (migrations: Migration[]) => (persisted: unknown, version: number) => {
+  return migrations.slice(version).reduce((state, migration) => migration(state), (persisted || {}) as any);
+};
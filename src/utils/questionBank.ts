@@ -0,0 +1,367 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { SESSION_QUESTION_TYPES } from '../config/api';
+import type { QuestionConfig } from '../config/api';
+import { BloomLevelSchema, DifficultySchema, QUESTION_TYPES, QuestionSourceSchema } from './questionSchema';
+import type { QuestionSet } from './questionSchema';
+import { createQuestionId } from './questionIds';
+
+/**
+ * Server-side question bank: every generated question, with its topic, type, difficulty and tags,
+ * searchable across sessions. Questions keep the ID they were generated with, so a question in a
+ * session and its copy in the bank are the same question. Like sessions, the bank is scoped by the
+ * client's sync key.
+ *
+ *   EDUQUEST_QUESTION_BANK_STORE = 'file' (default) | 'memory'
+ *   EDUQUEST_QUESTION_BANK_FILE  = path of the JSON file (default: .question-bank.json)
+ */
+
+const MAX_TAGS = 20;
+
+const TagSchema = z.string().trim().toLowerCase().min(1).max(50);
+
+// Tags are compared lowercased; duplicates are dropped
+const TagsSchema = z.array(TagSchema).max(MAX_TAGS).transform((tags) => Array.from(new Set(tags)));
+
+export const BankQuestionSchema = z.object({
+  id: z.string().uuid().optional(),
+  question: z.string().trim().min(1).max(5000),
+  type: z.enum(SESSION_QUESTION_TYPES),
+  options: z.array(z.string().min(1)).min(2).optional(),
+  answer: z.string().min(1),
+  acceptedAnswers: z.array(z.string().min(1)).optional(),
+  explanation: z.string().optional(),
+  points: z.number().min(0).optional(),
+  difficulty: DifficultySchema.optional(),
+  bloomLevel: BloomLevelSchema.optional(),
+  source: QuestionSourceSchema.optional(),
+  topic: z.string().trim().max(500).default(''),
+  tags: TagsSchema.default([]),
+}).superRefine((question, ctx) => {
+  if (question.type === 'mcq' && !question.options?.includes(question.answer)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['answer'], message: 'answer must exactly match one of the options' });
+  }
+  if (question.type === 'true_false' && question.answer !== 'true' && question.answer !== 'false') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['answer'], message: 'answer must be "true" or "false"' });
+  }
+});
+
+export type BankQuestionData = z.infer<typeof BankQuestionSchema>;
+
+export interface BankQuestion extends BankQuestionData {
+  id: string;
+  ownerId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Query parameters may repeat (?tag=a&tag=b) or hold a comma-separated list (?tag=a,b)
+const listParam = <T extends z.ZodTypeAny>(schema: T) => z.preprocess((value) => {
+  const values = Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+  return values.flatMap((item) => String(item).split(',')).map((item) => item.trim()).filter(Boolean);
+}, z.array(schema));
+
+/**
+ * Search and filter parameters, shared by the bank and random question routes. A question must
+ * match every filter given: any of the listed types and difficulties, and all of the tags.
+ */
+export const BankQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  type: listParam(z.enum(SESSION_QUESTION_TYPES)),
+  difficulty: listParam(DifficultySchema),
+  tag: listParam(TagSchema),
+  topic: z.string().trim().max(200).optional(),
+});
+
+export type BankQuery = z.infer<typeof BankQuerySchema>;
+
+export interface QuestionBankRepository {
+  // Matching questions, best text match first (newest first without `q`)
+  search: (ownerId: string, query: BankQuery) => Promise<BankQuestion[]>;
+  get: (ownerId: string, id: string) => Promise<BankQuestion | null>;
+  // Insert or replace by id; a question whose text is already in the bank only adds its tags
+  add: (ownerId: string, questions: BankQuestionData[]) => Promise<BankQuestion[]>;
+  delete: (ownerId: string, id: string) => Promise<boolean>;
+}
+
+const tokenize = (text: string): string[] => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) || [];
+};
+
+interface SearchIndex {
+  question: string[];  // Words of the question text, which count double
+  other: string[];     // Words of the answer, options, explanation, topic and tags
+}
+
+// Computed on first search; entries are replaced rather than mutated, so a cached index never goes stale
+const searchIndexes = new WeakMap<BankQuestion, SearchIndex>();
+
+const getSearchIndex = (entry: BankQuestion): SearchIndex => {
+  let index = searchIndexes.get(entry);
+  if (!index) {
+    index = {
+      question: tokenize(entry.question),
+      other: tokenize([
+        entry.answer,
+        ...(entry.options || []),
+        ...(entry.acceptedAnswers || []),
+        entry.explanation || '',
+        entry.topic,
+        ...entry.tags,
+      ].join(' ')),
+    };
+    searchIndexes.set(entry, index);
+  }
+  return index;
+};
+
+/**
+ * Relevance of a question to the search terms: 0 unless every term starts some word in it
+ */
+const scoreText = (entry: BankQuestion, terms: string[]): number => {
+  const { question, other } = getSearchIndex(entry);
+  let score = 0;
+
+  for (const term of terms) {
+    const termScore = 2 * question.filter((word) => word.startsWith(term)).length
+      + other.filter((word) => word.startsWith(term)).length;
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+  return score;
+};
+
+const matchesFilters = (entry: BankQuestion, query: BankQuery): boolean => {
+  return (query.type.length === 0 || query.type.includes(entry.type))
+    && (query.difficulty.length === 0 || (!!entry.difficulty && query.difficulty.includes(entry.difficulty)))
+    && query.tag.every((tag) => entry.tags.includes(tag))
+    && (!query.topic || entry.topic.toLowerCase().includes(query.topic.toLowerCase()));
+};
+
+const normalizeText = (text: string) => tokenize(text).join(' ');
+
+/**
+ * Questions keyed by owner and id, with an optional hook called after every write
+ */
+const createMapRepository = (questions: Map<string, BankQuestion>, onChange: () => void = () => {}): QuestionBankRepository => {
+  const keyOf = (ownerId: string, id: string) => `${ownerId}:${id}`;
+  const ownedBy = (ownerId: string) => Array.from(questions.values()).filter((entry) => entry.ownerId === ownerId);
+
+  return {
+    search: async (ownerId, query) => {
+      const terms = tokenize(query.q || '');
+      const newestFirst = (a: BankQuestion, b: BankQuestion) => b.createdAt.localeCompare(a.createdAt);
+      const candidates = ownedBy(ownerId).filter((entry) => matchesFilters(entry, query));
+
+      if (terms.length === 0) {
+        return candidates.sort(newestFirst);
+      }
+
+      return candidates
+        .map((entry) => ({ entry, score: scoreText(entry, terms) }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score || newestFirst(a.entry, b.entry))
+        .map(({ entry }) => entry);
+    },
+
+    get: async (ownerId, id) => {
+      return questions.get(keyOf(ownerId, id)) || null;
+    },
+
+    add: async (ownerId, incoming) => {
+      const now = new Date().toISOString();
+      const byText = new Map(ownedBy(ownerId).map((entry) => [`${entry.type}:${normalizeText(entry.question)}`, entry]));
+
+      const saved = incoming.map((question) => {
+        const existing = question.id ? questions.get(keyOf(ownerId, question.id)) : undefined;
+        const sameText = byText.get(`${question.type}:${normalizeText(question.question)}`);
+
+        let stored: BankQuestion;
+        if (!existing && sameText) {
+          stored = { ...sameText, tags: Array.from(new Set([...sameText.tags, ...question.tags])).slice(0, MAX_TAGS), updatedAt: now };
+        } else {
+          stored = {
+            ...question,
+            id: question.id || createQuestionId(),
+            ownerId,
+            createdAt: existing?.createdAt || now,
+            updatedAt: now,
+          };
+        }
+
+        questions.set(keyOf(ownerId, stored.id), stored);
+        byText.set(`${stored.type}:${normalizeText(stored.question)}`, stored);
+        return stored;
+      });
+
+      if (saved.length > 0) {
+        onChange();
+      }
+      return saved;
+    },
+
+    delete: async (ownerId, id) => {
+      if (!questions.delete(keyOf(ownerId, id))) {
+        return false;
+      }
+      onChange();
+      return true;
+    },
+  };
+};
+
+export const createMemoryQuestionBankRepository = (): QuestionBankRepository => {
+  return createMapRepository(new Map());
+};
+
+export const createFileQuestionBankRepository = (filePath: string): QuestionBankRepository => {
+  const questions = new Map<string, BankQuestion>();
+
+  try {
+    if (fs.existsSync(filePath)) {
+      const stored: BankQuestion[] = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      for (const entry of stored) {
+        questions.set(`${entry.ownerId}:${entry.id}`, entry);
+      }
+      console.log(`Loaded ${questions.size} bank questions from ${filePath}`);
+    }
+  } catch (error) {
+    console.error('Error loading the question bank:', error);
+  }
+
+  // Write to a temp file and rename so a crash mid-write cannot truncate the bank
+  const persist = () => {
+    try {
+      const tempFile = `${filePath}.tmp`;
+      fs.writeFileSync(tempFile, JSON.stringify(Array.from(questions.values()), null, 2));
+      fs.renameSync(tempFile, filePath);
+    } catch (error) {
+      console.error('Error saving the question bank:', error);
+    }
+  };
+
+  return createMapRepository(questions, persist);
+};
+
+let repository: QuestionBankRepository | null = null;
+
+/**
+ * Replace the active backend, e.g. with createMemoryQuestionBankRepository() in tests
+ */
+export const setQuestionBankRepository = (next: QuestionBankRepository) => {
+  repository = next;
+};
+
+export const getQuestionBankRepository = (): QuestionBankRepository => {
+  if (!repository) {
+    const backend = process.env.EDUQUEST_QUESTION_BANK_STORE || (process.env.NODE_ENV === 'test' ? 'memory' : 'file');
+    repository = backend === 'memory'
+      ? createMemoryQuestionBankRepository()
+      : createFileQuestionBankRepository(
+          process.env.EDUQUEST_QUESTION_BANK_FILE || path.join(process.cwd(), '.question-bank.json')
+        );
+  }
+  return repository;
+};
+
+/**
+ * Flatten a generated question set into bank entries, tagged with the given tags and the file each
+ * question cites. Questions the bank cannot hold are left out.
+ */
+export const toBankQuestions = (questionSet: QuestionSet, topic: string, tags: string[] = []): BankQuestionData[] => {
+  return QUESTION_TYPES.flatMap(({ setKey, type }) => questionSet[setKey].flatMap((item) => {
+    const { chunk: _chunk, ...question } = item;
+    const parsed = BankQuestionSchema.safeParse({
+      ...question,
+      type,
+      answer: String(item.answer),
+      topic: topic.slice(0, 500),
+      tags: [...tags, ...(item.source ? [item.source.file] : [])].map((tag) => tag.slice(0, 50)).slice(0, MAX_TAGS),
+    });
+    return parsed.success ? [parsed.data] : [];
+  }));
+};
+
+/**
+ * Tags for questions generated with a config: the audience, and the language unless it is English
+ */
+export const generationTags = (config: QuestionConfig): string[] => {
+  return [
+    config.gradeLevel,
+    config.language && config.language.toLowerCase() !== 'english' ? config.language : undefined,
+  ].filter((tag): tag is string => !!tag);
+};
+
+/**
+ * Add freshly generated questions to the caller's bank. Generation has already succeeded by then,
+ * so a failure here is logged rather than thrown.
+ */
+export const saveToQuestionBank = async (
+  ownerId: string | null,
+  questionSet: QuestionSet,
+  topic: string,
+  tags: string[] = []
+): Promise<void> => {
+  if (!ownerId) return;
+
+  try {
+    await getQuestionBankRepository().add(ownerId, toBankQuestions(questionSet, topic, tags));
+  } catch (error) {
+    console.error('Error adding questions to the bank:', error);
+  }
+};
+
+// A rule picks `count` random questions matching its filters, e.g. 10 MCQs tagged "recursion"
+export const AssemblyRuleSchema = BankQuerySchema.extend({
+  count: z.number().int().min(1).max(50),
+});
+
+export type AssemblyRule = z.infer<typeof AssemblyRuleSchema>;
+
+export interface AssemblyShortfall {
+  rule: number;       // Index of the rule in the request
+  requested: number;
+  found: number;
+}
+
+const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
+  }
+  return shuffled;
+};
+
+/**
+ * Build a quiz from the bank by rule. Rules are applied in order and never pick a question twice,
+ * so a later, broader rule fills in around earlier ones. Rules that match too few questions are
+ * reported rather than failing the quiz.
+ */
+export const assembleQuiz = async (
+  repository: QuestionBankRepository,
+  ownerId: string,
+  rules: AssemblyRule[]
+): Promise<{ questions: BankQuestion[]; shortfall: AssemblyShortfall[] }> => {
+  const questions: BankQuestion[] = [];
+  const shortfall: AssemblyShortfall[] = [];
+  const picked = new Set<string>();
+
+  for (const [index, { count, ...query }] of rules.entries()) {
+    const matches = (await repository.search(ownerId, query)).filter((entry) => !picked.has(entry.id));
+    const chosen = shuffle(matches).slice(0, count);
+
+    chosen.forEach((entry) => picked.add(entry.id));
+    questions.push(...chosen);
+    if (chosen.length < count) {
+      shortfall.push({ rule: index, requested: count, found: chosen.length });
+    }
+  }
+
+  return { questions, shortfall };
+};
@@ -0,0 +1,366 @@
+import { z } from 'zod';
+import { generateWithFallback } from './llm';
+import type { ContentPart } from './llm';
+import { BLOOM_LEVELS, DIFFICULTY_LEVELS } from '../config/api';
+import { QUESTION_TYPES, QuestionSchema } from './questionSchema';
+import type { QuestionConfig, QuestionCountKey, QuestionItem, QuestionSet, QuestionSetKey } from './questionSchema';
+import { createQuestionStreamParser } from './questionStream';
+import { createDuplicateIndex } from './similarity';
+import { createQuestionId } from './questionIds';
+import type { DuplicateMatch } from './similarity';
+
+type QuestionCounts = Partial<Record<QuestionCountKey, number>>;
+
+export interface GenerationProgress {
+  stage: 'extracting' | 'generating' | 'repairing' | 'topping_up';
+  message: string;
+  current?: number;
+  total?: number;
+}
+
+export interface GenerationCallbacks {
+  // Each question once, as soon as it validates; `index` is its position within its type
+  onQuestion?: (setKey: QuestionSetKey, question: QuestionItem, index: number) => void;
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+export interface StructuredGenerationOptions extends GenerationCallbacks {
+  model?: string;
+  apiKey?: string;
+  maxRepairs?: number;  // Repair prompts allowed when output fails validation
+  maxTopUps?: number;   // Extra rounds allowed when a type comes back short
+  avoid?: QuestionSet;  // Questions from earlier requests; repeats of them are dropped
+  citeSources?: boolean; // Ask for a `source` citation on every question, for uploaded material
+}
+
+export interface StructuredGenerationResult {
+  questions: QuestionSet;
+  model: string;  // Model that produced the initial set
+  repairs: number;
+  topUps: number;
+  // Questions still missing per type after all top-up rounds
+  shortfall: Partial<Record<QuestionSetKey, number>>;
+  duplicates: DuplicateMatch[];  // Near-duplicates left out of the set
+}
+
+type ParseResult =
+  | { success: true; data: QuestionSet }
+  | { success: false; issues: string[] };
+
+export const emptyQuestionSet = (): QuestionSet => ({
+  mcqs: [],
+  fill_in_the_blanks: [],
+  true_false: [],
+  short_type: [],
+  long_type: [],
+});
+
+/**
+ * Difficulty, Bloom level, audience and language requirements from the config
+ */
+export const buildGuidance = (config: Partial<QuestionConfig>): string => {
+  const lines: string[] = [];
+
+  if (config.difficulty) {
+    lines.push(`- Target difficulty: ${config.difficulty}.`);
+  }
+  if (config.bloomLevels && config.bloomLevels.length > 0) {
+    const spread = config.bloomLevels.length > 1 ? ' Spread the questions across them.' : '';
+    lines.push(`- Only write questions at these Bloom's taxonomy levels: ${config.bloomLevels.join(', ')}.${spread}`);
+  }
+  if (config.gradeLevel) {
+    lines.push(`- Write for a ${config.gradeLevel} audience: match vocabulary, depth and examples to that level.`);
+  }
+  if (config.language) {
+    lines.push(`- Write every question, option, answer and explanation in ${config.language}. Keep the JSON keys and the "difficulty" and "bloomLevel" values in English.`);
+  }
+
+  return lines.length > 0 ? `Requirements:\n${lines.join('\n')}` : '';
+};
+
+const SOURCE_EXAMPLE = {
+  file: 'File name from the [Source: ...] marker',
+  page: 1,
+  quote: 'Passage copied word for word from the material',
+};
+
+/**
+ * Count lines and the JSON shape the model must return. Keys with a zero count are still listed
+ * so the response always has every array.
+ */
+export const buildFormatInstructions = (
+  counts: QuestionCounts,
+  config: Partial<QuestionConfig> = {},
+  citeSources = false
+): string => {
+  const types = QUESTION_TYPES.filter(({ configKey }) => counts[configKey] !== undefined);
+  const countLines = types.map(({ configKey, description }) => `- ${counts[configKey]} ${description}`);
+  const tags = {
+    difficulty: config.difficulty ?? 'intermediate',
+    bloomLevel: config.bloomLevels?.[0] ?? 'understand',
+    ...(citeSources ? { source: SOURCE_EXAMPLE } : {}),
+  };
+  const structure = Object.fromEntries(types.map(({ setKey, example }) => [setKey, [{ ...example, ...tags }]]));
+  const guidance = buildGuidance(config);
+
+  return `Please create exactly:
+${countLines.join('\n')}
+${guidance ? `\n${guidance}\n` : ''}
+Return a valid JSON object with this exact structure:
+${JSON.stringify(structure, null, 2)}
+
+Rules:
+- Return only the JSON object, without markdown formatting or commentary.
+- Every MCQ "answer" must be copied exactly from its "options".
+- True/false "answer" values must be JSON booleans, not strings.
+- Tag every question with "difficulty" (${DIFFICULTY_LEVELS.join(', ')}) and "bloomLevel" (${BLOOM_LEVELS.join(', ')}).${citeSources ? `
+- Give every question a "source": the file it is drawn from, the page from the nearest [Page N] marker (null if there is none), and a "quote" of one to three sentences copied exactly from the material that supports the answer.` : ''}`;
+};
+
+/**
+ * Pull the JSON object out of a model response, tolerating markdown fences and surrounding prose
+ */
+export const extractJson = (text: string): unknown => {
+  let cleanedText = text.trim();
+
+  if (cleanedText.startsWith('```')) {
+    cleanedText = cleanedText.replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+  }
+
+  try {
+    return JSON.parse(cleanedText);
+  } catch (parseError) {
+    const start = cleanedText.indexOf('{');
+    const end = cleanedText.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      return JSON.parse(cleanedText.slice(start, end + 1));
+    }
+    throw parseError;
+  }
+};
+
+export const formatZodIssues = (error: z.ZodError): string[] => {
+  return error.errors.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+};
+
+export const parseQuestionSet = (text: string): ParseResult => {
+  let json: unknown;
+  try {
+    json = extractJson(text);
+  } catch (error) {
+    return {
+      success: false,
+      issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`],
+    };
+  }
+
+  const result = QuestionSchema.safeParse(json);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, issues: formatZodIssues(result.error) };
+};
+
+const buildRepairPrompt = (config: QuestionConfig, previous: string, issues: string[], citeSources: boolean) => {
+  return `Your previous response could not be used because it does not match the required format.
+
+Validation errors:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Previous response:
+${previous}
+
+Fix every error above and return the corrected question set. Keep the questions that were valid.
+
+${buildFormatInstructions(config, config, citeSources)}`;
+};
+
+const normalizeQuestion = (question: string) => question.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Give a question its ID and, if the model left it untagged, the requested difficulty
+ */
+const applyDefaultTags = <T extends QuestionItem>(item: T, config: QuestionConfig): T => {
+  return {
+    ...item,
+    id: createQuestionId(),
+    ...(config.difficulty && !item.difficulty ? { difficulty: config.difficulty } : {}),
+  };
+};
+
+const getShortfall = (questions: QuestionSet, config: QuestionConfig): QuestionCounts => {
+  const shortfall: QuestionCounts = {};
+  for (const { configKey, setKey } of QUESTION_TYPES) {
+    const missing = (config[configKey] || 0) - questions[setKey].length;
+    if (missing > 0) {
+      shortfall[configKey] = missing;
+    }
+  }
+  return shortfall;
+};
+
+/**
+ * Generate a question set that validates against QuestionSchema and meets the configured counts.
+ *
+ * `taskParts` describe what to ask about (topic, extracted content, images); the format instructions
+ * are appended here. Invalid output gets a repair prompt carrying the zod errors, and types that come
+ * back short are topped up with follow-up requests.
+ *
+ * With `onQuestion`, responses are streamed and each question is reported as soon as it validates.
+ * Reported questions are never withdrawn, so the final set always contains them.
+ */
+export async function generateQuestionSet(
+  taskParts: ContentPart[],
+  config: QuestionConfig,
+  {
+    model,
+    apiKey,
+    maxRepairs = 2,
+    maxTopUps = 2,
+    avoid,
+    citeSources = false,
+    onQuestion,
+    onProgress,
+  }: StructuredGenerationOptions = {}
+): Promise<StructuredGenerationResult> {
+  const questions = emptyQuestionSet();
+  const previous = avoid
+    ? QUESTION_TYPES.flatMap(({ setKey }) => avoid[setKey].map((item) => ({ setKey, item })))
+    : [];
+  const duplicates: DuplicateMatch[] = [];
+  const index = createDuplicateIndex<string>();
+  previous.forEach(({ setKey, item }) => index.add(setKey, item, item.question));
+
+  // Exact repeats of accepted questions are expected: repairs and final parses resend streamed ones
+  const seen = new Set<string>();
+
+  // Add a question unless it repeats an earlier one or its type is already full
+  const accept = (setKey: QuestionSetKey, item: QuestionItem) => {
+    const { configKey } = QUESTION_TYPES.find((type) => type.setKey === setKey)!;
+    const key = `${setKey}:${normalizeQuestion(item.question)}`;
+    if (seen.has(key) || questions[setKey].length >= config[configKey]) {
+      return;
+    }
+
+    const match = index.find(setKey, item);
+    if (match) {
+      if (!duplicates.some((duplicate) => duplicate.question === item.question)) {
+        duplicates.push({ question: item.question, duplicateOf: match.value, similarity: match.similarity });
+      }
+      return;
+    }
+
+    const tagged = applyDefaultTags(item, config);
+    seen.add(key);
+    index.add(setKey, item, item.question);
+    (questions[setKey] as QuestionItem[]).push(tagged);
+    onQuestion?.(setKey, tagged, questions[setKey].length - 1);
+  };
+
+  const acceptAll = (set: QuestionSet) => {
+    for (const { setKey } of QUESTION_TYPES) {
+      set[setKey].forEach((item) => accept(setKey, item));
+    }
+  };
+
+  // When questions are reported live, responses stream through the incremental parser
+  const streaming = () => (onQuestion ? { onText: createQuestionStreamParser(accept).push } : {});
+
+  onProgress?.({ stage: 'generating', message: 'Generating questions' });
+
+  const avoidPrompt = previous.length > 0
+    ? `Do not repeat any of these questions written earlier:\n${previous.map(({ item }) => `- ${item.question}`).join('\n')}`
+    : '';
+  const initial = await generateWithFallback([...taskParts, ...(avoidPrompt ? [avoidPrompt] : []), buildFormatInstructions(config, config, citeSources)], {
+    model,
+    apiKey,
+    json: true,
+    ...streaming(),
+  });
+  const answeredBy = initial.model;
+
+  let text = initial.text;
+  let parsed = parseQuestionSet(text);
+  let repairs = 0;
+
+  while (!parsed.success && repairs < maxRepairs) {
+    repairs++;
+    console.warn(`Question set failed validation, sending repair prompt ${repairs}/${maxRepairs}:`, parsed.issues);
+    onProgress?.({ stage: 'repairing', message: 'Fixing invalid questions', current: repairs, total: maxRepairs });
+
+    const repaired = await generateWithFallback(buildRepairPrompt(config, text, parsed.issues, citeSources), {
+      model: answeredBy,
+      apiKey,
+      json: true,
+      ...streaming(),
+    });
+    text = repaired.text;
+    parsed = parseQuestionSet(text);
+  }
+
+  if (parsed.success) {
+    acceptAll(parsed.data);
+  } else if (QUESTION_TYPES.every(({ setKey }) => questions[setKey].length === 0)) {
+    throw new Error(`Question format validation failed: ${parsed.issues.join(', ')}`);
+  } else {
+    // Questions that validated one by one while streaming are kept; top-ups cover the rest
+    console.warn('Question set failed validation, keeping the questions that streamed in:', parsed.issues);
+  }
+
+  let shortfall = getShortfall(questions, config);
+  let topUps = 0;
+
+  while (Object.keys(shortfall).length > 0 && topUps < maxTopUps) {
+    topUps++;
+    console.log(`Question counts short, topping up (${topUps}/${maxTopUps}):`, shortfall);
+    onProgress?.({ stage: 'topping_up', message: 'Generating remaining questions', current: topUps, total: maxTopUps });
+
+    const existing = [
+      ...previous.map(({ item }) => `- ${item.question}`),
+      ...QUESTION_TYPES.flatMap(({ setKey }) => questions[setKey].map((item) => `- ${item.question}`)),
+    ];
+    const topUpPrompt = `Generate these additional questions on the same material.
+Do not repeat any of these existing questions:
+${existing.join('\n')}
+
+${buildFormatInstructions(shortfall, config, citeSources)}`;
+
+    try {
+      const extra = await generateWithFallback([...taskParts, topUpPrompt], {
+        model: answeredBy,
+        apiKey,
+        json: true,
+        ...streaming(),
+      });
+      const extraParsed = parseQuestionSet(extra.text);
+
+      if (extraParsed.success) {
+        acceptAll(extraParsed.data);
+      } else {
+        console.warn('Top-up response failed validation:', extraParsed.issues);
+      }
+    } catch (error) {
+      console.warn('Top-up request failed:', error);
+    }
+
+    shortfall = getShortfall(questions, config);
+  }
+
+  const remaining = Object.fromEntries(
+    QUESTION_TYPES
+      .filter(({ configKey }) => shortfall[configKey])
+      .map(({ configKey, setKey }) => [setKey, shortfall[configKey]])
+  );
+
+  if (Object.keys(remaining).length > 0) {
+    console.warn('Could not meet requested question counts:', remaining);
+  }
+
+  return {
+    questions,
+    model: answeredBy,
+    repairs,
+    topUps,
+    shortfall: remaining,
+    duplicates,
+  };
+}
@@ -0,0 +1,84 @@
+import { v4 as uuidv4, v5 as uuidv5, validate } from 'uuid';
+import type { Question, QuizSession } from '../store/useSessionStore';
+
+/**
+ * Question IDs are UUIDs assigned when a question is generated and kept wherever the question is
+ * copied. Sessions saved before that numbered questions per type ("mcq_0"); those IDs are
+ * replaced with UUIDs derived from the session and the old ID, so every copy of a session
+ * migrates to the same IDs.
+ */
+
+// Namespace for UUIDs derived from legacy per-session IDs
+const LEGACY_ID_NAMESPACE = '6f0d3c5e-2b1a-4c8e-9f47-0a2e5d7b9c13';
+
+export const createQuestionId = (): string => uuidv4();
+
+export const isStableQuestionId = (id: unknown): id is string => typeof id === 'string' && validate(id);
+
+export const migrateQuestionId = (sessionId: string, id: string): string => {
+  return isStableQuestionId(id) ? id : uuidv5(`${sessionId}:${id}`, LEGACY_ID_NAMESPACE);
+};
+
+// Replace question IDs in a session along with the answers, rubric grades, exam timing and adaptive path
+// that refer to them
+const remapQuestionIds = (
+  session: QuizSession,
+  toId: (id: string) => string,
+  toDuplicateOfId: (duplicateOf: NonNullable<Question['duplicateOf']>) => string = (duplicateOf) => duplicateOf.questionId
+): QuizSession => ({
+  ...session,
+  questions: session.questions.map((question) => ({
+    ...question,
+    id: toId(question.id),
+    ...(question.duplicateOf ? {
+      duplicateOf: { ...question.duplicateOf, questionId: toDuplicateOfId(question.duplicateOf) },
+    } : {}),
+  })),
+  userAnswers: session.userAnswers.map((userAnswer) => ({ ...userAnswer, questionId: toId(userAnswer.questionId) })),
+  analysis: session.analysis && {
+    ...session.analysis,
+    ...(session.analysis.questionGrades ? {
+      questionGrades: session.analysis.questionGrades.map((grade) => ({ ...grade, questionId: toId(grade.questionId) })),
+    } : {}),
+    ...(session.analysis.timing ? {
+      timing: {
+        ...session.analysis.timing,
+        questions: Object.fromEntries(
+          Object.entries(session.analysis.timing.questions).map(([questionId, seconds]) => [toId(questionId), seconds])
+        ),
+      },
+    } : {}),
+  },
+  adaptive: session.adaptive && {
+    ...session.adaptive,
+    path: session.adaptive.path.map((step) => ({ ...step, questionId: toId(step.questionId) })),
+    currentQuestionId: session.adaptive.currentQuestionId && toId(session.adaptive.currentQuestionId),
+  },
+});
+
+/**
+ * Replace a session's legacy question IDs along with every reference to them: answers, rubric
+ * grades and near-duplicate flags pointing into other sessions
+ */
+export const migrateQuestionIds = (session: QuizSession): QuizSession => {
+  const isLegacy = session.questions.some((question) => !isStableQuestionId(question.id))
+    || session.questions.some((question) => question.duplicateOf && !isStableQuestionId(question.duplicateOf.questionId));
+  if (!isLegacy) {
+    return session;
+  }
+
+  return remapQuestionIds(
+    session,
+    (id) => migrateQuestionId(session.id, id),
+    (duplicateOf) => migrateQuestionId(duplicateOf.sessionId, duplicateOf.questionId)
+  );
+};
+
+/**
+ * Give every question in a copied session a new ID, so its answers are not counted twice (e.g. as
+ * spaced-repetition reviews) alongside the original's
+ */
+export const reassignQuestionIds = (session: QuizSession): QuizSession => {
+  const ids = new Map(session.questions.map((question) => [question.id, createQuestionId()]));
+  return remapQuestionIds(session, (id) => ids.get(id) ?? id);
+};
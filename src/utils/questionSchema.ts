@@ -0,0 +1,199 @@
+import { z } from 'zod';
+import { BLOOM_LEVELS, DIFFICULTY_LEVELS, QUESTION_CONFIG } from '../config/api';
+import type { QuestionCountKey, QuestionType } from '../config/api';
+
+export type { QuestionConfig, QuestionCountKey } from '../config/api';
+
+/**
+ * Schemas for generated question sets, shared by every generation route
+ */
+
+// Models often capitalise enum values ("Apply"), so compare case-insensitively
+const lowercase = (value: unknown) => (typeof value === 'string' ? value.trim().toLowerCase() : value);
+
+export const DifficultySchema = z.preprocess(lowercase, z.enum(DIFFICULTY_LEVELS));
+export const BloomLevelSchema = z.preprocess(lowercase, z.enum(BLOOM_LEVELS));
+
+// Per-question tags the model is asked to add; missing ones are filled from the config
+const questionTags = {
+  difficulty: DifficultySchema.optional(),
+  bloomLevel: BloomLevelSchema.optional(),
+};
+
+// The model is not asked for points on objective questions, but imported and bank questions may have them
+const pointsField = { points: z.number().min(0).optional() };
+
+// Citation for a question drawn from uploaded material. The server checks the quote against the
+// extracted text and sets `verified`, correcting `file` and `page` to where the quote was found.
+export const QuestionSourceSchema = z.object({
+  file: z.string().min(1),
+  page: z.preprocess((value) => (value === null ? undefined : value), z.number().int().positive().optional()),
+  quote: z.string().min(1),
+  verified: z.boolean().optional(),
+});
+
+export type QuestionSource = z.infer<typeof QuestionSourceSchema>;
+
+// Identity and origin of a question. `id` and `chunk` are set by the server; a malformed citation
+// is dropped rather than failing the question.
+const questionOrigin = {
+  id: z.string().uuid().optional(),
+  chunk: z.number().int().min(0).optional(),
+  source: QuestionSourceSchema.optional().catch(undefined),
+};
+
+export const McqSchema = z.object({
+  question: z.string().min(1),
+  options: z.array(z.string().min(1)).min(2),
+  answer: z.string().min(1),
+  explanation: z.string().optional(),
+  ...pointsField,
+  ...questionTags,
+  ...questionOrigin,
+}).refine((mcq) => mcq.options.includes(mcq.answer), {
+  message: 'answer must exactly match one of the options',
+  path: ['answer'],
+});
+
+export const FillInTheBlankSchema = z.object({
+  question: z.string().min(1),
+  answer: z.string().min(1),
+  acceptedAnswers: z.array(z.string().min(1)).optional(),
+  explanation: z.string().optional(),
+  ...pointsField,
+  ...questionTags,
+  ...questionOrigin,
+});
+
+export const TrueFalseSchema = z.object({
+  question: z.string().min(1),
+  answer: z.boolean(),
+  explanation: z.string().optional(),
+  ...pointsField,
+  ...questionTags,
+  ...questionOrigin,
+});
+
+export const ShortTypeSchema = z.object({
+  question: z.string().min(1),
+  answer: z.string().min(1),
+  points: z.number().optional(),
+  explanation: z.string().optional(),
+  ...questionTags,
+  ...questionOrigin,
+});
+
+export const LongTypeSchema = z.object({
+  question: z.string().min(1),
+  answer: z.string().min(1),
+  points: z.number().optional(),
+  explanation: z.string().optional(),
+  ...questionTags,
+  ...questionOrigin,
+});
+
+// A type the model omits entirely counts as zero questions; the count check tops it up
+export const QuestionSchema = z.object({
+  mcqs: z.array(McqSchema).default([]),
+  fill_in_the_blanks: z.array(FillInTheBlankSchema).default([]),
+  true_false: z.array(TrueFalseSchema).default([]),
+  short_type: z.array(ShortTypeSchema).default([]),
+  long_type: z.array(LongTypeSchema).default([]),
+});
+
+export type QuestionSet = z.infer<typeof QuestionSchema>;
+export type QuestionSetKey = keyof QuestionSet;
+export type QuestionItem = QuestionSet[QuestionSetKey][number];
+
+// Item schema per question set key, for validating questions one at a time as they stream in
+export const QUESTION_ITEM_SCHEMAS: Record<QuestionSetKey, z.ZodType<QuestionItem, z.ZodTypeDef, unknown>> = {
+  mcqs: McqSchema,
+  fill_in_the_blanks: FillInTheBlankSchema,
+  true_false: TrueFalseSchema,
+  short_type: ShortTypeSchema,
+  long_type: LongTypeSchema,
+};
+
+const { DEFAULT } = QUESTION_CONFIG;
+
+/**
+ * Request-side validation for the generation config, shared by the generation routes
+ */
+export const QuestionConfigSchema = z.object({
+  mcqs: z.number().min(0).max(20).default(DEFAULT.mcqs),
+  fillInBlanks: z.number().min(0).max(20).default(DEFAULT.fillInBlanks),
+  trueFalse: z.number().min(0).max(20).default(DEFAULT.trueFalse),
+  shortType: z.number().min(0).max(10).default(DEFAULT.shortType),
+  longType: z.number().min(0).max(5).default(DEFAULT.longType),
+  difficulty: DifficultySchema.default(DEFAULT.difficulty!),
+  bloomLevels: z.array(BloomLevelSchema).max(BLOOM_LEVELS.length).default([]),
+  language: z.string().trim().min(1).max(40).default(DEFAULT.language!),
+  gradeLevel: z.string().trim().max(60).optional(),
+}).default({});
+
+// How each config count maps onto the generated set, with the wording used in prompts
+export const QUESTION_TYPES: Array<{
+  configKey: QuestionCountKey;
+  setKey: QuestionSetKey;
+  type: QuestionType;
+  description: string;
+  example: Record<string, unknown>;
+}> = [
+  {
+    configKey: 'mcqs',
+    setKey: 'mcqs',
+    type: 'mcq',
+    description: 'multiple choice questions (MCQs) with 4 options each',
+    example: {
+      question: 'Question text here',
+      options: ['Option A', 'Option B', 'Option C', 'Option D'],
+      answer: 'Option A',
+      explanation: 'Brief explanation (optional)',
+    },
+  },
+  {
+    configKey: 'fillInBlanks',
+    setKey: 'fill_in_the_blanks',
+    type: 'fill',
+    description: 'fill in the blank questions',
+    example: {
+      question: 'Question with _____ blank',
+      answer: 'correct answer',
+      acceptedAnswers: ['synonym or alternative spelling (optional)'],
+      explanation: 'Brief explanation (optional)',
+    },
+  },
+  {
+    configKey: 'trueFalse',
+    setKey: 'true_false',
+    type: 'true_false',
+    description: 'true/false questions',
+    example: {
+      question: 'Statement to evaluate',
+      answer: true,
+      explanation: 'Brief explanation (optional)',
+    },
+  },
+  {
+    configKey: 'shortType',
+    setKey: 'short_type',
+    type: 'short',
+    description: 'short answer questions',
+    example: {
+      question: 'Short answer question',
+      answer: 'Expected short answer',
+      points: 2,
+    },
+  },
+  {
+    configKey: 'longType',
+    setKey: 'long_type',
+    type: 'long',
+    description: 'long answer questions',
+    example: {
+      question: 'Long answer question',
+      answer: 'Expected detailed answer',
+      points: 5,
+    },
+  },
+];
@@ -0,0 +1,122 @@
+import { QUESTION_ITEM_SCHEMAS } from './questionSchema';
+import type { QuestionItem, QuestionSetKey } from './questionSchema';
+
+export type QuestionItemHandler = (setKey: QuestionSetKey, item: QuestionItem) => void;
+
+const isQuestionSetKey = (key: string | undefined): key is QuestionSetKey => {
+  return key !== undefined && key in QUESTION_ITEM_SCHEMAS;
+};
+
+/**
+ * Incremental scanner for a question set arriving as partial JSON. Each time an item object
+ * inside one of the top-level arrays closes, it is parsed and validated against its item schema
+ * and handed to `onItem`. Items that fail validation are skipped; the full-set validation after
+ * the response completes deals with them.
+ *
+ * `push` takes the whole text received so far. Text that does not extend the previous text
+ * (a retry or fallback started a new response) resets the scanner.
+ */
+export const createQuestionStreamParser = (onItem: QuestionItemHandler) => {
+  let buffer = '';
+  let position = 0;
+  let started = false;
+  let finished = false;
+  let stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastKey: string | undefined;
+  let arrayKey: QuestionSetKey | null = null;
+  let itemStart = -1;
+
+  const reset = () => {
+    buffer = '';
+    position = 0;
+    started = false;
+    finished = false;
+    stack = [];
+    inString = false;
+    escaped = false;
+    stringStart = -1;
+    lastKey = undefined;
+    arrayKey = null;
+    itemStart = -1;
+  };
+
+  const emit = (setKey: QuestionSetKey, json: string) => {
+    try {
+      const result = QUESTION_ITEM_SCHEMAS[setKey].safeParse(JSON.parse(json));
+      if (result.success) {
+        onItem(setKey, result.data);
+      }
+    } catch {
+      // Not valid JSON on its own; left to the full-set validation
+    }
+  };
+
+  const scan = () => {
+    for (; position < buffer.length && !finished; position++) {
+      const char = buffer[position];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          // At the top level the only strings are keys
+          if (stack.length === 1) {
+            lastKey = buffer.slice(stringStart + 1, position);
+          }
+        }
+        continue;
+      }
+
+      // Skip markdown fences or prose before the object
+      if (!started) {
+        if (char === '{') {
+          started = true;
+          stack.push(char);
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+        stringStart = position;
+      } else if (char === '{' || char === '[') {
+        if (char === '[' && stack.length === 1) {
+          arrayKey = isQuestionSetKey(lastKey) ? lastKey : null;
+        }
+        if (char === '{' && stack.length === 2 && stack[1] === '[') {
+          itemStart = position;
+        }
+        stack.push(char);
+      } else if (char === '}' || char === ']') {
+        stack.pop();
+        if (char === '}' && stack.length === 2 && arrayKey && itemStart !== -1) {
+          emit(arrayKey, buffer.slice(itemStart, position + 1));
+          itemStart = -1;
+        }
+        if (char === ']' && stack.length === 1) {
+          arrayKey = null;
+        }
+        if (stack.length === 0) {
+          finished = true;
+        }
+      }
+    }
+  };
+
+  return {
+    push: (text: string) => {
+      if (!text.startsWith(buffer)) {
+        reset();
+      }
+      buffer = text;
+      scan();
+    },
+    reset,
+  };
+};
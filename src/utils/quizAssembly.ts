@@ -0,0 +1,51 @@
+import { QUESTION_CONFIG } from '../config/api';
+import type { Difficulty, QuestionConfig } from '../config/api';
+import { QUESTION_TYPES } from './questionSchema';
+import type { BankQuestion } from './questionBank';
+
+/**
+ * Turn questions picked from the question bank into a quiz session. The store's createSession
+ * takes a generated question set, so bank questions are regrouped by type; they keep their IDs.
+ */
+
+export const toQuestionSet = (questions: BankQuestion[]) => {
+  return Object.fromEntries(QUESTION_TYPES.map(({ setKey, type }) => [
+    setKey,
+    questions
+      .filter((question) => question.type === type)
+      .map(({ ownerId: _owner, createdAt: _created, updatedAt: _updated, topic: _topic, tags: _tags, type: _type, ...question }) => (
+        type === 'true_false' ? { ...question, answer: question.answer === 'true' } : question
+      )),
+  ]));
+};
+
+/**
+ * Generation config matching the picked (or imported) questions, so "generate more" asks for the
+ * same mix
+ */
+export const configForQuestions = (questions: Array<Pick<BankQuestion, 'type' | 'difficulty'>>): QuestionConfig => {
+  const counts = Object.fromEntries(QUESTION_TYPES.map(({ configKey, type }) => [
+    configKey,
+    questions.filter((question) => question.type === type).length,
+  ]));
+
+  const byDifficulty = new Map<Difficulty, number>();
+  questions.forEach(({ difficulty }) => {
+    if (difficulty) byDifficulty.set(difficulty, (byDifficulty.get(difficulty) || 0) + 1);
+  });
+  const [mostCommon] = Array.from(byDifficulty.entries()).sort((a, b) => b[1] - a[1]);
+
+  return {
+    ...QUESTION_CONFIG.DEFAULT,
+    ...counts,
+    difficulty: mostCommon ? mostCommon[0] : QUESTION_CONFIG.DEFAULT.difficulty,
+  };
+};
+
+/**
+ * Session topic for a set of bank questions: their topic when they share one
+ */
+export const topicForQuestions = (questions: BankQuestion[]): string => {
+  const topics = Array.from(new Set(questions.map((question) => question.topic).filter(Boolean)));
+  return topics.length === 1 ? topics[0]! : 'Question bank';
+};
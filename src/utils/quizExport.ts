@@ -0,0 +1,390 @@
+import { z } from 'zod';
+import { SESSION_QUESTION_TYPES } from '../config/api';
+import type { QuestionType } from '../config/api';
+import { gradeObjectiveAnswer } from './grading';
+import { getQuestionPoints } from './scoring';
+import { createZip } from './zip';
+
+/**
+ * Export a quiz for other learning platforms: Moodle XML, GIFT (Moodle's text format) and an
+ * IMS QTI 2.1 content package. Multiple choice, fill-in and true/false questions map to each
+ * format's auto-graded types; short and long answers map to manually graded essays, with the
+ * reference answer for the grader. Explanations become general feedback.
+ */
+
+export const EXPORT_FORMATS = ['moodle', 'gift', 'qti'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const ExportQuestionSchema = z.object({
+  id: z.string().min(1),
+  question: z.string().min(1),
+  type: z.enum(SESSION_QUESTION_TYPES),
+  options: z.array(z.string()).optional(),
+  answer: z.string(),
+  acceptedAnswers: z.array(z.string()).optional(),
+  explanation: z.string().optional(),
+  points: z.number().min(0).optional(),
+});
+
+export type ExportQuestion = z.infer<typeof ExportQuestionSchema>;
+
+export const ExportRequestSchema = z.object({
+  format: z.enum(EXPORT_FORMATS),
+  name: z.string().trim().min(1).max(200),
+  questions: z.array(ExportQuestionSchema).min(1).max(500),
+});
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  data: string | Buffer;
+}
+
+const SECTION_TITLES: Record<QuestionType, string> = {
+  mcq: 'Multiple choice',
+  fill: 'Fill in the blanks',
+  true_false: 'True/False',
+  short: 'Short answer',
+  long: 'Long answer',
+};
+
+// Lines of the answer box for written questions
+const ESSAY_LINES: Partial<Record<QuestionType, number>> = { short: 5, long: 15 };
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// Plain text as an HTML fragment
+const toHtml = (text: string) => escapeXml(text).replace(/\r?\n/g, '<br>');
+
+export const slugify = (name: string) => name
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '')
+  .slice(0, 60) || 'quiz';
+
+const isTrue = (answer: string) => answer.trim().toLowerCase() === 'true';
+
+// Options graded correct; older questions store the option letter rather than its text
+const correctOptions = (question: ExportQuestion) => {
+  return (question.options || []).filter((option) => gradeObjectiveAnswer(question, option) === true);
+};
+
+const fillAnswers = (question: ExportQuestion) => {
+  const seen = new Set<string>();
+  return [question.answer, ...(question.acceptedAnswers || [])]
+    .map((answer) => answer.trim())
+    .filter((answer) => {
+      const key = answer.toLowerCase();
+      if (!answer || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+const questionTitle = (question: ExportQuestion, index: number) => {
+  return `${SECTION_TITLES[question.type]} ${index + 1}`;
+};
+
+// Moodle XML
+
+const moodleText = (tag: string, text: string) => {
+  return `<${tag} format="html"><text>${escapeXml(toHtml(text))}</text></${tag}>`;
+};
+
+const moodleAnswer = (fraction: number, text: string) => {
+  return `    <answer fraction="${fraction}" format="html"><text>${escapeXml(toHtml(text))}</text><feedback format="html"><text></text></feedback></answer>`;
+};
+
+const moodleQuestion = (question: ExportQuestion, index: number): string => {
+  const moodleType = {
+    mcq: 'multichoice',
+    fill: 'shortanswer',
+    true_false: 'truefalse',
+    short: 'essay',
+    long: 'essay',
+  }[question.type];
+
+  const lines = [
+    `  <question type="${moodleType}">`,
+    `    <name><text>${escapeXml(questionTitle(question, index))}</text></name>`,
+    `    ${moodleText('questiontext', question.question)}`,
+    `    ${moodleText('generalfeedback', question.explanation || '')}`,
+    `    <defaultgrade>${getQuestionPoints(question)}</defaultgrade>`,
+    '    <penalty>0</penalty>',
+    '    <hidden>0</hidden>',
+    `    <idnumber>${escapeXml(question.id)}</idnumber>`,
+  ];
+
+  switch (question.type) {
+    case 'mcq': {
+      const correct = new Set(correctOptions(question));
+      lines.push('    <single>true</single>', '    <shuffleanswers>true</shuffleanswers>', '    <answernumbering>abc</answernumbering>');
+      (question.options || []).forEach((option) => lines.push(moodleAnswer(correct.has(option) ? 100 : 0, option)));
+      break;
+    }
+    case 'fill':
+      lines.push('    <usecase>0</usecase>');
+      fillAnswers(question).forEach((answer) => lines.push(moodleAnswer(100, answer)));
+      break;
+    case 'true_false':
+      lines.push(moodleAnswer(isTrue(question.answer) ? 100 : 0, 'true'), moodleAnswer(isTrue(question.answer) ? 0 : 100, 'false'));
+      break;
+    default:
+      lines.push(
+        '    <responseformat>editor</responseformat>',
+        '    <responserequired>1</responserequired>',
+        `    <responsefieldlines>${ESSAY_LINES[question.type]}</responsefieldlines>`,
+        '    <attachments>0</attachments>',
+        `    ${moodleText('graderinfo', question.answer)}`,
+        '    <responsetemplate format="html"><text></text></responsetemplate>'
+      );
+  }
+
+  lines.push('  </question>');
+  return lines.join('\n');
+};
+
+export const toMoodleXml = (name: string, questions: ExportQuestion[]): string => {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<quiz>',
+    '  <question type="category">',
+    `    <category><text>$course$/top/${escapeXml(name.replace(/\//g, '-'))}</text></category>`,
+    '  </question>',
+    ...questions.map(moodleQuestion),
+    '</quiz>',
+    '',
+  ].join('\n');
+};
+
+// GIFT
+
+// Blank lines within a field become single line breaks, so the blank line between an essay's
+// reference answer and its explanation is the only one in its feedback
+const escapeGift = (text: string) => text
+  .replace(/([~=#{}:\\])/g, '\\$1')
+  .replace(/(?:\r?\n[ \t]*){2,}/g, '\n')
+  .replace(/\r?\n/g, '\\n');
+
+const giftFeedback = (...parts: Array<string | undefined>) => {
+  const text = parts.filter(Boolean).map((part) => escapeGift(part!)).join('\\n\\n');
+  return text ? `####${text}` : '';
+};
+
+const giftAnswers = (question: ExportQuestion): string => {
+  switch (question.type) {
+    case 'mcq': {
+      const correct = new Set(correctOptions(question));
+      const lines = (question.options || []).map((option) => `\t${correct.has(option) ? '=' : '~'}${escapeGift(option)}`);
+      // A whitespace-only line would end the question
+      if (question.explanation) lines.push(`\t${giftFeedback(question.explanation)}`);
+      return `{\n${lines.join('\n')}\n}`;
+    }
+    case 'fill':
+      return `{${fillAnswers(question).map((answer) => `=${escapeGift(answer)}`).join(' ')}${giftFeedback(question.explanation)}}`;
+    case 'true_false':
+      return `{${isTrue(question.answer) ? 'TRUE' : 'FALSE'}${giftFeedback(question.explanation)}}`;
+    default: {
+      // Essays have no grader information in GIFT, so the reference answer goes in the feedback
+      return `{${giftFeedback(`Reference answer: ${question.answer}`, question.explanation)}}`;
+    }
+  }
+};
+
+/**
+ * GIFT has no point values; each question's points are kept in a comment above it
+ */
+export const toGift = (name: string, questions: ExportQuestion[]): string => {
+  const blocks = questions.map((question, index) => [
+    `// points: ${getQuestionPoints(question)}`,
+    `::${escapeGift(questionTitle(question, index))}:: ${escapeGift(question.question)} ${giftAnswers(question)}`,
+  ].join('\n'));
+
+  const title = name.replace(/\r?\n/g, ' ');
+  // A slash in a category name would start a subcategory
+  return [`// ${title}`, `$CATEGORY: ${title.replace(/\//g, '-')}`, '', blocks.join('\n\n'), ''].join('\n');
+};
+
+// IMS QTI 2.1
+
+const QTI_NAMESPACE = 'xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" '
+  + 'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" '
+  + 'xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"';
+
+// QTI identifiers must not start with a digit
+const itemIdentifier = (question: ExportQuestion) => `ITEM-${question.id.replace(/[^A-Za-z0-9_.-]/g, '_')}`;
+const itemHref = (question: ExportQuestion) => `items/${itemIdentifier(question)}.xml`;
+
+const qtiParagraphs = (text: string) => text
+  .split(/\r?\n\s*\r?\n/)
+  .map((paragraph) => `<p>${toHtml(paragraph)}</p>`)
+  .join('');
+
+const qtiOutcomes = (points: number) => [
+  '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>',
+  `  <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float"><defaultValue><value>${points}</value></defaultValue></outcomeDeclaration>`,
+  '  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>',
+];
+
+const qtiShowExplanation = '    <setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue>';
+
+const qtiItem = (question: ExportQuestion, index: number): string => {
+  const points = getQuestionPoints(question);
+  const declarations: string[] = [];
+  const body: string[] = [];
+  const processing: string[] = [];
+
+  switch (question.type) {
+    case 'mcq':
+    case 'true_false': {
+      const choices = question.type === 'mcq'
+        ? (question.options || []).map((option, i) => ({ id: `CHOICE_${i + 1}`, text: option, correct: correctOptions(question).includes(option) }))
+        : [
+          { id: 'TRUE', text: 'True', correct: isTrue(question.answer) },
+          { id: 'FALSE', text: 'False', correct: !isTrue(question.answer) },
+        ];
+      const correct = choices.find((choice) => choice.correct);
+
+      declarations.push(
+        '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">',
+        correct ? `    <correctResponse><value>${correct.id}</value></correctResponse>` : '',
+        '  </responseDeclaration>'
+      );
+      body.push(
+        `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="${question.type === 'mcq'}" maxChoices="1">`,
+        `      <prompt>${toHtml(question.question)}</prompt>`,
+        ...choices.map((choice) => `      <simpleChoice identifier="${choice.id}">${toHtml(choice.text)}</simpleChoice>`),
+        '    </choiceInteraction>'
+      );
+      processing.push(
+        '    <responseCondition>',
+        '      <responseIf>',
+        '        <match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>',
+        '        <setOutcomeValue identifier="SCORE"><variable identifier="MAXSCORE"/></setOutcomeValue>',
+        '      </responseIf>',
+        '    </responseCondition>'
+      );
+      break;
+    }
+
+    case 'fill': {
+      const answers = fillAnswers(question);
+      declarations.push(
+        '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">',
+        `    <correctResponse><value>${escapeXml(question.answer)}</value></correctResponse>`,
+        '    <mapping defaultValue="0">',
+        ...answers.map((answer) => `      <mapEntry mapKey="${escapeXml(answer)}" mappedValue="${points}" caseSensitive="false"/>`),
+        '    </mapping>',
+        '  </responseDeclaration>'
+      );
+      body.push(
+        `    ${qtiParagraphs(question.question)}`,
+        `    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="${Math.max(10, ...answers.map((answer) => answer.length))}"/></p>`
+      );
+      processing.push('    <setOutcomeValue identifier="SCORE"><mapResponse identifier="RESPONSE"/></setOutcomeValue>');
+      break;
+    }
+
+    default:
+      // Scored by hand, against the reference answer shown to scorers only
+      declarations.push('  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>');
+      body.push(
+        `    <rubricBlock view="scorer"><p>Reference answer:</p>${qtiParagraphs(question.answer)}</rubricBlock>`,
+        `    <extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="${ESSAY_LINES[question.type]}">`,
+        `      <prompt>${toHtml(question.question)}</prompt>`,
+        '    </extendedTextInteraction>'
+      );
+  }
+
+  if (question.explanation) {
+    processing.push(qtiShowExplanation);
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem ${QTI_NAMESPACE} identifier="${itemIdentifier(question)}" title="${escapeXml(questionTitle(question, index))}" adaptive="false" timeDependent="false">`,
+    ...declarations.filter(Boolean),
+    ...qtiOutcomes(points),
+    '  <itemBody>',
+    ...body,
+    '  </itemBody>',
+    processing.length > 0 ? ['  <responseProcessing>', ...processing, '  </responseProcessing>'].join('\n') : '',
+    question.explanation
+      ? `  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${toHtml(question.explanation)}</modalFeedback>`
+      : '',
+    '</assessmentItem>',
+    '',
+  ].filter((line) => line !== '').join('\n');
+};
+
+// One section per question type, in the quiz's order
+const qtiTest = (name: string, questions: ExportQuestion[]): string => {
+  const types = Array.from(new Set(questions.map((question) => question.type)));
+  const sections = types.map((type) => [
+    `      <assessmentSection identifier="SECTION-${type}" title="${SECTION_TITLES[type]}" visible="true">`,
+    ...questions
+      .filter((question) => question.type === type)
+      .map((question) => `        <assessmentItemRef identifier="${itemIdentifier(question)}" href="${itemHref(question)}"/>`),
+    '      </assessmentSection>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentTest ${QTI_NAMESPACE} identifier="TEST" title="${escapeXml(name)}">`,
+    '  <testPart identifier="PART-1" navigationMode="nonlinear" submissionMode="simultaneous">',
+    ...sections,
+    '  </testPart>',
+    '</assessmentTest>',
+    '',
+  ].join('\n');
+};
+
+const qtiManifest = (questions: ExportQuestion[]): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" '
+    + 'identifier="MANIFEST" '
+    + 'xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd">',
+  '  <metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>',
+  '  <organizations/>',
+  '  <resources>',
+  '    <resource identifier="TEST" type="imsqti_test_xmlv2p1" href="test.xml">',
+  '      <file href="test.xml"/>',
+  ...questions.map((question) => `      <dependency identifierref="${itemIdentifier(question)}"/>`),
+  '    </resource>',
+  ...questions.map((question) => [
+    `    <resource identifier="${itemIdentifier(question)}" type="imsqti_item_xmlv2p1" href="${itemHref(question)}">`,
+    `      <file href="${itemHref(question)}"/>`,
+    '    </resource>',
+  ].join('\n')),
+  '  </resources>',
+  '</manifest>',
+  '',
+].join('\n');
+
+export const toQtiPackage = (name: string, questions: ExportQuestion[]): Buffer => {
+  return createZip([
+    { name: 'imsmanifest.xml', data: qtiManifest(questions) },
+    { name: 'test.xml', data: qtiTest(name, questions) },
+    ...questions.map((question, index) => ({ name: itemHref(question), data: qtiItem(question, index) })),
+  ]);
+};
+
+/**
+ * File for a quiz in the requested format
+ */
+export const exportQuiz = (format: ExportFormat, name: string, questions: ExportQuestion[]): ExportFile => {
+  const base = slugify(name);
+  switch (format) {
+    case 'moodle':
+      return { filename: `${base}.xml`, contentType: 'application/xml; charset=utf-8', data: toMoodleXml(name, questions) };
+    case 'gift':
+      return { filename: `${base}.gift.txt`, contentType: 'text/plain; charset=utf-8', data: toGift(name, questions) };
+    case 'qti':
+      return { filename: `${base}-qti.zip`, contentType: 'application/zip', data: toQtiPackage(name, questions) };
+  }
+};
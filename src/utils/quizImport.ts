@@ -0,0 +1,585 @@
+import type { QuestionConfig, QuestionType } from '../config/api';
+import { QUESTION_ITEM_SCHEMAS, QUESTION_TYPES } from './questionSchema';
+import type { QuestionSet, QuestionSetKey } from './questionSchema';
+import { configForQuestions } from './quizAssembly';
+
+/**
+ * Import questions written elsewhere: GIFT, Moodle XML, CSV with a column mapping, or a
+ * QuestionSchema JSON set. Every format is read into the generated question set shape and each
+ * question is checked with the same item schema as generated ones, so the result goes through the
+ * store's createSession (and convertQuestionsFormat) unchanged. A question that cannot be read
+ * or fails the schema is reported with its location in the file and left out; the rest import.
+ *
+ * Runs in the browser: Moodle XML is read with DOMParser.
+ */
+
+export const IMPORT_FORMATS = ['gift', 'moodle', 'csv', 'json'] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export interface ImportError {
+  location: string;   // "Line 12", "Question 3", "mcqs[2]"
+  message: string;
+}
+
+export interface ImportResult {
+  questions: QuestionSet;
+  config: QuestionConfig;
+  count: number;
+  errors: ImportError[];
+}
+
+// A question read from a file, before validation
+interface ImportRow {
+  location: string;
+  type: QuestionType;
+  data: Record<string, unknown>;
+}
+
+interface ParsedFile {
+  rows: ImportRow[];
+  errors: ImportError[];
+}
+
+export const CSV_FIELDS = ['type', 'question', 'options', 'answer', 'acceptedAnswers', 'explanation', 'points', 'difficulty'] as const;
+export type CsvField = typeof CSV_FIELDS[number];
+
+// Column indexes per field. Options may come from several columns, one option each; every other
+// field uses its first column. Cells with several values separate them with "|".
+export type CsvMapping = Partial<Record<CsvField, number[]>>;
+
+export interface CsvImportOptions {
+  mapping: CsvMapping;
+  defaultType: QuestionType;   // For rows without a type; rows with options default to mcq
+}
+
+const SET_KEYS = Object.fromEntries(QUESTION_TYPES.map(({ type, setKey }) => [type, setKey])) as Record<QuestionType, QuestionSetKey>;
+
+export const detectImportFormat = (filename: string, text: string): ImportFormat => {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'xml') return 'moodle';
+  if (extension === 'csv' || extension === 'tsv') return 'csv';
+  if (extension === 'json') return 'json';
+  if (extension === 'gift') return 'gift';
+
+  const start = text.trimStart();
+  if (start.startsWith('<')) return 'moodle';
+  if (start.startsWith('{')) return 'json';
+  return 'gift';
+};
+
+const splitValues = (value: string) => value.split('|').map((part) => part.trim()).filter(Boolean);
+
+const toBoolean = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  const normalized = value.trim().toLowerCase();
+  if (['true', 't', 'yes', 'y', '1'].includes(normalized)) return true;
+  if (['false', 'f', 'no', 'n', '0'].includes(normalized)) return false;
+  return value;
+};
+
+const toNumber = (value: unknown): unknown => {
+  if (typeof value !== 'string' || value.trim() === '') return value === '' ? undefined : value;
+  const number = Number(value.trim());
+  return Number.isNaN(number) ? value : number;
+};
+
+/**
+ * Question fields as the item schemas expect them. An MCQ answer given as an option letter is
+ * replaced by the option's text; true/false answers become booleans.
+ */
+const toItem = (type: QuestionType, fields: Record<string, unknown>): Record<string, unknown> => {
+  const item: Record<string, unknown> = Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined && value !== '')
+  );
+  item.points = toNumber(item.points);
+
+  if (type === 'mcq' && Array.isArray(item.options) && typeof item.answer === 'string') {
+    const options = item.options as string[];
+    const answer = item.answer.trim();
+    if (!options.includes(answer) && /^[a-h]$/i.test(answer)) {
+      item.answer = options[answer.toUpperCase().charCodeAt(0) - 65] ?? answer;
+    } else {
+      item.answer = answer;
+    }
+  }
+  if (type === 'true_false') {
+    item.answer = toBoolean(item.answer);
+  }
+  return item;
+};
+
+const formatIssues = (issues: Array<{ path: Array<string | number>; message: string }>) => {
+  return issues.map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join('; ');
+};
+
+/**
+ * Validate rows with the generated-question item schemas and group them into a question set
+ */
+const collectQuestions = ({ rows, errors }: ParsedFile): ImportResult => {
+  const questions: QuestionSet = { mcqs: [], fill_in_the_blanks: [], true_false: [], short_type: [], long_type: [] };
+  const imported: Array<{ type: QuestionType; difficulty?: QuestionConfig['difficulty'] }> = [];
+  const rowErrors = [...errors];
+
+  for (const row of rows) {
+    const setKey = SET_KEYS[row.type];
+    const parsed = QUESTION_ITEM_SCHEMAS[setKey].safeParse(row.data);
+    if (!parsed.success) {
+      rowErrors.push({ location: row.location, message: formatIssues(parsed.error.issues) });
+      continue;
+    }
+    (questions[setKey] as unknown[]).push(parsed.data);
+    imported.push({ type: row.type, difficulty: parsed.data.difficulty });
+  }
+
+  return { questions, config: configForQuestions(imported), count: imported.length, errors: rowErrors };
+};
+
+// GIFT
+
+// Escaped special characters are swapped for private-use characters while parsing
+const GIFT_SPECIALS = ['\\', '~', '=', '#', '{', '}', ':'];
+const GIFT_PLACEHOLDER_BASE = 0xe000;
+
+const protectGift = (text: string) => text.replace(/\\([\\~=#{}:n])/g, (_, char: string) => (
+  char === 'n' ? '\n' : String.fromCharCode(GIFT_PLACEHOLDER_BASE + GIFT_SPECIALS.indexOf(char))
+));
+
+const restoreGift = (text: string) => text
+  .replace(/[\uE000-\uE006]/g, (char) => GIFT_SPECIALS[char.charCodeAt(0) - GIFT_PLACEHOLDER_BASE]!)
+  .trim();
+
+// Answer text without its per-answer feedback ("=Paris#Correct!")
+const giftAnswerText = (text: string) => restoreGift(text.split('#')[0]!);
+
+const parseGiftQuestion = (block: string, location: string, points: number | undefined): ImportRow | ImportError => {
+  let body = protectGift(block);
+  let title = '';
+
+  const titleMatch = /^\s*::([\s\S]*?)::/.exec(body);
+  if (titleMatch) {
+    title = restoreGift(titleMatch[1]!);
+    body = body.slice(titleMatch[0].length);
+  }
+
+  const formatMatch = /^\s*\[(html|moodle|plain|markdown)\]/i.exec(body);
+  const isHtml = formatMatch?.[1]!.toLowerCase() === 'html';
+  if (formatMatch) {
+    body = body.slice(formatMatch[0].length);
+  }
+
+  const open = body.indexOf('{');
+  const close = open >= 0 ? body.indexOf('}', open) : -1;
+  if (open < 0 || close < 0) {
+    return { location, message: 'No answer block ({...}) found' };
+  }
+
+  const before = restoreGift(body.slice(0, open));
+  const after = restoreGift(body.slice(close + 1));
+  let text = after ? `${before} _____ ${after}` : before;
+  if (isHtml) {
+    text = htmlToText(text);
+  }
+
+  let answers = body.slice(open + 1, close);
+  let explanation: string | undefined;
+  const feedbackIndex = answers.indexOf('####');
+  if (feedbackIndex >= 0) {
+    explanation = restoreGift(answers.slice(feedbackIndex + 4));
+    answers = answers.slice(0, feedbackIndex);
+  }
+  answers = answers.trim();
+
+  const base = { question: text, explanation, points };
+
+  // Essay. Exports put the reference answer at the start of the feedback.
+  if (answers === '') {
+    const reference = /^Reference answer:\s*([\s\S]*?)(?:\n\n([\s\S]*))?$/.exec(explanation || '');
+    const type: QuestionType = /long/i.test(title) ? 'long' : 'short';
+    return {
+      location,
+      type,
+      data: toItem(type, { ...base, answer: reference?.[1]?.trim(), explanation: reference ? reference[2]?.trim() : explanation }),
+    };
+  }
+
+  const trueFalse = /^(T|TRUE|F|FALSE)(#[\s\S]*)?$/i.exec(answers);
+  if (trueFalse) {
+    return { location, type: 'true_false', data: toItem('true_false', { ...base, answer: trueFalse[1]!.toUpperCase().startsWith('T') }) };
+  }
+
+  if (answers.startsWith('#')) {
+    return { location, message: 'Numerical questions are not supported' };
+  }
+  if (answers.includes('->')) {
+    return { location, message: 'Matching questions are not supported' };
+  }
+
+  const entries = Array.from(answers.matchAll(/([=~])(?:%(-?\d+(?:\.\d+)?)%)?([^=~]*)/g)).map((match) => ({
+    correct: match[1] === '=' || Number(match[2] || 0) >= 100,
+    weighted: match[2] !== undefined,
+    text: giftAnswerText(match[3]!),
+  }));
+
+  if (entries.some((entry) => !entry.correct || entry.weighted)) {
+    const options = entries.map((entry) => entry.text);
+    const correct = entries.filter((entry) => entry.correct);
+    if (correct.length > 1) {
+      return { location, message: 'Questions with several correct answers are not supported' };
+    }
+    return { location, type: 'mcq', data: toItem('mcq', { ...base, options, answer: correct[0]?.text }) };
+  }
+
+  const [answer, ...acceptedAnswers] = entries.map((entry) => entry.text).filter(Boolean);
+  return {
+    location,
+    type: 'fill',
+    data: toItem('fill', { ...base, answer, acceptedAnswers: acceptedAnswers.length > 0 ? acceptedAnswers : undefined }),
+  };
+};
+
+/**
+ * Questions are separated by blank lines. A "// points: N" comment before a question, as written
+ * by the GIFT export, sets its points.
+ */
+export const parseGift = (text: string): ParsedFile => {
+  const rows: ImportRow[] = [];
+  const errors: ImportError[] = [];
+  let block: string[] = [];
+  let blockLine = 0;
+  let points: number | undefined;
+
+  const flush = () => {
+    if (block.some((line) => line.trim())) {
+      const result = parseGiftQuestion(block.join('\n'), `Line ${blockLine}`, points);
+      if ('type' in result) rows.push(result);
+      else errors.push(result);
+    }
+    block = [];
+    points = undefined;
+  };
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed === '') {
+      flush();
+      return;
+    }
+    if (trimmed.startsWith('//')) {
+      const pointsMatch = /^\/\/\s*points:\s*(\d+(?:\.\d+)?)/i.exec(trimmed);
+      if (pointsMatch && block.length === 0) points = Number(pointsMatch[1]);
+      return;
+    }
+    if (trimmed.startsWith('$CATEGORY:')) {
+      return;
+    }
+    if (block.length === 0) blockLine = index + 1;
+    block.push(line);
+  });
+  flush();
+
+  return { rows, errors };
+};
+
+// Moodle XML
+
+const decodeEntities = (text: string) => text
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+  .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)))
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;|&#39;/g, "'")
+  .replace(/&amp;/g, '&');
+
+const htmlToText = (html: string) => decodeEntities(
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+).replace(/\n{3,}/g, '\n\n').trim();
+
+const childElements = (element: Element, tag: string): Element[] => {
+  return Array.from(element.childNodes).filter((node): node is Element => node.nodeType === 1 && node.nodeName === tag);
+};
+
+// Text of a <tag format="..."><text>...</text></tag> child, as plain text
+const moodleText = (element: Element, tag: string): string | undefined => {
+  const child = childElements(element, tag)[0];
+  const text = child && childElements(child, 'text')[0]?.textContent;
+  if (!child || text == null) return undefined;
+  return (child.getAttribute('format') || 'html') === 'html' ? htmlToText(text) : text.trim();
+};
+
+// Answers are plain text unless marked as HTML
+const moodleAnswers = (element: Element) => childElements(element, 'answer').map((answer) => {
+  const text = childElements(answer, 'text')[0]?.textContent || '';
+  return {
+    fraction: Number(answer.getAttribute('fraction') || 0),
+    text: answer.getAttribute('format') === 'html' ? htmlToText(text) : text.trim(),
+  };
+});
+
+const parseMoodleQuestion = (element: Element, location: string): ImportRow | ImportError => {
+  const kind = element.getAttribute('type');
+  const grade = childElements(element, 'defaultgrade')[0]?.textContent?.trim();
+  const base = {
+    question: moodleText(element, 'questiontext'),
+    explanation: moodleText(element, 'generalfeedback'),
+    points: grade || undefined,
+  };
+  const answers = moodleAnswers(element);
+  const correct = answers.filter((answer) => answer.fraction > 0);
+
+  switch (kind) {
+    case 'multichoice': {
+      if (childElements(element, 'single')[0]?.textContent?.trim() === 'false' && correct.length > 1) {
+        return { location, message: 'Questions with several correct answers are not supported' };
+      }
+      const best = [...answers].sort((a, b) => b.fraction - a.fraction)[0];
+      return {
+        location,
+        type: 'mcq',
+        data: toItem('mcq', { ...base, options: answers.map((answer) => answer.text), answer: best && best.fraction > 0 ? best.text : undefined }),
+      };
+    }
+
+    case 'truefalse':
+      return { location, type: 'true_false', data: toItem('true_false', { ...base, answer: correct[0]?.text }) };
+
+    case 'shortanswer':
+    case 'numerical': {
+      const [answer, ...acceptedAnswers] = correct.filter((answer) => answer.fraction >= 100).map((answer) => answer.text);
+      return {
+        location,
+        type: 'fill',
+        data: toItem('fill', { ...base, answer, acceptedAnswers: acceptedAnswers.length > 0 ? acceptedAnswers : undefined }),
+      };
+    }
+
+    case 'essay': {
+      const lines = Number(childElements(element, 'responsefieldlines')[0]?.textContent || 15);
+      const type: QuestionType = lines >= 10 ? 'long' : 'short';
+      return { location, type, data: toItem(type, { ...base, answer: moodleText(element, 'graderinfo') }) };
+    }
+
+    default:
+      return { location, message: `Unsupported question type: ${kind || 'missing'}` };
+  }
+};
+
+export const parseMoodleXml = (text: string): ParsedFile => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  const root = document.documentElement;
+  if (!root || root.nodeName !== 'quiz' || document.getElementsByTagName('parsererror').length > 0) {
+    return { rows: [], errors: [{ location: 'File', message: 'Not a Moodle XML file: expected a <quiz> element' }] };
+  }
+
+  const rows: ImportRow[] = [];
+  const errors: ImportError[] = [];
+  childElements(root, 'question')
+    .filter((question) => question.getAttribute('type') !== 'category')
+    .forEach((question, index) => {
+      const name = childElements(question, 'name')[0]?.textContent?.trim();
+      const result = parseMoodleQuestion(question, `Question ${index + 1}${name ? ` (${name})` : ''}`);
+      if ('type' in result) rows.push(result);
+      else errors.push(result);
+    });
+
+  return { rows, errors };
+};
+
+// CSV
+
+/**
+ * Rows of a CSV file. Quoted cells may contain the delimiter, line breaks and doubled quotes.
+ * The delimiter (comma, semicolon or tab) is the one most used in the first line.
+ */
+export const readCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t']
+    .map((candidate) => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0]!.candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const CSV_HEADERS: Record<CsvField, RegExp> = {
+  type: /^(question )?type$|^kind$/,
+  question: /^(question|question text|prompt|stem|text)$/,
+  options: /^(options?|choices?|distractors?|(option|choice|answer) ?[a-h1-8]|[a-h])$/,
+  answer: /^(answer|correct|correct answer|correct option|key|solution)$/,
+  acceptedAnswers: /^(accepted|accepted answers|alternatives?|alternative answers)$/,
+  explanation: /^(explanation|feedback|rationale)$/,
+  points: /^(points?|marks?|score|weight)$/,
+  difficulty: /^(difficulty|level)$/,
+};
+
+/**
+ * Column mapping guessed from a header row
+ */
+export const guessCsvMapping = (headers: string[]): CsvMapping => {
+  const mapping: CsvMapping = {};
+  headers.forEach((header, index) => {
+    const normalized = header.trim().toLowerCase().replace(/[_-]+/g, ' ');
+    const field = CSV_FIELDS.find((candidate) => CSV_HEADERS[candidate].test(normalized));
+    if (field && (field === 'options' || !mapping[field])) {
+      mapping[field] = [...(mapping[field] || []), index];
+    }
+  });
+  return mapping;
+};
+
+const CSV_TYPE_NAMES: Record<string, QuestionType> = {
+  'mcq': 'mcq',
+  'mc': 'mcq',
+  'multiple choice': 'mcq',
+  'multichoice': 'mcq',
+  'fill': 'fill',
+  'fill in the blank': 'fill',
+  'fill in the blanks': 'fill',
+  'true false': 'true_false',
+  'truefalse': 'true_false',
+  'tf': 'true_false',
+  'short': 'short',
+  'short answer': 'short',
+  'long': 'long',
+  'long answer': 'long',
+  'essay': 'long',
+};
+
+/**
+ * The first row is the header. Empty rows are skipped.
+ */
+export const parseCsv = (text: string, { mapping, defaultType }: CsvImportOptions): ParsedFile => {
+  const rows: ImportRow[] = [];
+  const errors: ImportError[] = [];
+
+  if (!mapping.question?.length) {
+    return { rows, errors: [{ location: 'File', message: 'Choose the column that holds the question text' }] };
+  }
+
+  readCsv(text).slice(1).forEach((cells, index) => {
+    if (cells.every((cell) => cell.trim() === '')) return;
+    const location = `Line ${index + 2}`;
+    const cell = (field: CsvField) => {
+      const column = mapping[field]?.[0];
+      return column === undefined ? '' : (cells[column] || '').trim();
+    };
+
+    const optionColumns = mapping.options || [];
+    const options = optionColumns.length === 1
+      ? splitValues(cells[optionColumns[0]!] || '')
+      : optionColumns.map((column) => (cells[column] || '').trim()).filter(Boolean);
+
+    const typeName = cell('type').toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+    const type = typeName ? CSV_TYPE_NAMES[typeName] : options.length > 0 ? 'mcq' : defaultType;
+    if (!type) {
+      errors.push({ location, message: `Unknown question type: ${cell('type')}` });
+      return;
+    }
+
+    const acceptedAnswers = splitValues(cell('acceptedAnswers'));
+    rows.push({
+      location,
+      type,
+      data: toItem(type, {
+        question: cell('question'),
+        options: type === 'mcq' ? options : undefined,
+        answer: cell('answer'),
+        acceptedAnswers: type === 'fill' && acceptedAnswers.length > 0 ? acceptedAnswers : undefined,
+        explanation: cell('explanation'),
+        points: cell('points'),
+        difficulty: cell('difficulty'),
+      }),
+    });
+  });
+
+  return { rows, errors };
+};
+
+// QuestionSchema JSON
+
+export const parseQuestionJson = (text: string): ParsedFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { rows: [], errors: [{ location: 'File', message: 'Not valid JSON' }] };
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { rows: [], errors: [{ location: 'File', message: 'Expected an object with mcqs, fill_in_the_blanks, true_false, short_type and long_type lists' }] };
+  }
+
+  const rows: ImportRow[] = [];
+  const errors: ImportError[] = [];
+  Object.entries(data as Record<string, unknown>).forEach(([key, items]) => {
+    const questionType = QUESTION_TYPES.find(({ setKey }) => setKey === key);
+    if (!questionType) {
+      errors.push({ location: key, message: 'Unknown question list' });
+      return;
+    }
+    if (!Array.isArray(items)) {
+      errors.push({ location: key, message: 'Expected a list of questions' });
+      return;
+    }
+    items.forEach((item, index) => {
+      rows.push({ location: `${key}[${index}]`, type: questionType.type, data: item && typeof item === 'object' ? item : {} });
+    });
+  });
+
+  return { rows, errors };
+};
+
+/**
+ * Read a file in the given format. CSV needs its column mapping.
+ */
+export const importQuestions = (format: ImportFormat, text: string, csv?: CsvImportOptions): ImportResult => {
+  switch (format) {
+    case 'gift':
+      return collectQuestions(parseGift(text));
+    case 'moodle':
+      return collectQuestions(parseMoodleXml(text));
+    case 'csv':
+      return collectQuestions(parseCsv(text, csv || { mapping: guessCsvMapping(readCsv(text)[0] || []), defaultType: 'fill' }));
+    case 'json':
+      return collectQuestions(parseQuestionJson(text));
+  }
+};
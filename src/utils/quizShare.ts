@@ -0,0 +1,330 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { QuestionType } from '../config/api';
+import { gradeWrittenAnswers } from './answerGrading';
+import { gradeObjectiveAnswer, isObjectiveQuestion } from './grading';
+import { hasApiKeyFor, parseModelId, resolveApiKey } from './llm';
+import { ExportQuestionSchema } from './quizExport';
+import type { ExportQuestion } from './quizExport';
+import { getQuestionPoints, scoreSession } from './scoring';
+import type { QuestionGrade } from '../store/useSessionStore';
+
+/**
+ * Shared quiz links. Publishing a session stores a snapshot of its questions, answer key included,
+ * under a random token. Anyone with the token gets the questions without answers, explanations or
+ * source quotes, and submissions are graded here against the stored key. Shares belong to the sync
+ * key that published them; only the owner can list them, see submissions and unpublish.
+ *
+ * Submitting needs no key, so submissions are rate-limited per share and per client, and written
+ * answers are only graded with the server's model key when the owner opted in when publishing.
+ *
+ *   EDUQUEST_SHARE_STORE = 'file' (default) | 'memory'
+ *   EDUQUEST_SHARE_FILE  = path of the JSON file (default: .quiz-shares.json)
+ */
+
+const MAX_SUBMISSIONS = 1000;
+
+// Sliding windows for submissions: per client and share, and per share across all clients
+const SUBMISSION_WINDOW_MS = 10 * 60 * 1000;
+const MAX_CLIENT_SUBMISSIONS = 5;
+const MAX_SHARE_SUBMISSIONS = 100;
+
+export const PublishShareSchema = z.object({
+  sessionId: z.string().min(1).max(200),
+  name: z.string().trim().min(1).max(200),
+  topic: z.string().max(500).default(''),
+  questions: z.array(ExportQuestionSchema).min(1).max(500),
+  gradeWithServerKey: z.boolean().default(false),   // Rubric-grade takers' written answers at the server's expense
+});
+
+export const ShareSubmissionSchema = z.object({
+  takerName: z.string().trim().max(100).optional(),
+  answers: z.record(z.union([z.string().max(20000), z.boolean()])),
+});
+
+export type ShareSubmissionRequest = z.infer<typeof ShareSubmissionSchema>;
+
+export interface QuestionResult {
+  questionId: string;
+  points: number;
+  maxPoints: number;
+  correct?: boolean;   // Objective questions
+  feedback?: string;   // Written questions graded by the rubric
+  pending?: boolean;   // Written answer left for the owner to grade: no model key was available
+}
+
+export interface ShareSubmission {
+  id: string;
+  takerName?: string;
+  submittedAt: string;
+  answers: Record<string, string | boolean>;
+  score: number;
+  maxScore: number;
+  percentage: number;
+  results: QuestionResult[];
+}
+
+export interface QuizShare {
+  token: string;
+  ownerId: string;
+  sessionId: string;
+  name: string;
+  topic: string;
+  questions: ExportQuestion[];   // With the answer key; never sent to takers
+  gradeWithServerKey?: boolean;  // Absent on shares published before it could be chosen
+  createdAt: string;
+  submissions: ShareSubmission[];
+}
+
+// A share as its owner lists it
+export type ShareSummary = Omit<QuizShare, 'ownerId' | 'questions'> & { questionCount: number };
+
+// What a taker sees of a question
+export interface PublicQuestion {
+  id: string;
+  question: string;
+  type: QuestionType;
+  options?: string[];
+  points: number;
+}
+
+export interface PublicQuiz {
+  token: string;
+  name: string;
+  topic: string;
+  createdAt: string;
+  questions: PublicQuestion[];
+}
+
+export interface ShareRepository {
+  // The owner's shares, newest first; all sessions without `sessionId`
+  list: (ownerId: string, sessionId?: string) => Promise<QuizShare[]>;
+  get: (token: string) => Promise<QuizShare | null>;
+  create: (ownerId: string, share: z.infer<typeof PublishShareSchema>) => Promise<QuizShare>;
+  delete: (ownerId: string, token: string) => Promise<boolean>;
+  addSubmission: (token: string, submission: ShareSubmission) => Promise<void>;
+}
+
+const createMapRepository = (shares: Map<string, QuizShare>, onChange: () => void = () => {}): ShareRepository => ({
+  list: async (ownerId, sessionId) => {
+    return Array.from(shares.values())
+      .filter((share) => share.ownerId === ownerId && (!sessionId || share.sessionId === sessionId))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  get: async (token) => {
+    return shares.get(token) || null;
+  },
+
+  create: async (ownerId, share) => {
+    const stored: QuizShare = {
+      ...share,
+      token: crypto.randomBytes(18).toString('base64url'),
+      ownerId,
+      createdAt: new Date().toISOString(),
+      submissions: [],
+    };
+    shares.set(stored.token, stored);
+    onChange();
+    return stored;
+  },
+
+  delete: async (ownerId, token) => {
+    const existing = shares.get(token);
+    if (!existing || existing.ownerId !== ownerId) {
+      return false;
+    }
+    shares.delete(token);
+    onChange();
+    return true;
+  },
+
+  addSubmission: async (token, submission) => {
+    const share = shares.get(token);
+    if (!share) {
+      throw new Error(`Share ${token} not found`);
+    }
+    if (share.submissions.length >= MAX_SUBMISSIONS) {
+      throw new Error(`Share ${token} is not accepting more submissions`);
+    }
+    shares.set(token, { ...share, submissions: [...share.submissions, submission] });
+    onChange();
+  },
+});
+
+export const createMemoryShareRepository = (): ShareRepository => {
+  return createMapRepository(new Map());
+};
+
+export const createFileShareRepository = (filePath: string): ShareRepository => {
+  const shares = new Map<string, QuizShare>();
+
+  try {
+    if (fs.existsSync(filePath)) {
+      const stored: QuizShare[] = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      for (const share of stored) {
+        shares.set(share.token, share);
+      }
+      console.log(`Loaded ${shares.size} quiz shares from ${filePath}`);
+    }
+  } catch (error) {
+    console.error('Error loading quiz shares:', error);
+  }
+
+  // Write to a temp file and rename so a crash mid-write cannot truncate the store
+  const persist = () => {
+    try {
+      const tempFile = `${filePath}.tmp`;
+      fs.writeFileSync(tempFile, JSON.stringify(Array.from(shares.values()), null, 2));
+      fs.renameSync(tempFile, filePath);
+    } catch (error) {
+      console.error('Error saving quiz shares:', error);
+    }
+  };
+
+  return createMapRepository(shares, persist);
+};
+
+let repository: ShareRepository | null = null;
+
+/**
+ * Replace the active backend, e.g. with createMemoryShareRepository() in tests
+ */
+export const setShareRepository = (next: ShareRepository) => {
+  repository = next;
+};
+
+export const getShareRepository = (): ShareRepository => {
+  if (!repository) {
+    const backend = process.env.EDUQUEST_SHARE_STORE || (process.env.NODE_ENV === 'test' ? 'memory' : 'file');
+    repository = backend === 'memory'
+      ? createMemoryShareRepository()
+      : createFileShareRepository(
+          process.env.EDUQUEST_SHARE_FILE || path.join(process.cwd(), '.quiz-shares.json')
+        );
+  }
+  return repository;
+};
+
+export const isAcceptingSubmissions = (share: QuizShare) => share.submissions.length < MAX_SUBMISSIONS;
+
+// Submission times per rate-limit key; keys with nothing in the window are dropped
+const recentSubmissions = new Map<string, number[]>();
+
+const recentTimes = (key: string, now: number) => {
+  const recent = (recentSubmissions.get(key) || []).filter((time) => now - time < SUBMISSION_WINDOW_MS);
+  if (recent.length === 0) recentSubmissions.delete(key);
+  return recent;
+};
+
+/**
+ * Count a submission from `client` (e.g. its IP address) to a share against the rate limits.
+ * Returns false, without counting it, when either limit is reached.
+ */
+export const takeSubmissionSlot = (token: string, client: string, now = Date.now()): boolean => {
+  const byShare = recentTimes(`share:${token}`, now);
+  const byClient = recentTimes(`client:${token}:${client}`, now);
+  if (byShare.length >= MAX_SHARE_SUBMISSIONS || byClient.length >= MAX_CLIENT_SUBMISSIONS) {
+    return false;
+  }
+  recentSubmissions.set(`share:${token}`, [...byShare, now]);
+  recentSubmissions.set(`client:${token}:${client}`, [...byClient, now]);
+  return true;
+};
+
+export const toShareSummary = ({ ownerId, questions, ...share }: QuizShare): ShareSummary => ({
+  ...share,
+  questionCount: questions.length,
+});
+
+/**
+ * The quiz as takers see it. Fields are copied one by one, so anything added to questions later
+ * stays private until it is listed here.
+ */
+export const toPublicQuiz = (share: QuizShare): PublicQuiz => ({
+  token: share.token,
+  name: share.name,
+  topic: share.topic,
+  createdAt: share.createdAt,
+  questions: share.questions.map((question) => ({
+    id: question.id,
+    question: question.question,
+    type: question.type,
+    ...(question.type === 'mcq' && question.options ? { options: question.options } : {}),
+    points: getQuestionPoints(question),
+  })),
+});
+
+/**
+ * Grade a submission against the share's answer key. Objective answers are graded as in the
+ * app; written answers are rubric-graded with the taker's `apiKey`, or the server's key if the
+ * owner opted in, and otherwise left pending at zero points for the owner to review.
+ */
+export const gradeSubmission = async (
+  share: QuizShare,
+  { takerName, answers }: ShareSubmissionRequest,
+  apiKey?: string
+): Promise<ShareSubmission> => {
+  const questionIds = new Set(share.questions.map((question) => question.id));
+  const given = Object.fromEntries(Object.entries(answers).filter(([questionId]) => questionIds.has(questionId)));
+  const submittedAt = new Date();
+
+  const written = share.questions.filter((question) => !isObjectiveQuestion(question));
+  let grades: QuestionGrade[] = [];
+  let pending = false;
+  if (written.length > 0) {
+    const writtenAnswers = written.map((question) => ({
+      id: question.id,
+      type: question.type as 'short' | 'long',
+      question: question.question,
+      answer: String(given[question.id] ?? ''),
+      referenceAnswer: question.answer,
+      points: getQuestionPoints(question),
+    }));
+    const needsModel = writtenAnswers.some((answer) => answer.answer.trim() !== '');
+
+    // A taker's key only counts when it is the one the default model would use (a Gemini key)
+    const takerKeyApplies = Boolean(apiKey) && resolveApiKey(parseModelId().provider, apiKey) === apiKey;
+    const canGrade = takerKeyApplies || (share.gradeWithServerKey === true && hasApiKeyFor(undefined));
+    if (!needsModel || canGrade) {
+      try {
+        grades = (await gradeWrittenAnswers(writtenAnswers, { apiKey: takerKeyApplies ? apiKey : undefined })).grades;
+      } catch (error) {
+        console.error('Grading shared quiz answers failed:', error);
+        pending = true;
+      }
+    } else {
+      pending = true;
+    }
+  }
+
+  const gradesById = new Map(grades.map((grade) => [grade.questionId, grade]));
+  const userAnswers = Object.entries(given).map(([questionId, answer]) => ({ questionId, answer, timestamp: submittedAt }));
+  const { score, maxScore, percentage } = scoreSession(share.questions, userAnswers, grades);
+
+  const results = share.questions.map((question): QuestionResult => {
+    const maxPoints = getQuestionPoints(question);
+    if (isObjectiveQuestion(question)) {
+      const correct = gradeObjectiveAnswer(question, given[question.id]) === true;
+      return { questionId: question.id, points: correct ? maxPoints : 0, maxPoints, correct };
+    }
+
+    const grade = gradesById.get(question.id);
+    return grade
+      ? { questionId: question.id, points: Math.min(grade.score, maxPoints), maxPoints, feedback: grade.feedback }
+      : { questionId: question.id, points: 0, maxPoints, pending };
+  });
+
+  return {
+    id: crypto.randomUUID(),
+    takerName: takerName || undefined,
+    submittedAt: submittedAt.toISOString(),
+    answers: given,
+    score,
+    maxScore,
+    percentage,
+    results,
+  };
+};
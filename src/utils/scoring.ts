@@ -0,0 +1,110 @@
+import { DEFAULT_POINTS } from '../config/api';
+import { gradeObjectiveAnswer, gradeObjectiveAnswers, isObjectiveQuestion } from './grading';
+import type { Question, QuestionGrade, QuizSession, SessionAnalysis, UserAnswer } from '../store/useSessionStore';
+
+/**
+ * Session scoring: every question is weighted by its points, objective answers earning all or
+ * nothing and written answers their rubric score.
+ */
+
+export interface SessionScore {
+  score: number;
+  maxScore: number;
+  percentage: number;
+  breakdown: SessionAnalysis['breakdown'];
+}
+
+const roundPoints = (value: number) => Math.round(value * 10) / 10;
+
+export const toPercentage = (points: number, maxPoints: number) => {
+  return maxPoints > 0 ? Math.round((points / maxPoints) * 100) : 0;
+};
+
+export const getQuestionPoints = (question: Question): number => {
+  return question.points && question.points > 0 ? question.points : DEFAULT_POINTS[question.type];
+};
+
+/**
+ * Score a session. Answered written questions without a grade in `questionGrades` earn
+ * `ungradedWrittenRatio` of their points (zero unless migrating an older analysis).
+ */
+export const scoreSession = (
+  questions: Question[],
+  userAnswers: UserAnswer[],
+  questionGrades: QuestionGrade[] = [],
+  ungradedWrittenRatio = 0
+): SessionScore => {
+  const answers = new Map(userAnswers.map((userAnswer) => [userAnswer.questionId, userAnswer.answer]));
+  const grades = new Map(questionGrades.map((grade) => [grade.questionId, grade]));
+  const breakdown: SessionAnalysis['breakdown'] = {};
+
+  for (const question of questions) {
+    const grade = grades.get(question.id);
+    const maxPoints = grade?.maxPoints ?? getQuestionPoints(question);
+    const entry = breakdown[question.type] || { questions: 0, points: 0, maxPoints: 0 };
+
+    let points: number;
+    if (isObjectiveQuestion(question)) {
+      const isCorrect = gradeObjectiveAnswer(question, answers.get(question.id)) === true;
+      points = isCorrect ? maxPoints : 0;
+      entry.correct = (entry.correct || 0) + (isCorrect ? 1 : 0);
+    } else {
+      const answered = String(answers.get(question.id) ?? '').trim() !== '';
+      points = grade ? Math.min(grade.score, maxPoints) : answered ? maxPoints * ungradedWrittenRatio : 0;
+    }
+
+    breakdown[question.type] = {
+      ...entry,
+      questions: entry.questions + 1,
+      points: roundPoints(entry.points + points),
+      maxPoints: roundPoints(entry.maxPoints + maxPoints),
+    };
+  }
+
+  const entries = Object.values(breakdown);
+  const score = roundPoints(entries.reduce((sum, entry) => sum + (entry?.points || 0), 0));
+  const maxScore = roundPoints(entries.reduce((sum, entry) => sum + (entry?.maxPoints || 0), 0));
+
+  return { score, maxScore, percentage: toPercentage(score, maxScore), breakdown };
+};
+
+/**
+ * Bring an analysis saved before points-weighted scoring up to date. Those stored the model's
+ * 0-100 rating of the written answers as `accuracyScore` and divided it by the question count;
+ * the rating is kept as the share of written points earned, and objective answers are regraded.
+ */
+export const migrateSessionAnalysis = (session: QuizSession): QuizSession => {
+  const analysis = session.analysis as (SessionAnalysis & { typeSubtotals?: unknown }) | undefined;
+  if (!analysis || typeof analysis.maxScore === 'number') {
+    return session;
+  }
+
+  const legacyRatio = analysis.questionGrades
+    ? 0
+    : Math.min(Math.max(Number(analysis.accuracyScore) || 0, 0), 100) / 100;
+  const { score, maxScore, percentage, breakdown } = scoreSession(
+    session.questions,
+    session.userAnswers,
+    analysis.questionGrades,
+    legacyRatio
+  );
+  const { grades } = gradeObjectiveAnswers(session.questions, session.userAnswers);
+  const { typeSubtotals, ...rest } = analysis;
+
+  return {
+    ...session,
+    userAnswers: session.userAnswers.map((userAnswer) =>
+      userAnswer.isCorrect === undefined && userAnswer.questionId in grades
+        ? { ...userAnswer, isCorrect: grades[userAnswer.questionId] }
+        : userAnswer
+    ),
+    analysis: {
+      ...rest,
+      score,
+      maxScore,
+      percentage,
+      breakdown,
+      totalQuestions: session.questions.length,
+    },
+  };
+};
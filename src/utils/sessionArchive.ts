@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import { SESSION_QUESTION_TYPES } from '../config/api';
+
+/**
+ * Backup archive of every quiz session in the browser, with answers, analyses and exam state.
+ * The archive is versioned separately from the persisted store: sessions are written as the
+ * store holds them, and an import runs them through the same migrations as sessions loaded from
+ * the server, so archives from older versions restore into the current shape.
+ */
+
+export const ARCHIVE_FORMAT = 'eduquest-session-archive';
+export const ARCHIVE_VERSION = 1;
+
+// What to do with an archived session whose ID is already in the browser
+export const CONFLICT_STRATEGIES = ['skip', 'overwrite', 'duplicate'] as const;
+export type ConflictStrategy = typeof CONFLICT_STRATEGIES[number];
+
+// ISO strings as written by JSON.stringify; numbers from older hand-made backups
+const DateSchema = z.union([z.string(), z.number()]).refine((value) => !Number.isNaN(new Date(value).getTime()), {
+  message: 'Invalid date',
+});
+
+// Core fields are checked; anything else on a session is kept as-is, as on the server
+const ArchivedQuestionSchema = z.object({
+  id: z.string().min(1),
+  question: z.string(),
+  type: z.enum(SESSION_QUESTION_TYPES),
+  answer: z.string(),
+  options: z.array(z.string()).optional(),
+}).passthrough();
+
+const ArchivedAnswerSchema = z.object({
+  questionId: z.string().min(1),
+  answer: z.union([z.string(), z.boolean()]),
+  timestamp: DateSchema,
+}).passthrough();
+
+const ArchivedAnalysisSchema = z.object({
+  score: z.number(),
+  totalQuestions: z.number(),
+  feedback: z.string(),
+  timestamp: DateSchema,
+}).passthrough();
+
+export const ArchivedSessionSchema = z.object({
+  id: z.string().min(1).max(200),
+  name: z.string().max(500),
+  topic: z.string(),
+  questions: z.array(ArchivedQuestionSchema),
+  userAnswers: z.array(ArchivedAnswerSchema),
+  createdAt: DateSchema,
+  lastAccessed: DateSchema,
+  isCompleted: z.boolean(),
+  config: z.record(z.unknown()),
+  analysis: ArchivedAnalysisSchema.optional(),
+}).passthrough();
+
+export type ArchivedSession = z.infer<typeof ArchivedSessionSchema>;
+
+// Sessions are checked one at a time, so one damaged session does not block the rest
+const SessionArchiveSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int().min(1).max(ARCHIVE_VERSION, 'Archive was created by a newer version of EduQuest'),
+  exportedAt: z.string(),
+  sessions: z.array(z.unknown()),
+});
+
+export interface SessionArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  sessions: unknown[];
+}
+
+export interface ArchiveError {
+  location: string;   // "Session 3 (Algebra quiz)"
+  message: string;
+}
+
+export interface ParsedArchive {
+  exportedAt: string;
+  sessions: ArchivedSession[];
+  errors: ArchiveError[];
+}
+
+const formatIssues = (error: z.ZodError) => {
+  return error.errors.map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join(', ');
+};
+
+/**
+ * Archive of the given sessions. A generation stream only exists in the tab that opened it, so
+ * the flag is dropped.
+ */
+export const createSessionArchive = (sessions: Array<{ isGenerating?: boolean }>, exportedAt = new Date()): SessionArchive => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  sessions: sessions.map(({ isGenerating, ...session }) => session),
+});
+
+export const archiveFilename = (exportedAt = new Date()) => {
+  return `eduquest-backup-${exportedAt.toISOString().slice(0, 10)}.json`;
+};
+
+/**
+ * Read an archive file. Throws if the file is not an archive at all; sessions that fail
+ * validation are reported and left out.
+ */
+export const parseSessionArchive = (text: string): ParsedArchive => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  const archive = SessionArchiveSchema.safeParse(data);
+  if (!archive.success) {
+    throw new Error(`Not an EduQuest backup: ${formatIssues(archive.error)}`);
+  }
+
+  const sessions: ArchivedSession[] = [];
+  const errors: ArchiveError[] = [];
+  archive.data.sessions.forEach((session, index) => {
+    const result = ArchivedSessionSchema.safeParse(session);
+    if (result.success) {
+      sessions.push(result.data);
+      return;
+    }
+    const name = session && typeof session === 'object' && typeof (session as { name?: unknown }).name === 'string'
+      ? ` (${(session as { name: string }).name})`
+      : '';
+    errors.push({ location: `Session ${index + 1}${name}`, message: formatIssues(result.error) });
+  });
+
+  return { exportedAt: archive.data.exportedAt, sessions, errors };
+};
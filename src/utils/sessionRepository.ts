@@ -0,0 +1,154 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { SESSION_QUESTION_TYPES } from '../config/api';
+
+/**
+ * Server-side storage for quiz sessions. Backends implement SessionRepository; the default
+ * is a JSON file in the working directory, with an in-memory backend for tests.
+ *
+ *   EDUQUEST_SESSION_STORE = 'file' (default) | 'memory'
+ *   EDUQUEST_SESSION_FILE  = path of the JSON file (default: .sessions-store.json)
+ */
+
+// Core fields are checked; anything else on a session is kept as-is so newer clients can add fields
+const SessionQuestionSchema = z.object({
+  id: z.string().min(1),
+  question: z.string(),
+  type: z.enum(SESSION_QUESTION_TYPES),
+  answer: z.string(),
+}).passthrough();
+
+const UserAnswerSchema = z.object({
+  questionId: z.string().min(1),
+  answer: z.union([z.string(), z.boolean()]),
+}).passthrough();
+
+export const StoredSessionSchema = z.object({
+  id: z.string().min(1).max(200),
+  name: z.string().max(500),
+  topic: z.string(),
+  questions: z.array(SessionQuestionSchema),
+  userAnswers: z.array(UserAnswerSchema),
+  createdAt: z.union([z.string(), z.number()]),
+  lastAccessed: z.union([z.string(), z.number()]),
+  isCompleted: z.boolean(),
+  config: z.record(z.unknown()),
+}).passthrough();
+
+export type SessionData = z.infer<typeof StoredSessionSchema>;
+
+export interface StoredSession extends SessionData {
+  ownerId: string;
+  updatedAt: string;
+}
+
+export interface SessionRepository {
+  list: (ownerId: string) => Promise<StoredSession[]>;
+  get: (ownerId: string, id: string) => Promise<StoredSession | null>;
+  // Insert or replace
+  save: (ownerId: string, session: SessionData) => Promise<StoredSession>;
+  delete: (ownerId: string, id: string) => Promise<boolean>;
+}
+
+/**
+ * Sessions keyed by id, with an optional hook called after every write
+ */
+const createMapRepository = (sessions: Map<string, StoredSession>, onChange: () => void = () => {}): SessionRepository => ({
+  list: async (ownerId) => {
+    return Array.from(sessions.values())
+      .filter((session) => session.ownerId === ownerId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  },
+
+  get: async (ownerId, id) => {
+    const session = sessions.get(id);
+    return session && session.ownerId === ownerId ? session : null;
+  },
+
+  save: async (ownerId, session) => {
+    const existing = sessions.get(session.id);
+    if (existing && existing.ownerId !== ownerId) {
+      throw new Error(`Session ${session.id} belongs to another owner`);
+    }
+
+    const stored: StoredSession = { ...session, ownerId, updatedAt: new Date().toISOString() };
+    sessions.set(session.id, stored);
+    onChange();
+    return stored;
+  },
+
+  delete: async (ownerId, id) => {
+    const existing = sessions.get(id);
+    if (!existing || existing.ownerId !== ownerId) {
+      return false;
+    }
+    sessions.delete(id);
+    onChange();
+    return true;
+  },
+});
+
+export const createMemorySessionRepository = (): SessionRepository => {
+  return createMapRepository(new Map());
+};
+
+export const createFileSessionRepository = (filePath: string): SessionRepository => {
+  const sessions = new Map<string, StoredSession>();
+
+  try {
+    if (fs.existsSync(filePath)) {
+      const stored: StoredSession[] = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      for (const session of stored) {
+        sessions.set(session.id, session);
+      }
+      console.log(`Loaded ${sessions.size} quiz sessions from ${filePath}`);
+    }
+  } catch (error) {
+    console.error('Error loading stored sessions:', error);
+  }
+
+  // Write to a temp file and rename so a crash mid-write cannot truncate the store
+  const persist = () => {
+    try {
+      const tempFile = `${filePath}.tmp`;
+      fs.writeFileSync(tempFile, JSON.stringify(Array.from(sessions.values()), null, 2));
+      fs.renameSync(tempFile, filePath);
+    } catch (error) {
+      console.error('Error saving sessions:', error);
+    }
+  };
+
+  return createMapRepository(sessions, persist);
+};
+
+let repository: SessionRepository | null = null;
+
+/**
+ * Replace the active backend, e.g. with createMemorySessionRepository() in tests
+ */
+export const setSessionRepository = (next: SessionRepository) => {
+  repository = next;
+};
+
+export const getSessionRepository = (): SessionRepository => {
+  if (!repository) {
+    const backend = process.env.EDUQUEST_SESSION_STORE || (process.env.NODE_ENV === 'test' ? 'memory' : 'file');
+    repository = backend === 'memory'
+      ? createMemorySessionRepository()
+      : createFileSessionRepository(
+          process.env.EDUQUEST_SESSION_FILE || path.join(process.cwd(), '.sessions-store.json')
+        );
+  }
+  return repository;
+};
+
+const SYNC_KEY_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+/**
+ * Sessions are scoped by the client's sync key. Sharing the key links another device.
+ */
+export const getSyncKey = (headerValue: string | string[] | undefined): string | null => {
+  const key = Array.isArray(headerValue) ? headerValue[0] : headerValue;
+  return key && SYNC_KEY_PATTERN.test(key) ? key : null;
+};
@@ -0,0 +1,96 @@
+/**
+ * Lexical near-duplicate detection for questions, shared by the server and the browser. Questions
+ * are compared as sets of words and word pairs (shingles) by Jaccard similarity, so paraphrases that
+ * reuse most of the wording are caught without a model call.
+ *
+ * The stem alone is not enough: questions built from one template ("What is the capital of
+ * France?" / "...of Germany?") share most of their wording. The answer, with the options for
+ * multiple choice, counts for half, so only questions that also have the same answer are dropped.
+ */
+
+export const NEAR_DUPLICATE_THRESHOLD = 0.75;
+
+export interface ComparableQuestion {
+  question: string;
+  answer?: string | boolean;
+  options?: string[];
+}
+
+export interface DuplicateMatch {
+  question: string;     // Question that was removed
+  duplicateOf: string;  // Earlier question it repeats
+  similarity: number;   // 0-1, rounded to two decimals
+}
+
+export const questionShingles = (text: string): Set<string> => {
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) || [];
+
+  return new Set([...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)]);
+};
+
+export const jaccardSimilarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  a.forEach((shingle) => {
+    if (b.has(shingle)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+const answerShingles = ({ answer, options }: ComparableQuestion): Set<string> => {
+  const shingles = new Set(Array.from(questionShingles(answer === undefined ? '' : String(answer)), (shingle) => `answer:${shingle}`));
+  options?.forEach((option) => questionShingles(option).forEach((shingle) => shingles.add(`option:${shingle}`)));
+  return shingles;
+};
+
+const fingerprint = (question: ComparableQuestion) => ({
+  stem: questionShingles(question.question),
+  answer: answerShingles(question),
+});
+
+const fingerprintSimilarity = (a: ReturnType<typeof fingerprint>, b: ReturnType<typeof fingerprint>) => {
+  const stem = jaccardSimilarity(a.stem, b.stem);
+  if (a.answer.size === 0 || b.answer.size === 0) return stem;
+  return (stem + jaccardSimilarity(a.answer, b.answer)) / 2;
+};
+
+/**
+ * Similarity of two questions: the mean of stem and answer similarity, or the stem alone when
+ * either has no answer
+ */
+export const questionSimilarity = (a: ComparableQuestion, b: ComparableQuestion): number => {
+  return fingerprintSimilarity(fingerprint(a), fingerprint(b));
+};
+
+/**
+ * Questions seen so far, searchable for the closest near-duplicate. Only questions in the same
+ * group (e.g. question type) are compared.
+ */
+export const createDuplicateIndex = <T>(threshold = NEAR_DUPLICATE_THRESHOLD) => {
+  const entries: Array<{ group: string; fingerprint: ReturnType<typeof fingerprint>; value: T }> = [];
+
+  return {
+    add: (group: string, question: ComparableQuestion, value: T) => {
+      entries.push({ group, fingerprint: fingerprint(question), value });
+    },
+
+    find: (group: string, question: ComparableQuestion): { value: T; similarity: number } | null => {
+      const target = fingerprint(question);
+      let best: { value: T; similarity: number } | null = null;
+
+      for (const entry of entries) {
+        if (entry.group !== group) continue;
+        const similarity = fingerprintSimilarity(target, entry.fingerprint);
+        if (similarity >= threshold && (!best || similarity > best.similarity)) {
+          best = { value: entry.value, similarity };
+        }
+      }
+      return best && { ...best, similarity: Math.round(best.similarity * 100) / 100 };
+    },
+  };
+};
@@ -0,0 +1,120 @@
+import type { Question, QuizSession } from '../store/useSessionStore';
+
+/**
+ * SM-2 spaced repetition over the answer history. Every graded answer to a question, in any
+ * session, is one review; replaying them in order gives the question's ease, interval and due
+ * date. Questions keep their ID when reused from the question bank or in a review session, so
+ * their history follows them. Nothing is stored: clearing a session's answers removes its reviews.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// Lowest SM-2 grade (0-5) that counts as remembered
+const PASSING_GRADE = 3;
+
+export interface ReviewState {
+  questionId: string;
+  question: Question;       // Most recent copy of the question
+  sessionId: string;        // Session holding that copy
+  ease: number;
+  interval: number;         // Days until the next review
+  repetitions: number;      // Reviews in a row graded as remembered
+  lapses: number;
+  lastReviewed: Date;
+  due: Date;
+}
+
+interface Review {
+  question: Question;
+  sessionId: string;
+  grade: number;
+  reviewedAt: Date;
+}
+
+/**
+ * SM-2 grade for an answer: objective answers are right or wrong; rubric-graded short and long
+ * answers are graded by their share of the points
+ */
+const gradeAnswer = (session: QuizSession, questionId: string, isCorrect: boolean | undefined): number | null => {
+  const rubric = session.analysis?.questionGrades?.find((grade) => grade.questionId === questionId);
+  if (rubric && rubric.maxPoints > 0) {
+    return Math.round((rubric.score / rubric.maxPoints) * 5);
+  }
+  if (isCorrect === undefined) {
+    return null;
+  }
+  return isCorrect ? 4 : 1;
+};
+
+const collectReviews = (sessions: QuizSession[]): Map<string, Review[]> => {
+  const reviews = new Map<string, Review[]>();
+
+  for (const session of sessions) {
+    const questions = new Map(session.questions.map((question) => [question.id, question]));
+
+    for (const answer of session.userAnswers) {
+      const question = questions.get(answer.questionId);
+      const grade = question ? gradeAnswer(session, answer.questionId, answer.isCorrect) : null;
+      const reviewedAt = new Date(answer.timestamp);
+      if (!question || grade === null || isNaN(reviewedAt.getTime())) continue;
+
+      const history = reviews.get(question.id) || [];
+      history.push({ question, sessionId: session.id, grade, reviewedAt });
+      reviews.set(question.id, history);
+    }
+  }
+  return reviews;
+};
+
+const applyReview = (state: Omit<ReviewState, 'question' | 'sessionId' | 'due' | 'lastReviewed'>, grade: number) => {
+  const next = { ...state };
+
+  if (grade >= PASSING_GRADE) {
+    next.interval = state.repetitions === 0 ? 1 : state.repetitions === 1 ? 6 : Math.round(state.interval * state.ease);
+    next.repetitions = state.repetitions + 1;
+  } else {
+    next.interval = 1;
+    next.repetitions = 0;
+    next.lapses = state.lapses + 1;
+  }
+
+  next.ease = Math.max(MIN_EASE, state.ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+  return next;
+};
+
+/**
+ * Scheduling state of every question with at least one graded answer, keyed by question ID
+ */
+export const buildReviewSchedule = (sessions: QuizSession[]): Map<string, ReviewState> => {
+  const schedule = new Map<string, ReviewState>();
+
+  collectReviews(sessions).forEach((history, questionId) => {
+    history.sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime());
+
+    let state = { questionId, ease: INITIAL_EASE, interval: 0, repetitions: 0, lapses: 0 };
+    history.forEach(({ grade }) => {
+      state = applyReview(state, grade);
+    });
+
+    const last = history[history.length - 1]!;
+    schedule.set(questionId, {
+      ...state,
+      question: last.question,
+      sessionId: last.sessionId,
+      lastReviewed: last.reviewedAt,
+      due: new Date(last.reviewedAt.getTime() + state.interval * DAY_MS),
+    });
+  });
+
+  return schedule;
+};
+
+/**
+ * Questions due for review, most overdue first
+ */
+export const getDueReviews = (schedule: Map<string, ReviewState>, now = new Date()): ReviewState[] => {
+  return Array.from(schedule.values())
+    .filter((state) => state.due.getTime() <= now.getTime())
+    .sort((a, b) => a.due.getTime() - b.due.getTime());
+};
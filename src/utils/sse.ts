@@ -0,0 +1,101 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+/**
+ * Server-Sent Events helpers: writing event streams from API routes, and reading them from a
+ * fetch response body (model provider streams on the server, generation streams in the browser)
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+export interface EventStream {
+  send: (event: string, data: unknown) => void;
+  close: () => void;
+  // True once the client has disconnected
+  isClosed: () => boolean;
+}
+
+/**
+ * Clients opt into streaming with `?stream=true` or an `Accept: text/event-stream` header
+ */
+export const wantsEventStream = (req: NextApiRequest): boolean => {
+  return req.query.stream === 'true' || (req.headers.accept || '').includes('text/event-stream');
+};
+
+export const openEventStream = (req: NextApiRequest, res: NextApiResponse): EventStream => {
+  let closed = false;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stop proxies such as nginx from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders?.();
+
+  req.on('close', () => {
+    closed = true;
+  });
+
+  return {
+    send: (event, data) => {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      // Compression middleware buffers writes unless flushed
+      (res as unknown as { flush?: () => void }).flush?.();
+    },
+    close: () => {
+      closed = true;
+      res.end();
+    },
+    isClosed: () => closed,
+  };
+};
+
+/**
+ * Parse an SSE body into events. Lines without an `event:` field default to "message".
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseBlock = (block: string): ServerSentEvent | null => {
+    let event = 'message';
+    const data: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+    return data.length > 0 ? { event, data: data.join('\n') } : null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const parsed = parseBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (parsed) yield parsed;
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    const parsed = parseBlock(buffer + decoder.decode());
+    if (parsed) yield parsed;
+  } finally {
+    reader.releaseLock();
+  }
+}
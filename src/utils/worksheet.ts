@@ -0,0 +1,386 @@
+import { z } from 'zod';
+import { SESSION_QUESTION_TYPES } from '../config/api';
+import type { QuestionType } from '../config/api';
+import { gradeObjectiveAnswer } from './grading';
+import { PAGE_SIZES, createPdf, drawLine, drawText, textWidth, unsupportedCharacters, wrapText } from './pdf';
+import type { PageSize, PdfFont } from './pdf';
+import { ExportQuestionSchema, slugify } from './quizExport';
+import type { ExportFile, ExportQuestion } from './quizExport';
+import { getQuestionPoints } from './scoring';
+
+/**
+ * Printable worksheets for paper quizzes. Questions are grouped into numbered sections per type,
+ * written questions get ruled answer lines, and the answer key lists every answer with its
+ * explanation. Versions (A, B, C...) shuffle the question order within each section, and
+ * optionally the options; shuffles are seeded, so the worksheet and the key of a version always
+ * match, even when downloaded separately with the same seed.
+ */
+
+export const WORKSHEET_PARTS = ['worksheet', 'key', 'both'] as const;
+export type WorksheetPart = typeof WORKSHEET_PARTS[number];
+
+export const WorksheetOptionsSchema = z.object({
+  versions: z.number().int().min(1).max(5).default(1),
+  shuffleOptions: z.boolean().default(false),
+  part: z.enum(WORKSHEET_PARTS).default('both'),
+  pageSize: z.enum(Object.keys(PAGE_SIZES) as [PageSize, ...PageSize[]]).default('a4'),
+});
+
+export type WorksheetOptions = z.infer<typeof WorksheetOptionsSchema>;
+
+export const WorksheetRequestSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  questions: z.array(ExportQuestionSchema).min(1).max(500),
+  seed: z.string().max(200).optional(),   // Defaults to the name
+  options: WorksheetOptionsSchema.default({}),
+});
+
+const SECTIONS: Record<QuestionType, { title: string; instructions: string }> = {
+  mcq: { title: 'Multiple choice', instructions: 'Circle the letter of the correct answer.' },
+  fill: { title: 'Fill in the blanks', instructions: 'Write the missing word or phrase on the line.' },
+  true_false: { title: 'True or false', instructions: 'Circle True or False.' },
+  short: { title: 'Short answer', instructions: 'Answer in a few sentences.' },
+  long: { title: 'Long answer', instructions: 'Answer in full, using the lines provided.' },
+};
+
+// Ruled lines under each question; objective questions other than fill-ins are answered in place
+const ANSWER_LINES: Record<QuestionType, number> = { mcq: 0, fill: 1, true_false: 0, short: 4, long: 12 };
+
+const MARGIN = 54;
+const FOOTER_HEIGHT = 24;
+const BODY_SIZE = 11;
+const SMALL_SIZE = 9;
+const LEADING = 1.4;
+const ANSWER_LINE_GAP = 24;
+const INDENT = 22;
+const POINTS_WIDTH = 44;
+
+interface WorksheetQuestion {
+  number: number;
+  question: ExportQuestion;
+  options: string[];   // Printed order
+}
+
+interface WorksheetSection {
+  type: QuestionType;
+  questions: WorksheetQuestion[];
+}
+
+interface WorksheetVersion {
+  label?: string;      // Unset when there is a single version
+  sections: WorksheetSection[];
+}
+
+// Deterministic shuffles: FNV-1a hash of the seed into a mulberry32 generator
+const seededRandom = (seed: string) => {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
+  }
+  return shuffled;
+};
+
+const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+const printedOptions = (question: ExportQuestion) => {
+  if (question.type === 'true_false') return ['True', 'False'];
+  return question.type === 'mcq' ? question.options || [] : [];
+};
+
+// Version A keeps the session's question order; every version shuffles options when asked
+const buildVersions = (questions: ExportQuestion[], options: WorksheetOptions, seed: string): WorksheetVersion[] => {
+  return Array.from({ length: options.versions }, (_, index) => {
+    const label = options.versions > 1 ? optionLetter(index) : undefined;
+    const random = seededRandom(`${seed}:${optionLetter(index)}`);
+    let number = 0;
+
+    const sections = SESSION_QUESTION_TYPES
+      .map((type) => {
+        const ofType = questions.filter((question) => question.type === type);
+        return {
+          type,
+          questions: (index > 0 ? shuffle(ofType, random) : ofType).map((question) => ({
+            number: 0,
+            question,
+            options: options.shuffleOptions && type === 'mcq'
+              ? shuffle(printedOptions(question), random)
+              : printedOptions(question),
+          })),
+        };
+      })
+      .filter((section) => section.questions.length > 0);
+
+    sections.forEach((section) => section.questions.forEach((item) => {
+      item.number = ++number;
+    }));
+    return { label, sections };
+  });
+};
+
+const pointsLabel = (points: number) => `${points} ${points === 1 ? 'pt' : 'pts'}`;
+
+const sectionPoints = (section: WorksheetSection) => {
+  return section.questions.reduce((sum, { question }) => sum + getQuestionPoints(question), 0);
+};
+
+const keyAnswer = ({ question, options }: WorksheetQuestion): string => {
+  switch (question.type) {
+    case 'mcq': {
+      const index = options.findIndex((option) => gradeObjectiveAnswer(question, option) === true);
+      return index >= 0 ? `${optionLetter(index)}. ${options[index]}` : question.answer;
+    }
+    case 'true_false':
+      return question.answer.trim().toLowerCase() === 'true' ? 'True' : 'False';
+    case 'fill': {
+      const accepted = (question.acceptedAnswers || []).filter((answer) => answer.trim() && answer !== question.answer);
+      return accepted.length > 0 ? `${question.answer} (also accepted: ${accepted.join(', ')})` : question.answer;
+    }
+    default:
+      return question.answer;
+  }
+};
+
+interface TextRun {
+  x: number;
+  lines: string[];
+  font: PdfFont;
+  size: number;
+  gray?: number;
+  marker?: string;     // Printed in bold at the margin on the first line, e.g. the question number
+  aside?: string;      // Printed right-aligned on the first line, e.g. the points
+}
+
+type BlockItem = TextRun | { gap: number } | { rules: number };
+
+const itemHeight = (item: BlockItem) => {
+  if ('gap' in item) return item.gap;
+  if ('rules' in item) return item.rules * ANSWER_LINE_GAP;
+  return item.lines.length * item.size * LEADING;
+};
+
+/**
+ * Lays blocks out top to bottom over as many pages as needed, keeping a block on one page
+ * when it fits on one
+ */
+const createLayout = (size: PageSize) => {
+  const { width, height } = PAGE_SIZES[size];
+  const bottom = MARGIN + FOOTER_HEIGHT;
+  const pages: string[][] = [];
+  let page: string[] = [];
+  let y = 0;
+
+  const newPage = () => {
+    page = [];
+    pages.push(page);
+    y = height - MARGIN;
+  };
+
+  const ensure = (space: number) => {
+    if (pages.length === 0 || y - space < bottom) newPage();
+  };
+
+  const place = (items: BlockItem[]) => {
+    const total = items.reduce((sum, item) => sum + itemHeight(item), 0);
+    if (total <= height - MARGIN - bottom) ensure(total);
+
+    for (const item of items) {
+      if ('gap' in item) {
+        y -= item.gap;
+        continue;
+      }
+      if ('rules' in item) {
+        for (let i = 0; i < item.rules; i++) {
+          ensure(ANSWER_LINE_GAP);
+          y -= ANSWER_LINE_GAP;
+          page.push(drawLine(MARGIN + INDENT, y, width - MARGIN, y, 0.5, 0.6));
+        }
+        continue;
+      }
+
+      const lineHeight = item.size * LEADING;
+      item.lines.forEach((line, index) => {
+        ensure(lineHeight);
+        const baseline = y - item.size;
+        page.push(drawText(item.x, baseline, line, item.font, item.size, item.gray));
+        if (index === 0 && item.marker) {
+          page.push(drawText(MARGIN, baseline, item.marker, 'bold', item.size));
+        }
+        if (index === 0 && item.aside) {
+          const asideX = width - MARGIN - textWidth(item.aside, 'regular', SMALL_SIZE);
+          page.push(drawText(asideX, baseline, item.aside, 'regular', SMALL_SIZE, 0.4));
+        }
+        y -= lineHeight;
+      });
+    }
+  };
+
+  // Page numbers for the pages from `start` on; each version and key is numbered on its own
+  const footer = (start: number, label: string) => {
+    const count = pages.length - start;
+    pages.slice(start).forEach((footerPage, index) => {
+      const pageLabel = `Page ${index + 1} of ${count}`;
+      footerPage.push(
+        drawText(MARGIN, MARGIN, label, 'regular', SMALL_SIZE, 0.4),
+        drawText(width - MARGIN - textWidth(pageLabel, 'regular', SMALL_SIZE), MARGIN, pageLabel, 'regular', SMALL_SIZE, 0.4),
+      );
+    });
+  };
+
+  return { pages, place, footer, newPage, contentWidth: width - MARGIN * 2 };
+};
+
+type Layout = ReturnType<typeof createLayout>;
+
+const text = (layout: Layout, value: string, font: PdfFont, size: number, x = MARGIN, extra: Partial<TextRun> = {}): TextRun => {
+  const maxWidth = layout.contentWidth - (x - MARGIN) - (extra.aside ? POINTS_WIDTH : 0);
+  return { x, lines: wrapText(value, font, size, maxWidth), font, size, ...extra };
+};
+
+const versionName = (version: WorksheetVersion) => (version.label ? `Version ${version.label}` : undefined);
+
+const sectionHeading = (layout: Layout, section: WorksheetSection, index: number, withInstructions: boolean): BlockItem[] => {
+  const count = section.questions.length;
+  return [
+    { gap: 10 },
+    text(layout, `Section ${index + 1}: ${SECTIONS[section.type].title}`, 'bold', 13, MARGIN, {
+      aside: `${count} question${count === 1 ? '' : 's'}, ${pointsLabel(sectionPoints(section))}`,
+    }),
+    ...(withInstructions ? [text(layout, SECTIONS[section.type].instructions, 'italic', SMALL_SIZE + 1, MARGIN, { gray: 0.35 })] : []),
+    { gap: 8 },
+  ];
+};
+
+// Each version and key starts on a new page with a title, and gets its own footer
+const renderPart = (
+  layout: Layout,
+  name: string,
+  subtitle: string,
+  version: WorksheetVersion,
+  renderQuestion: (item: WorksheetQuestion) => BlockItem[],
+  withInstructions: boolean,
+) => {
+  layout.newPage();
+  const start = layout.pages.length - 1;
+
+  layout.place([
+    text(layout, name, 'bold', 18, MARGIN, { aside: versionName(version) }),
+    { gap: 4 },
+    text(layout, subtitle, 'regular', BODY_SIZE, MARGIN, { gray: 0.35 }),
+    { gap: 8 },
+  ]);
+
+  version.sections.forEach((section, sectionIndex) => {
+    section.questions.forEach((item, index) => {
+      // A section heading stays on the page of its first question
+      const heading = index === 0 ? sectionHeading(layout, section, sectionIndex, withInstructions) : [];
+      layout.place([...heading, ...renderQuestion(item)]);
+    });
+  });
+
+  layout.footer(start, [name, versionName(version), withInstructions ? undefined : 'Answer key'].filter(Boolean).join(' · '));
+};
+
+const worksheetQuestion = (layout: Layout) => ({ question, options, number }: WorksheetQuestion): BlockItem[] => {
+  const block: BlockItem[] = [
+    text(layout, question.question, 'regular', BODY_SIZE, MARGIN + INDENT, {
+      marker: `${number}.`,
+      aside: pointsLabel(getQuestionPoints(question)),
+    }),
+  ];
+
+  if (question.type === 'true_false') {
+    block.push({ gap: 2 }, text(layout, 'True          False', 'regular', BODY_SIZE, MARGIN + INDENT * 2));
+  } else if (options.length > 0) {
+    block.push({ gap: 2 });
+    options.forEach((option, index) => {
+      block.push(text(layout, `${optionLetter(index)}.  ${option}`, 'regular', BODY_SIZE, MARGIN + INDENT * 2));
+    });
+  }
+  if (ANSWER_LINES[question.type] > 0) {
+    block.push({ rules: ANSWER_LINES[question.type] });
+  }
+  block.push({ gap: 14 });
+  return block;
+};
+
+const keyQuestion = (layout: Layout) => (item: WorksheetQuestion): BlockItem[] => {
+  const { question, number } = item;
+  const written = question.type === 'short' || question.type === 'long';
+  const block: BlockItem[] = [
+    text(layout, written ? `Reference answer: ${keyAnswer(item)}` : keyAnswer(item), written ? 'regular' : 'bold', BODY_SIZE, MARGIN + INDENT, {
+      marker: `${number}.`,
+      aside: pointsLabel(getQuestionPoints(question)),
+    }),
+  ];
+
+  if (question.explanation?.trim()) {
+    block.push({ gap: 2 }, text(layout, question.explanation.trim(), 'italic', SMALL_SIZE + 0.5, MARGIN + INDENT, { gray: 0.35 }));
+  }
+  block.push({ gap: 10 });
+  return block;
+};
+
+/**
+ * Characters in the name or the questions that the PDF fonts cannot print, e.g. from a quiz in
+ * Hindi or Chinese. Worksheets with any are refused rather than printed with "?" in their place.
+ */
+export const worksheetUnsupportedCharacters = (name: string, questions: ExportQuestion[]): string[] => {
+  return unsupportedCharacters([
+    name,
+    ...questions.flatMap((question) => [
+      question.question,
+      question.answer,
+      question.explanation || '',
+      ...(question.options || []),
+      ...(question.acceptedAnswers || []),
+    ]),
+  ]);
+};
+
+/**
+ * Worksheet and/or answer key PDF for a quiz. With several versions, all worksheets come first
+ * and the keys follow in the same order.
+ */
+export const renderWorksheet = (name: string, questions: ExportQuestion[], options: WorksheetOptions, seed = name): ExportFile => {
+  const unsupported = worksheetUnsupportedCharacters(name, questions);
+  if (unsupported.length > 0) {
+    throw new Error(`The PDF fonts cannot print these characters: ${unsupported.slice(0, 10).join(' ')}${unsupported.length > 10 ? ' ...' : ''}`);
+  }
+
+  const versions = buildVersions(questions, options, seed);
+  const layout = createLayout(options.pageSize);
+
+  if (options.part !== 'key') {
+    versions.forEach((version) => {
+      const totalPoints = version.sections.reduce((sum, section) => sum + sectionPoints(section), 0);
+      const subtitle = `Name: ______________________________   Date: ______________   Score: ______ / ${totalPoints}`;
+      renderPart(layout, name, subtitle, version, worksheetQuestion(layout), true);
+    });
+  }
+  if (options.part !== 'worksheet') {
+    versions.forEach((version) => {
+      renderPart(layout, name, 'Answer key', version, keyQuestion(layout), false);
+    });
+  }
+
+  const suffix = { worksheet: 'worksheet', key: 'answer-key', both: 'worksheet-and-key' }[options.part];
+  return {
+    filename: `${slugify(name)}-${suffix}.pdf`,
+    contentType: 'application/pdf',
+    data: createPdf(layout.pages, options.pageSize, name),
+  };
+};